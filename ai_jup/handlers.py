@@ -1,7 +1,10 @@
 """Server handlers for AI prompt processing."""
+import asyncio
 import json
 import os
 import re
+import time
+import uuid
 
 from jupyter_server.base.handlers import APIHandler
 from jupyter_server.utils import url_path_join
@@ -17,6 +20,12 @@ try:
 except ImportError:
     HAS_ANTHROPIC = False
 
+try:
+    import openai
+    HAS_OPENAI = True
+except ImportError:
+    HAS_OPENAI = False
+
 
 def _validate_tool_args(tool_args):
     """Validate tool args as a kwargs-compatible dict."""
@@ -30,11 +39,33 @@ def _validate_tool_args(tool_args):
     return tool_args
 
 
+# Display names for kernel languages in the system prompt
+LANGUAGE_NAMES = {
+    "python": "Python",
+    "r": "R",
+    "javascript": "JavaScript",
+    "typescript": "TypeScript",
+    "julia": "Julia",
+}
+
+# Appended to the system prompt when the user asks for edits to existing cells
+CELL_EDIT_INSTRUCTIONS = (
+    " The user wants you to edit the notebook cells listed below. Reply with a short explanation "
+    "followed by exactly one ```json code block of the form {\"edits\": [...]}. Each edit is one of: "
+    "{\"action\": \"replace\", \"cellId\": ..., \"source\": <complete new cell source>}, "
+    "{\"action\": \"insert\", \"afterCellId\": <cell id, or null for the top>, "
+    "\"cellType\": \"code\" or \"markdown\", \"source\": ...}, or "
+    "{\"action\": \"delete\", \"cellId\": ...}. Only use the cell ids listed, and leave cells "
+    "that need no change out of the edits."
+)
+
+
 def _build_tool_execution_code(tool_name: str, tool_args: dict, timeout: int) -> str:
     """Build Python code to execute a named function with JSON args safely.
 
     Tool args are passed as a JSON string and decoded in Python to avoid
-    interpolating untrusted keys/values into executable code.
+    interpolating untrusted keys/values into executable code. Tools of other
+    kernel languages run through the frontend's language adapters.
     """
     validated_args = _validate_tool_args(tool_args)
     args_json_literal = repr(json.dumps(validated_args))
@@ -93,7 +124,16 @@ try:
     except Exception as _conv_e:
         _content = {{"type": "text", "content": "Error: " + str(_conv_e) + " | " + repr(_result)[:500]}}
     
-    print(_json_mod.dumps({{"result": _content, "status": "success"}}))
+    _reply = {{"result": _content, "status": "success"}}
+    # Full MIME bundle of the value, rendered by the frontend only
+    try:
+        _data = get_ipython().display_formatter.format(_result)[0]
+        if _data:
+            _reply["data"] = _data
+    except Exception:
+        pass
+    
+    print(_json_mod.dumps(_reply, default=str))
 except TimeoutError as _te:
     print(_json_mod.dumps({{"error": str(_te), "status": "error"}}))
 except Exception as _e:
@@ -106,12 +146,426 @@ finally:
 """
 
 
+def _format_bytes(num_bytes: int) -> str:
+    """Format a byte count for display, e.g. `12.5 KB`."""
+    units = ["B", "KB", "MB", "GB", "TB"]
+    value = float(num_bytes)
+    unit = 0
+    while value >= 1024 and unit < len(units) - 1:
+        value /= 1024
+        unit += 1
+    return f"{int(value)} {units[unit]}" if unit == 0 else f"{value:.1f} {units[unit]}"
+
+
+def _format_variable_summary(type_name: str, summary: dict) -> str:
+    """Format a structured variable summary as plain text.
+
+    Mirrors `formatVariableSummary` in the frontend (src/variableSummarizers.ts).
+    """
+    facts = []
+    shape = summary.get("shape")
+    if shape is not None:
+        facts.append(f"shape ({', '.join(str(d) for d in shape)}{',' if len(shape) == 1 else ''})")
+    if summary.get("dtype"):
+        facts.append(f"dtype {summary['dtype']}")
+    if summary.get("device"):
+        facts.append(f"device {summary['device']}")
+    if summary.get("min") is not None and summary.get("max") is not None:
+        facts.append(f"min {summary['min']}, max {summary['max']}")
+    if summary.get("memory_usage") is not None:
+        facts.append(f"memory {_format_bytes(summary['memory_usage'])}")
+
+    lines = [f"{type_name}: {', '.join(facts)}" if facts else type_name]
+    if summary.get("dtypes"):
+        lines.append("dtypes: " + ", ".join(f"{col}: {dtype}" for col, dtype in summary["dtypes"].items()))
+    null_counts = summary.get("null_counts")
+    if isinstance(null_counts, dict) and null_counts:
+        lines.append("nulls: " + ", ".join(f"{col}: {n}" for col, n in null_counts.items()))
+    elif isinstance(null_counts, int) and null_counts:
+        lines.append(f"nulls: {null_counts}")
+    if summary.get("head"):
+        lines.append(f"head:\n{summary['head']}")
+    if summary.get("tail"):
+        lines.append(f"tail:\n{summary['tail']}")
+    return "\n".join(lines)
+
+
+# Default endpoint of the "local" provider (Ollama's OpenAI-compatible API)
+DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1"
+
+# Models offered for the Anthropic provider
+ANTHROPIC_MODELS = [
+    {"id": "claude-sonnet-4-20250514", "name": "Claude Sonnet 4"},
+    {"id": "claude-3-5-sonnet-20241022", "name": "Claude 3.5 Sonnet"},
+    {"id": "claude-3-haiku-20240307", "name": "Claude 3 Haiku"},
+]
+
+
+class ProviderError(Exception):
+    """Raised when a provider cannot be used, e.g. a missing package or API key."""
+
+
+class BaseUrlNotAllowedError(ProviderError):
+    """Raised when a request picks a provider endpoint the server does not allow."""
+
+
+def _parse_tool_input(buffer: str) -> dict:
+    """Parse streamed tool input JSON, marking invalid input for the tool loop."""
+    try:
+        return json.loads(buffer or "{}")
+    except json.JSONDecodeError:
+        return {"__invalid_json__": True, "__raw__": buffer}
+
+
+class AnthropicProvider:
+    """Streams responses from the Anthropic Messages API."""
+
+    def __init__(self, base_url: str = None):
+        if not HAS_ANTHROPIC:
+            raise ProviderError("anthropic package not installed")
+        api_key = os.environ.get("ANTHROPIC_API_KEY")
+        if not api_key:
+            raise ProviderError("ANTHROPIC_API_KEY environment variable not set")
+        if base_url:
+            self._client = anthropic.AsyncAnthropic(api_key=api_key, base_url=base_url)
+        else:
+            self._client = anthropic.AsyncAnthropic(api_key=api_key)
+
+    async def stream(self, model: str, system: list, messages: list, tools: list):
+        """Stream one model turn as normalized events.
+
+        Yields `{"type": "text", "text"}`, `{"type": "tool_call", "id", "name"}` and
+        `{"type": "tool_input", "partial_json"}` events, then a final
+        `{"type": "message", "content"}` event holding the assistant content blocks.
+        """
+        current_tool_call = None
+        current_text_block = None
+        tool_input_buffer = ""
+        text_buffer = ""
+        assistant_content = []
+
+        async with self._client.messages.stream(
+            model=model,
+            max_tokens=4096,
+            system=system,
+            messages=messages,
+            tools=tools if tools else anthropic.NOT_GIVEN,
+        ) as stream:
+            async for event in stream:
+                if not hasattr(event, 'type'):
+                    continue
+                if event.type == 'content_block_delta':
+                    # Handle both text and tool input deltas
+                    if hasattr(event.delta, 'text'):
+                        text_buffer += event.delta.text
+                        yield {"type": "text", "text": event.delta.text}
+                    if hasattr(event.delta, 'partial_json') and current_tool_call:
+                        tool_input_buffer += event.delta.partial_json
+                        yield {"type": "tool_input", "partial_json": event.delta.partial_json}
+                elif event.type == 'content_block_start':
+                    if hasattr(event.content_block, 'type'):
+                        if event.content_block.type == 'tool_use':
+                            current_tool_call = {
+                                "id": event.content_block.id,
+                                "name": event.content_block.name
+                            }
+                            tool_input_buffer = ""
+                            yield {"type": "tool_call", **current_tool_call}
+                        elif event.content_block.type == 'text':
+                            current_text_block = True
+                            text_buffer = ""
+                elif event.type == 'content_block_stop':
+                    # Capture completed content blocks for message history
+                    if current_tool_call:
+                        assistant_content.append({
+                            "type": "tool_use",
+                            "id": current_tool_call["id"],
+                            "name": current_tool_call["name"],
+                            "input": _parse_tool_input(tool_input_buffer)
+                        })
+                        current_tool_call = None
+                        tool_input_buffer = ""
+                    elif current_text_block and text_buffer:
+                        assistant_content.append({
+                            "type": "text",
+                            "text": text_buffer
+                        })
+                        current_text_block = None
+                        text_buffer = ""
+
+        yield {"type": "message", "content": assistant_content}
+
+
+class OpenAICompatibleProvider:
+    """Streams responses from an OpenAI-compatible Chat Completions API.
+
+    Messages and tools are kept in the Anthropic format used by the tool loop
+    and converted for each request.
+    """
+
+    def __init__(self, base_url: str = None, local: bool = False):
+        if not HAS_OPENAI:
+            raise ProviderError("openai package not installed")
+        if local:
+            base_url = base_url or DEFAULT_LOCAL_BASE_URL
+        api_key = os.environ.get("OPENAI_API_KEY")
+        if not api_key:
+            if not base_url:
+                raise ProviderError("OPENAI_API_KEY environment variable not set")
+            # Local and self-hosted servers usually accept any key
+            api_key = "not-needed"
+        self._client = openai.AsyncOpenAI(api_key=api_key, base_url=base_url or None)
+
+    async def list_models(self) -> list:
+        """List the models the endpoint serves, from its `/models` endpoint."""
+        return [{"id": model.id, "name": model.id} async for model in self._client.models.list()]
+
+    async def stream(self, model: str, system: list, messages: list, tools: list):
+        """Stream one model turn as normalized events (see AnthropicProvider.stream)."""
+        request = {
+            "model": model,
+            "messages": _to_openai_messages(system, messages),
+            "stream": True,
+        }
+        if tools:
+            request["tools"] = _to_openai_tools(tools)
+        stream = await self._client.chat.completions.create(**request)
+
+        text_buffer = ""
+        tool_calls = {}  # Streamed tool calls by index
+        async for chunk in stream:
+            choices = getattr(chunk, "choices", None) or []
+            if not choices:
+                continue
+            delta = choices[0].delta
+            if getattr(delta, "content", None):
+                text_buffer += delta.content
+                yield {"type": "text", "text": delta.content}
+            for call in getattr(delta, "tool_calls", None) or []:
+                function = getattr(call, "function", None)
+                entry = tool_calls.get(call.index)
+                if entry is None:
+                    entry = {
+                        "id": getattr(call, "id", None) or f"call_{call.index}",
+                        "name": getattr(function, "name", None) or "",
+                        "arguments": ""
+                    }
+                    tool_calls[call.index] = entry
+                    yield {"type": "tool_call", "id": entry["id"], "name": entry["name"]}
+                arguments = getattr(function, "arguments", None)
+                if arguments:
+                    entry["arguments"] += arguments
+                    yield {"type": "tool_input", "partial_json": arguments}
+
+        assistant_content = []
+        if text_buffer:
+            assistant_content.append({"type": "text", "text": text_buffer})
+        for index in sorted(tool_calls):
+            entry = tool_calls[index]
+            assistant_content.append({
+                "type": "tool_use",
+                "id": entry["id"],
+                "name": entry["name"],
+                "input": _parse_tool_input(entry["arguments"])
+            })
+        yield {"type": "message", "content": assistant_content}
+
+
+def _to_openai_messages(system: list, messages: list) -> list:
+    """Convert an Anthropic system prompt and messages to Chat Completions messages.
+
+    Text system blocks become the system message and context images a user
+    message after it. Tool uses become assistant `tool_calls` and tool results
+    `tool` messages.
+    """
+    system_text = "\n\n".join(b.get("text", "") for b in system if b.get("type") == "text")
+    result = [{"role": "system", "content": system_text}]
+    images = [b for b in system if b.get("type") == "image"]
+    if images:
+        result.append({"role": "user", "content": [_to_openai_image(b) for b in images]})
+
+    for message in messages:
+        role = message.get("role")
+        content = message.get("content")
+        if isinstance(content, str):
+            result.append({"role": role, "content": content})
+            continue
+        if role == "assistant":
+            text = "".join(b.get("text", "") for b in content if b.get("type") == "text")
+            converted = {"role": "assistant", "content": text or None}
+            tool_uses = [b for b in content if b.get("type") == "tool_use"]
+            if tool_uses:
+                converted["tool_calls"] = [
+                    {
+                        "id": b["id"],
+                        "type": "function",
+                        "function": {"name": b["name"], "arguments": json.dumps(b.get("input", {}))}
+                    }
+                    for b in tool_uses
+                ]
+            result.append(converted)
+            continue
+        parts = []
+        for block in content:
+            if block.get("type") == "tool_result":
+                result.append({
+                    "role": "tool",
+                    "tool_call_id": block.get("tool_use_id"),
+                    "content": str(block.get("content", ""))
+                })
+            elif block.get("type") == "text":
+                parts.append({"type": "text", "text": block.get("text", "")})
+            elif block.get("type") == "image":
+                parts.append(_to_openai_image(block))
+        if parts:
+            result.append({"role": role, "content": parts})
+    return result
+
+
+def _to_openai_image(block: dict) -> dict:
+    """Convert an Anthropic base64 image block to a Chat Completions image part."""
+    source = block.get("source", {})
+    url = f"data:{source.get('media_type', 'image/png')};base64,{source.get('data', '')}"
+    return {"type": "image_url", "image_url": {"url": url}}
+
+
+def _to_openai_tools(tools: list) -> list:
+    """Convert Anthropic tool definitions to Chat Completions function tools."""
+    return [
+        {
+            "type": "function",
+            "function": {
+                "name": tool["name"],
+                "description": tool.get("description", ""),
+                "parameters": tool.get("input_schema", {"type": "object", "properties": {}})
+            }
+        }
+        for tool in tools
+    ]
+
+
+# Provider ids accepted in prompt requests
+PROVIDERS = {
+    "anthropic": lambda base_url: AnthropicProvider(base_url),
+    "openai": lambda base_url: OpenAICompatibleProvider(base_url),
+    "local": lambda base_url: OpenAICompatibleProvider(base_url, local=True),
+}
+
+
+def _allowed_base_urls() -> set:
+    """Endpoint overrides requests may pick, from the comma-separated AI_JUP_ALLOWED_BASE_URLS."""
+    urls = os.environ.get("AI_JUP_ALLOWED_BASE_URLS", "").split(",")
+    return {url.strip().rstrip("/") for url in urls if url.strip()}
+
+
+def _get_provider(provider_id: str = None, base_url: str = None):
+    """Create the provider for a request; raises ProviderError when it cannot be used."""
+    factory = PROVIDERS.get(provider_id or "anthropic")
+    if factory is None:
+        raise ProviderError(f"Unknown provider: {provider_id}")
+    # The server's API key is sent to the endpoint, so only configured ones may be picked
+    if base_url and base_url.strip().rstrip("/") not in _allowed_base_urls():
+        raise BaseUrlNotAllowedError(
+            f"Base URL {base_url} is not allowed; add it to AI_JUP_ALLOWED_BASE_URLS on the server"
+        )
+    return factory(base_url or None)
+
+
+# When tool calls wait for the user's approval: every call, calls of functions
+# that are not in the request's approved_tools, or never
+TOOL_APPROVAL_MODES = ("always", "unlisted", "auto")
+
+# Seconds a tool call waits for a decision before it is treated as denied
+TOOL_APPROVAL_TIMEOUT = 600
+
+# Seconds the server waits for the result of a tool call run by the frontend
+CLIENT_TOOL_TIMEOUT = 600
+
+# Tool calls waiting for a decision from ToolApprovalHandler, by approval id
+_pending_approvals = {}
+
+# Tool calls run by the frontend, waiting for ToolResultHandler, by request id
+_pending_tool_results = {}
+
+
+def _needs_approval(mode: str, tool_name: str, approved_tools) -> bool:
+    """Whether a tool call must wait for the user's approval."""
+    if mode == "always":
+        return True
+    if mode == "unlisted":
+        return tool_name not in (approved_tools or [])
+    return False
+
+
+def _register_reply(pending: dict, reply_id: str) -> asyncio.Future:
+    """Register a reply from the frontend that the tool loop will wait for."""
+    future = asyncio.get_running_loop().create_future()
+    pending[reply_id] = future
+    return future
+
+
+async def _wait_for_reply(pending: dict, reply_id: str, future: asyncio.Future,
+                          timeout: float, default: dict) -> dict:
+    """Wait for a registered reply, or return `default` after `timeout` seconds."""
+    try:
+        return await asyncio.wait_for(future, timeout)
+    except asyncio.TimeoutError:
+        return default
+    finally:
+        pending.pop(reply_id, None)
+
+
+def _resolve_reply(pending: dict, reply_id: str, reply: dict) -> bool:
+    """Pass a reply to the waiting tool loop. Returns False if none is waiting."""
+    future = pending.pop(reply_id, None)
+    if future is None or future.done():
+        return False
+    future.set_result(reply)
+    return True
+
+
+def _register_approval(approval_id: str) -> asyncio.Future:
+    """Register a tool call that waits for a decision."""
+    return _register_reply(_pending_approvals, approval_id)
+
+
+async def _wait_for_approval(approval_id: str, future: asyncio.Future,
+                             timeout: float = TOOL_APPROVAL_TIMEOUT) -> dict:
+    """Wait for the decision on a tool call; a call without one is denied."""
+    return await _wait_for_reply(_pending_approvals, approval_id, future, timeout, {"decision": "deny"})
+
+
+def _resolve_approval(approval_id: str, decision: dict) -> bool:
+    """Pass a decision to a waiting tool call. Returns False if none is waiting."""
+    return _resolve_reply(_pending_approvals, approval_id, decision)
+
+
+def _register_tool_result(request_id: str) -> asyncio.Future:
+    """Register a tool call that the frontend is asked to run."""
+    return _register_reply(_pending_tool_results, request_id)
+
+
+async def _wait_for_tool_result(request_id: str, future: asyncio.Future,
+                                timeout: float = CLIENT_TOOL_TIMEOUT) -> dict:
+    """Wait for the result of a tool call run by the frontend."""
+    default = {"status": "error", "error": f"No tool result received within {timeout} seconds"}
+    return await _wait_for_reply(_pending_tool_results, request_id, future, timeout, default)
+
+
+def _resolve_tool_result(request_id: str, result: dict) -> bool:
+    """Pass the result of a tool call run by the frontend. Returns False if none is waiting."""
+    return _resolve_reply(_pending_tool_results, request_id, result)
+
+
 class PromptHandler(APIHandler):
     """Handler for AI prompt requests with streaming support."""
 
     @authenticated
     async def post(self):
         """Process a prompt and stream the response with optional tool loop."""
+        # Replies from the frontend this request waits for: reply id -> (pending, reply on close)
+        self._waiting_replies = {}
+        self._connection_closed = False
         try:
             data = self.get_json_body() or {}
             if not isinstance(data, dict):
@@ -125,29 +579,54 @@ class PromptHandler(APIHandler):
             preceding_code = context.get("preceding_code", "")
             images = context.get("images", [])  # Multimodal image context
             chart_specs = context.get("chartSpecs", [])  # Declarative viz specs
+            outputs = context.get("outputs", [])  # Text outputs and errors of preceding cells
+            editable_cells = context.get("editableCells")  # Set when asking for cell edits
             conversation_history = context.get("conversationHistory", [])  # Previous turns
+            language = (context.get("language") or "python").lower()  # Kernel language_info.name
             model = data.get("model", "claude-sonnet-4-20250514")
+            provider_id = data.get("provider") or "anthropic"  # anthropic, openai or local
+            base_url = data.get("base_url")  # Endpoint override for the provider
             kernel_id = data.get("kernel_id")  # For server-side tool execution
             max_steps = int(data.get("max_steps", 1))  # Max tool loop iterations
+            approval_mode = data.get("tool_approval") or "auto"  # always, unlisted or auto
+            approved_tools = data.get("approved_tools") or []  # Run without asking when unlisted
+            tool_execution = data.get("tool_execution") or "server"  # server or client (frontend kernel session)
 
-            system_prompt = self._build_system_prompt(preceding_code, variables, functions, images, chart_specs)
+            system_prompt = self._build_system_prompt(
+                preceding_code, variables, functions, images, chart_specs, language=language,
+                outputs=outputs, editable_cells=editable_cells
+            )
             
             self.set_header("Content-Type", "text/event-stream")
             self.set_header("Cache-Control", "no-cache")
             self.set_header("Connection", "keep-alive")
 
-            if not HAS_ANTHROPIC:
-                self.set_status(500)
-                self.finish({"error": "anthropic package not installed"})
+            if provider_id not in PROVIDERS:
+                self.set_status(400)
+                self.finish({"error": f"Unknown provider: {provider_id}"})
                 return
-
-            api_key = os.environ.get("ANTHROPIC_API_KEY")
-            if not api_key:
+            if approval_mode not in TOOL_APPROVAL_MODES:
+                self.set_status(400)
+                self.finish({"error": f"Unknown tool approval mode: {approval_mode}"})
+                return
+            if tool_execution not in ("server", "client"):
+                self.set_status(400)
+                self.finish({"error": f"Unknown tool execution mode: {tool_execution}"})
+                return
+            if tool_execution == "server" and functions and max_steps >= 1 and language != "python":
+                self.set_status(400)
+                self.finish({"error": f"Server tool execution is not supported in {language} kernels"})
+                return
+            try:
+                provider = _get_provider(provider_id, base_url)
+            except BaseUrlNotAllowedError as e:
+                self.set_status(403)
+                self.finish({"error": str(e)})
+                return
+            except ProviderError as e:
                 self.set_status(500)
-                self.finish({"error": "ANTHROPIC_API_KEY environment variable not set"})
+                self.finish({"error": str(e)})
                 return
-
-            client = anthropic.AsyncAnthropic(api_key=api_key)
             
             tools = self._build_tools(functions)
             
@@ -162,76 +641,29 @@ class PromptHandler(APIHandler):
             steps = 0
             
             while True:
-                current_tool_call = None
-                current_text_block = None
-                tool_input_buffer = ""
-                text_buffer = ""
                 assistant_content = []
                 
-                async with client.messages.stream(
-                    model=model,
-                    max_tokens=4096,
-                    system=system_prompt,
-                    messages=messages,
-                    tools=tools if tools else anthropic.NOT_GIVEN,
-                ) as stream:
-                    async for event in stream:
-                        if hasattr(event, 'type'):
-                            if event.type == 'content_block_delta':
-                                # Handle both text and tool input deltas
-                                if hasattr(event.delta, 'text'):
-                                    text_buffer += event.delta.text
-                                    await self._write_sse({"text": event.delta.text})
-                                if hasattr(event.delta, 'partial_json') and current_tool_call:
-                                    tool_input_buffer += event.delta.partial_json
-                                    await self._write_sse({"tool_input": event.delta.partial_json})
-                            elif event.type == 'content_block_start':
-                                if hasattr(event.content_block, 'type'):
-                                    if event.content_block.type == 'tool_use':
-                                        current_tool_call = {
-                                            "id": event.content_block.id,
-                                            "name": event.content_block.name
-                                        }
-                                        tool_input_buffer = ""
-                                        await self._write_sse({
-                                            "tool_call": {
-                                                "name": event.content_block.name,
-                                                "id": event.content_block.id
-                                            }
-                                        })
-                                    elif event.content_block.type == 'text':
-                                        current_text_block = True
-                                        text_buffer = ""
-                            elif event.type == 'content_block_stop':
-                                # Capture completed content blocks for message history
-                                if current_tool_call:
-                                    try:
-                                        tool_args = json.loads(tool_input_buffer or "{}")
-                                    except json.JSONDecodeError:
-                                        tool_args = {"__invalid_json__": True, "__raw__": tool_input_buffer}
-                                    assistant_content.append({
-                                        "type": "tool_use",
-                                        "id": current_tool_call["id"],
-                                        "name": current_tool_call["name"],
-                                        "input": tool_args
-                                    })
-                                    current_tool_call = None
-                                    tool_input_buffer = ""
-                                elif current_text_block and text_buffer:
-                                    assistant_content.append({
-                                        "type": "text",
-                                        "text": text_buffer
-                                    })
-                                    current_text_block = None
-                                    text_buffer = ""
-                            elif event.type == 'message_stop':
-                                pass  # Handled after stream closes
+                # Providers stream normalized events; forward them in the
+                # provider-independent SSE format
+                async for event in provider.stream(model, system_prompt, messages, tools):
+                    if event["type"] == "text":
+                        await self._write_sse({"text": event["text"]})
+                    elif event["type"] == "tool_call":
+                        await self._write_sse({
+                            "tool_call": {"name": event["name"], "id": event["id"]}
+                        })
+                    elif event["type"] == "tool_input":
+                        await self._write_sse({"tool_input": event["partial_json"]})
+                    elif event["type"] == "message":
+                        assistant_content = event["content"]
                 
                 # Find tool use blocks in assistant_content
                 tool_use_blocks = [b for b in assistant_content if b.get("type") == "tool_use"]
                 
-                # Check if we should execute tools and loop
-                if not tool_use_blocks or steps >= max_steps or not kernel:
+                # Check if we should execute tools and loop; the frontend runs
+                # client-side tools, so no server kernel is needed for them
+                can_execute = bool(kernel) or tool_execution == "client"
+                if not tool_use_blocks or steps >= max_steps or not can_execute:
                     await self._write_sse({"done": True})
                     break
                 
@@ -270,20 +702,71 @@ class PromptHandler(APIHandler):
                         should_break = True
                         break
                     
-                    # Execute tool in kernel
-                    tool_result = await self._execute_tool_in_kernel(kernel, tool_name, tool_args)
+                    # Wait for the user to approve, edit or deny the call
+                    decision = "approve"
+                    if _needs_approval(approval_mode, tool_name, approved_tools):
+                        approval_id = uuid.uuid4().hex
+                        future = _register_approval(approval_id)
+                        await self._write_sse({
+                            "tool_approval": {
+                                "id": approval_id,
+                                "tool_id": tool_id,
+                                "name": tool_name,
+                                "input": tool_args
+                            }
+                        })
+                        answer = await self._wait_for_frontend(
+                            _pending_approvals, approval_id, _wait_for_approval(approval_id, future),
+                            {"decision": "deny"}
+                        )
+                        decision = answer.get("decision")
+                        if decision == "edit":
+                            try:
+                                tool_args = _validate_tool_args(answer.get("args"))
+                            except ValueError as ve:
+                                await self._write_sse({"error": str(ve)})
+                                should_break = True
+                                break
+
+                    started = time.monotonic()
+                    if decision == "deny":
+                        tool_result = {"status": "denied", "error": "Tool call denied by the user"}
+                    elif tool_execution == "client":
+                        # Run in the notebook's kernel session through the frontend
+                        request_id = uuid.uuid4().hex
+                        future = _register_tool_result(request_id)
+                        await self._write_sse({
+                            "tool_execute": {
+                                "id": request_id,
+                                "tool_id": tool_id,
+                                "name": tool_name,
+                                "input": tool_args
+                            }
+                        })
+                        tool_result = await self._wait_for_frontend(
+                            _pending_tool_results, request_id, _wait_for_tool_result(request_id, future),
+                            {"status": "error", "error": "The client disconnected"}
+                        )
+                    else:
+                        # Execute tool in kernel
+                        tool_result = await self._execute_tool_in_kernel(kernel, tool_name, tool_args)
                     
-                    # Stream tool result to frontend
-                    await self._write_sse({
-                        "tool_result": {
-                            "id": tool_id,
-                            "name": tool_name,
-                            "result": tool_result
-                        }
-                    })
+                    # Stream tool result to frontend, with the arguments it ran with
+                    # and how long it took for the transcript
+                    tool_result_event = {
+                        "id": tool_id,
+                        "name": tool_name,
+                        "input": tool_args,
+                        "result": tool_result
+                    }
+                    if decision != "deny":
+                        tool_result_event["duration"] = round(time.monotonic() - started, 3)
+                    await self._write_sse({"tool_result": tool_result_event})
                     
                     # Format result content for LLM context
-                    if tool_result.get("status") == "error":
+                    if tool_result.get("status") == "denied":
+                        result_text = "The user denied this tool call. Do not retry it unless asked."
+                    elif tool_result.get("status") == "error":
                         result_text = f"Error: {tool_result.get('error', 'Unknown error')}"
                     else:
                         result_content = tool_result.get("result", {})
@@ -299,6 +782,11 @@ class PromptHandler(APIHandler):
                         else:
                             result_text = str(result_content)
                     
+                    if decision == "edit":
+                        result_text = (
+                            f"The user changed the arguments to {json.dumps(tool_args)}.\n{result_text}"
+                        )
+
                     tool_results.append({
                         "type": "tool_result",
                         "tool_use_id": tool_id,
@@ -340,6 +828,25 @@ class PromptHandler(APIHandler):
             except StreamClosedError:
                 pass
 
+    def on_connection_close(self):
+        """Answer the replies the tool loop waits for when the client disconnects."""
+        self._connection_closed = True
+        for reply_id, (pending, reply) in list(getattr(self, "_waiting_replies", {}).items()):
+            _resolve_reply(pending, reply_id, reply)
+
+    async def _wait_for_frontend(self, pending: dict, reply_id: str, wait, closed_reply: dict) -> dict:
+        """Await a reply from the frontend; after a disconnect, stop the tool loop instead."""
+        self._waiting_replies[reply_id] = (pending, closed_reply)
+        if self._connection_closed:
+            _resolve_reply(pending, reply_id, closed_reply)
+        try:
+            reply = await wait
+        finally:
+            self._waiting_replies.pop(reply_id, None)
+        if self._connection_closed:
+            raise StreamClosedError()
+        return reply
+
     async def _write_sse(self, data: dict):
         """Write a server-sent event."""
         try:
@@ -443,7 +950,9 @@ class PromptHandler(APIHandler):
         except Exception as e:
             return {"error": str(e), "status": "error"}
 
-    def _build_system_prompt(self, preceding_code: str, variables: dict, functions: dict, images: list = None, chart_specs: list = None) -> list:
+    def _build_system_prompt(self, preceding_code: str, variables: dict, functions: dict, images: list = None,
+                             chart_specs: list = None, language: str = "python", outputs: list = None,
+                             editable_cells: list = None) -> list:
         """Build the system prompt with context as content blocks for caching.
         
         Returns a list of content blocks suitable for Anthropic's system parameter.
@@ -456,15 +965,22 @@ class PromptHandler(APIHandler):
             functions: Function info dict
             images: List of image context dicts with 'data', 'mimeType', 'source', 'cellIndex'
             chart_specs: List of chart spec dicts with 'type', 'spec', 'cellIndex'
+            language: Kernel language (`language_info.name`) for code fences
+            outputs: List of cell output dicts with 'outputType', 'name', 'text', 'cellIndex'
+            editable_cells: List of cell dicts with 'id' and 'source' when the user asks for
+                edits to existing cells, or None for a normal response
         """
         images = images or []
         chart_specs = chart_specs or []
+        outputs = outputs or []
+        language = (language or "python").lower()
+        language_name = LANGUAGE_NAMES.get(language, language)
         
         # Base instructions - stable, cacheable (requires ~1024 tokens minimum)
         base_instructions = (
             "You are an AI assistant embedded in a Jupyter notebook. "
             "Help the user with their data science and programming tasks. "
-            "When generating code, write Python that can be executed in the notebook. "
+            f"When generating code, write {language_name} that can be executed in the notebook. "
             "Be concise and practical. "
             "When you need to perform computations or get data, use the available tools. "
             "Tools return rich results including DataFrames as HTML tables and matplotlib figures as images."
@@ -485,6 +1001,9 @@ class PromptHandler(APIHandler):
                 "Use these specs to understand what the charts show."
             )
         
+        if editable_cells is not None:
+            base_instructions += CELL_EDIT_INSTRUCTIONS
+        
         blocks = [
             {
                 "type": "text",
@@ -497,12 +1016,38 @@ class PromptHandler(APIHandler):
         dynamic_parts = []
         
         if preceding_code:
-            dynamic_parts.append(f"## Preceding Code Context\n```python\n{preceding_code}\n```")
+            dynamic_parts.append(f"## Preceding Code Context\n```{language}\n{preceding_code}\n```")
+        
+        if editable_cells:
+            cells_desc = "## Notebook Cells\nCells you can edit, in notebook order:\n"
+            for cell in editable_cells:
+                cells_desc += f"### Cell `{cell.get('id', '')}`\n```{language}\n{cell.get('source', '')}\n```\n"
+            dynamic_parts.append(cells_desc)
+        
+        if outputs:
+            output_desc = "## Cell Outputs\n"
+            for output in outputs:
+                output_type = output.get("outputType", "stream")
+                if output_type == "error":
+                    label = "error"
+                elif output_type == "stream":
+                    label = output.get("name") or "stdout"
+                else:
+                    label = "result"
+                cell_idx = output.get("cellIndex", "?")
+                output_desc += f"### Cell {cell_idx} ({label})\n```\n{output.get('text', '')}\n```\n"
+            dynamic_parts.append(output_desc)
         
         if variables:
             var_desc = "## Available Variables\n"
             for name, info in variables.items():
-                var_desc += f"- `{name}`: {info.get('type', 'unknown')} = {info.get('repr', 'N/A')}\n"
+                if info.get('error'):
+                    var_desc += f"- `{name}`: could not be evaluated ({info['error']})\n"
+                elif info.get('summary'):
+                    summary_text = _format_variable_summary(info.get('type', 'unknown'), info['summary'])
+                    var_desc += f"- `{name}`: {summary_text}\n"
+                else:
+                    var_desc += f"- `{name}`: {info.get('type', 'unknown')} = {info.get('repr', 'N/A')}\n"
             dynamic_parts.append(var_desc)
         
         if functions:
@@ -648,6 +1193,7 @@ class ToolExecuteHandler(APIHandler):
         tool_input = data.get("input", {})
         kernel_id = data.get("kernel_id")
         allowed_tools = data.get("allowed_tools")  # Optional list of allowed function names
+        language = (data.get("language") or "python").lower()  # Kernel language_info.name
         
         if not tool_name:
             self.finish(json.dumps({
@@ -670,6 +1216,13 @@ class ToolExecuteHandler(APIHandler):
                 "status": "error"
             }))
             return
+
+        if language != "python":
+            self.finish(json.dumps({
+                "error": f"Server tool execution is not supported in {language} kernels",
+                "status": "error"
+            }))
+            return
         
         # Validate tool name against allowed tools if provided
         if allowed_tools is not None and tool_name not in allowed_tools:
@@ -798,16 +1351,85 @@ class ToolExecuteHandler(APIHandler):
             }))
 
 
+class ToolApprovalHandler(APIHandler):
+    """Handler for the user's decision on a tool call waiting for approval."""
+
+    @authenticated
+    def post(self):
+        """Approve, edit or deny a tool call of a running prompt."""
+        data = self.get_json_body() or {}
+        if not isinstance(data, dict):
+            self.set_status(400)
+            self.finish({"error": "Invalid JSON body"})
+            return
+        approval_id = data.get("id")
+        decision = data.get("decision")
+        if decision not in ("approve", "edit", "deny"):
+            self.set_status(400)
+            self.finish({"error": f"Invalid decision: {decision}"})
+            return
+        answer = {"decision": decision}
+        if decision == "edit":
+            answer["args"] = data.get("args")
+        if not isinstance(approval_id, str) or not _resolve_approval(approval_id, answer):
+            self.set_status(404)
+            self.finish({"error": "No tool call is waiting for this approval"})
+            return
+        self.finish({"status": "ok"})
+
+
+class ToolResultHandler(APIHandler):
+    """Handler for results of tool calls run in the notebook's kernel session."""
+
+    @authenticated
+    def post(self):
+        """Pass the result of a tool call run by the frontend to the tool loop."""
+        data = self.get_json_body() or {}
+        if not isinstance(data, dict):
+            self.set_status(400)
+            self.finish({"error": "Invalid JSON body"})
+            return
+        request_id = data.get("id")
+        result = data.get("result")
+        if not isinstance(result, dict) or result.get("status") not in ("success", "error"):
+            result = {"status": "error", "error": "Invalid tool result"}
+        if not isinstance(request_id, str) or not _resolve_tool_result(request_id, result):
+            self.set_status(404)
+            self.finish({"error": "No tool call is waiting for this result"})
+            return
+        self.finish({"status": "ok"})
+
+
 class ModelsHandler(APIHandler):
-    """Handler for listing available models."""
+    """Handler for listing the models of a provider."""
 
     @authenticated
-    def get(self):
-        models = [
-            {"id": "claude-sonnet-4-20250514", "name": "Claude Sonnet 4"},
-            {"id": "claude-3-5-sonnet-20241022", "name": "Claude 3.5 Sonnet"},
-            {"id": "claude-3-haiku-20240307", "name": "Claude 3 Haiku"},
-        ]
+    async def get(self):
+        """List the models of the `provider` query argument (Anthropic by default)."""
+        provider_id = self.get_query_argument("provider", "anthropic")
+        base_url = self.get_query_argument("base_url", None)
+        if provider_id not in PROVIDERS:
+            self.set_status(400)
+            self.finish({"error": f"Unknown provider: {provider_id}"})
+            return
+        if provider_id == "anthropic":
+            self.finish(json.dumps({"models": ANTHROPIC_MODELS}))
+            return
+        try:
+            models = await _get_provider(provider_id, base_url).list_models()
+        except BaseUrlNotAllowedError as e:
+            self.set_status(403)
+            self.finish({"error": str(e)})
+            return
+        except ProviderError as e:
+            self.set_status(500)
+            self.finish({"error": str(e)})
+            return
+        except Exception as e:
+            self.log.warning(f"Failed to list models of {provider_id}: {e}")
+            self.set_status(502)
+            self.finish({"error": f"Failed to list models: {e}"})
+            return
         self.finish(json.dumps({"models": models}))
 
 
@@ -819,6 +1441,8 @@ def setup_handlers(web_app):
     handlers = [
         (url_path_join(base_url, "ai-jup", "prompt"), PromptHandler),
         (url_path_join(base_url, "ai-jup", "tool-execute"), ToolExecuteHandler),
+        (url_path_join(base_url, "ai-jup", "tool-approval"), ToolApprovalHandler),
+        (url_path_join(base_url, "ai-jup", "tool-result"), ToolResultHandler),
         (url_path_join(base_url, "ai-jup", "models"), ModelsHandler),
     ]
     web_app.add_handlers(host_pattern, handlers)
@@ -57,3 +57,32 @@ export class Token<T> {
     this.description = description ?? '';
   }
 }
+
+/**
+ * IDisposable interface.
+ */
+export interface IDisposable {
+  readonly isDisposed: boolean;
+  dispose(): void;
+}
+
+/**
+ * Mock DisposableDelegate that runs its callback once on dispose.
+ */
+export class DisposableDelegate implements IDisposable {
+  private _fn: (() => void) | null;
+
+  constructor(fn: () => void) {
+    this._fn = fn;
+  }
+
+  get isDisposed(): boolean {
+    return !this._fn;
+  }
+
+  dispose(): void {
+    const fn = this._fn;
+    this._fn = null;
+    fn?.();
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Tests for structured cell edits and line diffs.
+ */
+
+import {
+  applyHunks,
+  computeHunks,
+  diffLines,
+  parseCellEdits,
+  stripEditBlock
+} from './cellEdits';
+
+describe('parseCellEdits', () => {
+  it('should parse replace, insert and delete edits', () => {
+    const response = [
+      'Renaming the column and removing the debug cell.',
+      '```json',
+      JSON.stringify({
+        edits: [
+          { action: 'replace', cellId: 'a', source: 'df = load()' },
+          { action: 'insert', afterCellId: 'a', cellType: 'markdown', source: '## Plot' },
+          { action: 'insert', afterCellId: null, source: 'import os' },
+          { action: 'delete', cellId: 'b' }
+        ]
+      }),
+      '```'
+    ].join('\n');
+    expect(parseCellEdits(response)).toEqual([
+      { action: 'replace', cellId: 'a', source: 'df = load()' },
+      { action: 'insert', afterCellId: 'a', cellType: 'markdown', source: '## Plot' },
+      { action: 'insert', afterCellId: null, cellType: 'code', source: 'import os' },
+      { action: 'delete', cellId: 'b' }
+    ]);
+  });
+
+  it('should skip malformed edits', () => {
+    const response =
+      '```json\n{"edits": [{"action": "replace", "cellId": "a"}, {"action": "move"}, ' +
+      '{"action": "delete", "cellId": "c"}]}\n```';
+    expect(parseCellEdits(response)).toEqual([{ action: 'delete', cellId: 'c' }]);
+  });
+
+  it('should return null without an edit block', () => {
+    expect(parseCellEdits('No changes needed.')).toBeNull();
+    expect(parseCellEdits('```json\n{"a": 1}\n```')).toBeNull();
+    expect(parseCellEdits('```json\n{not json\n```')).toBeNull();
+  });
+});
+
+describe('stripEditBlock', () => {
+  it('should remove the edit block and keep the explanation', () => {
+    const response = 'Fixed the typo.\n\n```json\n{"edits": []}\n```\n\nDone.';
+    expect(stripEditBlock(response)).toBe('Fixed the typo.\n\nDone.');
+  });
+
+  it('should keep other JSON blocks', () => {
+    const response = 'Example:\n```json\n{"a": 1}\n```';
+    expect(stripEditBlock(response)).toBe(response);
+  });
+});
+
+describe('diffLines', () => {
+  it('should mark added and removed lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'context', text: 'a' },
+      { type: 'remove', text: 'b' },
+      { type: 'add', text: 'B' },
+      { type: 'context', text: 'c' },
+      { type: 'add', text: 'd' }
+    ]);
+  });
+
+  it('should return only context for identical sources', () => {
+    expect(diffLines('x\ny', 'x\ny').every(line => line.type === 'context')).toBe(true);
+  });
+});
+
+describe('computeHunks', () => {
+  it('should group consecutive changes', () => {
+    expect(computeHunks('a\nb\nc\nd', 'a\nB\nC\nd\ne')).toEqual([
+      { oldStart: 1, oldLines: ['b', 'c'], newLines: ['B', 'C'] },
+      { oldStart: 4, oldLines: [], newLines: ['e'] }
+    ]);
+  });
+
+  it('should return no hunks for identical sources', () => {
+    expect(computeHunks('a\nb', 'a\nb')).toEqual([]);
+  });
+});
+
+describe('applyHunks', () => {
+  const oldSource = 'a\nb\nc\nd';
+  const newSource = 'a\nB\nc\nd\ne';
+  const hunks = computeHunks(oldSource, newSource);
+
+  it('should produce the new source when all hunks are accepted', () => {
+    expect(applyHunks(oldSource, hunks, [true, true])).toBe(newSource);
+  });
+
+  it('should keep the old source when all hunks are rejected', () => {
+    expect(applyHunks(oldSource, hunks, [false, false])).toBe(oldSource);
+  });
+
+  it('should apply only the accepted hunks', () => {
+    expect(applyHunks(oldSource, hunks, [false, true])).toBe('a\nb\nc\nd\ne');
+    expect(applyHunks(oldSource, hunks, [true])).toBe('a\nB\nc\nd');
+  });
+});
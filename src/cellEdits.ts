@@ -0,0 +1,229 @@
+/**
+ * Structured cell edits proposed by the model, and line diffs for
+ * reviewing them.
+ *
+ * In edit mode the model replies with a ```json block of the form
+ * `{"edits": [...]}` whose edits replace, insert or delete cells by id.
+ * Replacements are split into hunks so that each change can be accepted
+ * or rejected on its own.
+ */
+
+/**
+ * Replace the source of an existing cell.
+ */
+export interface IReplaceCellEdit {
+  action: 'replace';
+  cellId: string;
+  source: string;
+}
+
+/**
+ * Insert a new cell after an existing one (or at the top when
+ * `afterCellId` is null).
+ */
+export interface IInsertCellEdit {
+  action: 'insert';
+  afterCellId: string | null;
+  cellType: 'code' | 'markdown';
+  source: string;
+}
+
+/**
+ * Delete an existing cell.
+ */
+export interface IDeleteCellEdit {
+  action: 'delete';
+  cellId: string;
+}
+
+/**
+ * An edit to the notebook proposed by the model.
+ */
+export type ICellEdit = IReplaceCellEdit | IInsertCellEdit | IDeleteCellEdit;
+
+/**
+ * A line of a diff.
+ */
+export interface IDiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * A run of changed lines: `oldLines` starting at line `oldStart` of the
+ * original source are replaced by `newLines`.
+ */
+export interface IHunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+/**
+ * Validate a single edit object, or return null.
+ */
+function toEdit(value: unknown): ICellEdit | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const edit = value as Record<string, unknown>;
+  switch (edit.action) {
+    case 'replace':
+      return typeof edit.cellId === 'string' && typeof edit.source === 'string'
+        ? { action: 'replace', cellId: edit.cellId, source: edit.source }
+        : null;
+    case 'insert': {
+      const afterCellId = edit.afterCellId ?? null;
+      if (
+        (afterCellId !== null && typeof afterCellId !== 'string') ||
+        typeof edit.source !== 'string'
+      ) {
+        return null;
+      }
+      return {
+        action: 'insert',
+        afterCellId,
+        cellType: edit.cellType === 'markdown' ? 'markdown' : 'code',
+        source: edit.source
+      };
+    }
+    case 'delete':
+      return typeof edit.cellId === 'string' ? { action: 'delete', cellId: edit.cellId } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse the edits from a response: the last ```json block holding an
+ * `edits` array. Malformed edits are skipped. Returns null when the
+ * response has no edit block.
+ */
+export function parseCellEdits(response: string): ICellEdit[] | null {
+  const blocks = [...response.matchAll(/```json[^\n]*\n([\s\S]*?)```/g)];
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(blocks[i][1]);
+    } catch {
+      continue;
+    }
+    const edits = (parsed as { edits?: unknown } | null)?.edits;
+    if (Array.isArray(edits)) {
+      return edits.map(toEdit).filter((edit): edit is ICellEdit => edit !== null);
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove the edit block from a response, leaving the explanation.
+ */
+export function stripEditBlock(response: string): string {
+  const blocks = [...response.matchAll(/```json[^\n]*\n([\s\S]*?)```/g)];
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const block = blocks[i];
+    try {
+      if (Array.isArray(JSON.parse(block[1])?.edits)) {
+        const start = block.index ?? 0;
+        return (response.slice(0, start) + response.slice(start + block[0].length))
+          .replace(/\n{3,}/g, '\n\n')
+          .trim();
+      }
+    } catch {
+      // Not the edit block
+    }
+  }
+  return response;
+}
+
+/**
+ * Line diff of two sources (longest common subsequence).
+ */
+export function diffLines(oldSource: string, newSource: string): IDiffLine[] {
+  const a = oldSource.split('\n');
+  const b = newSource.split('\n');
+  // lcs[i][j] = length of the LCS of a[i:] and b[j:]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: IDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'context', text: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      lines.push({ type: 'add', text: b[j] });
+      j++;
+    } else {
+      lines.push({ type: 'remove', text: a[i] });
+      i++;
+    }
+  }
+  // Show removals before additions within a change
+  for (let k = 1; k < lines.length; k++) {
+    let m = k;
+    while (m > 0 && lines[m].type === 'remove' && lines[m - 1].type === 'add') {
+      [lines[m - 1], lines[m]] = [lines[m], lines[m - 1]];
+      m--;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Group a diff into hunks of consecutive changed lines.
+ */
+export function computeHunks(oldSource: string, newSource: string): IHunk[] {
+  const hunks: IHunk[] = [];
+  let oldLine = 0;
+  let current: IHunk | null = null;
+  for (const line of diffLines(oldSource, newSource)) {
+    if (line.type === 'context') {
+      current = null;
+      oldLine++;
+      continue;
+    }
+    if (!current) {
+      current = { oldStart: oldLine, oldLines: [], newLines: [] };
+      hunks.push(current);
+    }
+    if (line.type === 'remove') {
+      current.oldLines.push(line.text);
+      oldLine++;
+    } else {
+      current.newLines.push(line.text);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Build the source that results from accepting some hunks of a diff
+ * against `oldSource`; other hunks keep the original lines.
+ */
+export function applyHunks(
+  oldSource: string,
+  hunks: ReadonlyArray<IHunk>,
+  accepted: ReadonlyArray<boolean>
+): string {
+  const old = oldSource.split('\n');
+  const result: string[] = [];
+  let line = 0;
+  hunks.forEach((hunk, index) => {
+    result.push(...old.slice(line, hunk.oldStart));
+    result.push(...(accepted[index] ? hunk.newLines : hunk.oldLines));
+    line = hunk.oldStart + hunk.oldLines.length;
+  });
+  result.push(...old.slice(line));
+  return result.join('\n');
+}
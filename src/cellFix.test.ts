@@ -0,0 +1,104 @@
+/**
+ * Tests for the explain/fix cell helpers.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+import {
+  buildFixPrompt,
+  extractProposedCode,
+  findErrorOutput,
+  hasErrorOutput,
+  relevantVariables
+} from './cellFix';
+import type { INamespaceEntry } from './tokens';
+
+describe('findErrorOutput', () => {
+  it('should return the error output', () => {
+    const error: nbformat.IError = {
+      output_type: 'error',
+      ename: 'KeyError',
+      evalue: "'x'",
+      traceback: []
+    };
+    const outputs: nbformat.IOutput[] = [
+      { output_type: 'stream', name: 'stdout', text: 'loading\n' },
+      error
+    ];
+    expect(findErrorOutput(outputs)).toBe(error);
+  });
+
+  it('should return null for cells without errors', () => {
+    expect(findErrorOutput([{ output_type: 'stream', name: 'stdout', text: 'ok' }])).toBeNull();
+    expect(findErrorOutput([])).toBeNull();
+  });
+});
+
+describe('hasErrorOutput', () => {
+  const area = (types: string[]) => ({
+    length: types.length,
+    get: (index: number) => ({ type: types[index] })
+  });
+
+  it('should detect error outputs', () => {
+    expect(hasErrorOutput(area(['stream', 'error']))).toBe(true);
+    expect(hasErrorOutput(area(['stream', 'execute_result']))).toBe(false);
+    expect(hasErrorOutput(area([]))).toBe(false);
+  });
+});
+
+describe('relevantVariables', () => {
+  const entries: INamespaceEntry[] = [
+    { name: 'df', type: 'DataFrame', callable: false },
+    { name: 'cols', type: 'list', callable: false },
+    { name: 'unused', type: 'int', callable: false },
+    { name: 'load', type: 'function', callable: true }
+  ];
+
+  it('should pick variables used in the source or traceback', () => {
+    expect(relevantVariables('x = df[cols]', '', entries)).toEqual(['df', 'cols']);
+    expect(relevantVariables('load()', "KeyError: 'df'", entries)).toEqual(['df']);
+  });
+
+  it('should skip callables and respect the limit', () => {
+    expect(relevantVariables('load(df, cols)', '', entries, 1)).toEqual(['df']);
+  });
+});
+
+describe('buildFixPrompt', () => {
+  it('should include the source, traceback and fix instructions', () => {
+    const prompt = buildFixPrompt('fix', 'df["x"]', "KeyError: 'x'");
+    expect(prompt).toContain('```python\ndf["x"]\n```');
+    expect(prompt).toContain("Error:\n```\nKeyError: 'x'\n```");
+    expect(prompt).toContain('complete corrected cell in a single ```python code block');
+  });
+
+  it('should ask only for an explanation in explain mode', () => {
+    const prompt = buildFixPrompt('explain', 'x <- y', "object 'y' not found", 'R');
+    expect(prompt).toContain('```r\nx <- y\n```');
+    expect(prompt).toContain('Explain concisely');
+    expect(prompt).not.toContain('corrected cell');
+  });
+});
+
+describe('extractProposedCode', () => {
+  it('should split the explanation from the last code block', () => {
+    const response =
+      'The column is named `X`.\n\n```python\ndf["X"]\n```\n\nColumn names are case sensitive.';
+    expect(extractProposedCode(response)).toEqual({
+      explanation: 'The column is named `X`.\n\nColumn names are case sensitive.',
+      code: 'df["X"]'
+    });
+  });
+
+  it('should use the last block when there are several', () => {
+    const response = 'Wrong:\n```\ndf["x"]\n```\nRight:\n```python\ndf["X"]\n```';
+    expect(extractProposedCode(response).code).toBe('df["X"]');
+  });
+
+  it('should return null code when there is no block', () => {
+    expect(extractProposedCode('No fix needed.')).toEqual({
+      explanation: 'No fix needed.',
+      code: null
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Helpers for the "Explain this error" and "Fix this cell" actions on code
+ * cells whose last run raised an error.
+ *
+ * The prompt is built from the cell source, its traceback and the kernel
+ * variables the cell uses. A fix comes back as a single fenced code block
+ * holding the complete corrected cell, which is offered as a replacement.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+import type { INamespaceEntry } from './tokens';
+
+/**
+ * Whether the model is asked to explain the error or to fix the cell.
+ */
+export type CellFixMode = 'explain' | 'fix';
+
+/**
+ * Maximum number of kernel variables sent with a fix request.
+ */
+export const MAX_FIX_VARIABLES = 10;
+
+/**
+ * Get the first error output of a code cell, or null if it ran cleanly.
+ */
+export function findErrorOutput(
+  outputs: ReadonlyArray<nbformat.IOutput>
+): nbformat.IError | null {
+  const error = outputs.find(output => output.output_type === 'error');
+  return (error as nbformat.IError | undefined) ?? null;
+}
+
+/**
+ * Check whether an output area holds an error, without serializing it.
+ */
+export function hasErrorOutput(outputs: {
+  readonly length: number;
+  get(index: number): { readonly type: string };
+}): boolean {
+  for (let i = 0; i < outputs.length; i++) {
+    if (outputs.get(i).type === 'error') {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Pick the kernel variables worth sending: non-callable names that appear
+ * in the cell source or the traceback, in order of first appearance.
+ */
+export function relevantVariables(
+  source: string,
+  traceback: string,
+  entries: ReadonlyArray<INamespaceEntry>,
+  limit: number = MAX_FIX_VARIABLES
+): string[] {
+  const variables = new Set(entries.filter(entry => !entry.callable).map(entry => entry.name));
+  const names: string[] = [];
+  for (const match of `${source}\n${traceback}`.matchAll(/[A-Za-z_$][\w$]*/g)) {
+    const name = match[0];
+    if (variables.has(name) && !names.includes(name)) {
+      names.push(name);
+      if (names.length >= limit) {
+        break;
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Build the prompt asking the model to explain or fix a failed cell.
+ */
+export function buildFixPrompt(
+  mode: CellFixMode,
+  source: string,
+  traceback: string,
+  language: string = 'python'
+): string {
+  const fence = language.toLowerCase();
+  const parts = [
+    'This notebook code cell raised an error when it was run.',
+    `\`\`\`${fence}\n${source}\n\`\`\``,
+    `Error:\n\`\`\`\n${traceback}\n\`\`\``
+  ];
+  if (mode === 'fix') {
+    parts.push(
+      'Briefly explain the cause, then give the complete corrected cell in a single ' +
+        `\`\`\`${fence} code block. Change only what is needed to fix the error.`
+    );
+  } else {
+    parts.push(
+      'Explain concisely what caused this error and how to fix it. ' +
+        'Use the variable values above where they help.'
+    );
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Split a fix response into its explanation and the proposed cell source
+ * (the last fenced code block), or null code when it has none.
+ */
+export function extractProposedCode(response: string): {
+  explanation: string;
+  code: string | null;
+} {
+  const fences = [...response.matchAll(/```[^\n`]*\n([\s\S]*?)```/g)];
+  if (fences.length === 0) {
+    return { explanation: response.trim(), code: null };
+  }
+  const last = fences[fences.length - 1];
+  const start = last.index ?? 0;
+  const explanation = (response.slice(0, start) + response.slice(start + last[0].length))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { explanation, code: last[1].replace(/\n$/, '') };
+}
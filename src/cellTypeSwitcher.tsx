@@ -126,9 +126,9 @@ export class CustomCellTypeSwitcher extends ReactWidget {
       // Now set the prompt metadata on the (possibly new) cell
       const targetCell = notebook.widgets[index];
       if (targetCell) {
+        // Without a model of its own the cell uses the default model
         targetCell.model.setMetadata(PROMPT_METADATA_KEY, {
-          isPromptCell: true,
-          model: 'claude-sonnet-4-20250514'
+          isPromptCell: true
         } as PromptMetadata);
         
         // Add prompt prefix if source is empty
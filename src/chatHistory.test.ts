@@ -0,0 +1,82 @@
+/**
+ * Tests for the sidebar chat history stored in notebook metadata.
+ */
+
+import {
+  appendChatTurn,
+  chatConversation,
+  clearChatHistory,
+  readChatHistory
+} from './chatHistory';
+
+describe('readChatHistory', () => {
+  it('should read valid turns', () => {
+    const metadata = {
+      chat: [
+        { prompt: 'What is df?', response: 'A DataFrame.', model: 'claude-sonnet-4-20250514' },
+        { prompt: 'Why?', response: '' }
+      ]
+    };
+    expect(readChatHistory(metadata)).toEqual(metadata.chat);
+  });
+
+  it('should skip malformed turns', () => {
+    expect(readChatHistory({ chat: [{ prompt: 'a' }, null, { prompt: 'b', response: 'c' }] })).toEqual([
+      { prompt: 'b', response: 'c' }
+    ]);
+  });
+
+  it('should return an empty history for missing metadata', () => {
+    expect(readChatHistory(undefined)).toEqual([]);
+    expect(readChatHistory({})).toEqual([]);
+    expect(readChatHistory({ chat: 'nope' })).toEqual([]);
+  });
+});
+
+describe('appendChatTurn', () => {
+  it('should append a turn and keep other keys', () => {
+    const metadata = { other: 1, chat: [{ prompt: 'a', response: 'b' }] };
+    expect(appendChatTurn(metadata, { prompt: 'c', response: 'd' })).toEqual({
+      other: 1,
+      chat: [
+        { prompt: 'a', response: 'b' },
+        { prompt: 'c', response: 'd' }
+      ]
+    });
+    expect(metadata.chat).toHaveLength(1);
+  });
+
+  it('should start a chat when there is none', () => {
+    expect(appendChatTurn(undefined, { prompt: 'a', response: 'b' })).toEqual({
+      chat: [{ prompt: 'a', response: 'b' }]
+    });
+  });
+});
+
+describe('clearChatHistory', () => {
+  it('should remove only the chat', () => {
+    expect(clearChatHistory({ other: 1, chat: [] })).toEqual({ other: 1 });
+    expect(clearChatHistory(undefined)).toEqual({});
+  });
+});
+
+describe('chatConversation', () => {
+  it('should leave out failed requests', () => {
+    expect(
+      chatConversation([
+        { prompt: 'a', response: '**Error:** HTTP 500: Internal Server Error', error: true },
+        { prompt: 'a', response: 'b' }
+      ])
+    ).toEqual([{ prompt: 'a', response: 'b' }]);
+  });
+
+  it('should leave out interrupted and empty responses', () => {
+    expect(
+      chatConversation([
+        { prompt: 'a', response: 'b', model: 'm' },
+        { prompt: 'c', response: 'partial', interrupted: true },
+        { prompt: 'd', response: ' ' }
+      ])
+    ).toEqual([{ prompt: 'a', response: 'b' }]);
+  });
+});
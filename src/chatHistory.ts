@@ -0,0 +1,70 @@
+/**
+ * Sidebar chat history, stored per notebook in the notebook metadata.
+ *
+ * The conversation lives under the `chat` key of the notebook-level
+ * `ai_jup` metadata so that it is saved with the notebook without adding
+ * cells to it.
+ */
+
+import type { IConversationTurn } from './tokens';
+
+/**
+ * A completed chat exchange.
+ */
+export interface IChatTurn extends IConversationTurn {
+  /** Model that produced the response */
+  model?: string;
+  /** Set when the response was stopped before it completed */
+  interrupted?: boolean;
+  /** Set when the request failed; the response is the error message */
+  error?: boolean;
+}
+
+/**
+ * Notebook-level `ai_jup` metadata.
+ */
+export interface INotebookChatMetadata {
+  chat?: IChatTurn[];
+  [key: string]: unknown;
+}
+
+/**
+ * Read the chat turns from notebook metadata, skipping malformed entries.
+ */
+export function readChatHistory(metadata: unknown): IChatTurn[] {
+  const chat = (metadata as INotebookChatMetadata | null | undefined)?.chat;
+  if (!Array.isArray(chat)) {
+    return [];
+  }
+  return chat.filter(
+    (turn): turn is IChatTurn =>
+      !!turn && typeof turn.prompt === 'string' && typeof turn.response === 'string'
+  );
+}
+
+/**
+ * Return notebook metadata with a turn appended to the chat, keeping
+ * other keys.
+ */
+export function appendChatTurn(metadata: unknown, turn: IChatTurn): INotebookChatMetadata {
+  const current = (metadata ?? {}) as INotebookChatMetadata;
+  return { ...current, chat: [...readChatHistory(current), turn] };
+}
+
+/**
+ * Return notebook metadata without the chat.
+ */
+export function clearChatHistory(metadata: unknown): INotebookChatMetadata {
+  const { chat: _chat, ...rest } = (metadata ?? {}) as INotebookChatMetadata;
+  return rest;
+}
+
+/**
+ * Turns to send as conversation history: interrupted and failed responses
+ * are left out, and only the prompt and response of each turn are sent.
+ */
+export function chatConversation(turns: ReadonlyArray<IChatTurn>): IConversationTurn[] {
+  return turns
+    .filter(turn => !turn.interrupted && !turn.error && turn.response.trim() !== '')
+    .map(turn => ({ prompt: turn.prompt, response: turn.response }));
+}
@@ -0,0 +1,338 @@
+/**
+ * Sidebar chat about the current notebook.
+ *
+ * Messages are answered with the whole notebook as context, like a prompt
+ * cell placed at the end, but nothing is added to the document: the
+ * conversation is kept in the notebook metadata instead. The panel follows
+ * the active notebook.
+ */
+
+import { INotebookTracker, NotebookPanel } from '@jupyterlab/notebook';
+import { IRenderMimeRegistry, MimeModel } from '@jupyterlab/rendermime';
+import { LabIcon } from '@jupyterlab/ui-components';
+import { Widget } from '@lumino/widgets';
+import type { IExtensionSettings, IModelsService, IPromptCellManager, IPromptModel } from './tokens';
+import { PromptModel } from './promptModel';
+import { getDefaultModel, getProviderConfig, getToolApprovalConfig } from './settings';
+import { attachToolApprovals } from './toolApproval';
+import {
+  IChatTurn,
+  appendChatTurn,
+  chatConversation,
+  clearChatHistory,
+  readChatHistory
+} from './chatHistory';
+
+const PROMPT_METADATA_KEY = 'ai_jup';
+
+const CHAT_ICON_SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="16" viewBox="0 0 24 24">' +
+  '<path class="jp-icon3" fill="#616161" d="M4 4h16a2 2 0 0 1 2 2v10a2 2 0 0 1-2 2H8l-4 4V6a2 2 0 0 1 2-2z' +
+  'm3 5v2h10V9H7zm0 4v2h7v-2H7z"/></svg>';
+
+/**
+ * Icon of the chat sidebar tab.
+ */
+export const chatIcon = new LabIcon({ name: 'ai-jup:chat', svgstr: CHAT_ICON_SVG });
+
+/**
+ * A chat request that is still streaming.
+ */
+interface IRunningChat {
+  panel: NotebookPanel;
+  prompt: string;
+  model: PromptModel;
+  /** Message node showing the streamed response */
+  node: HTMLElement;
+  /** Set when stopped, possibly before the response started streaming */
+  stopped: boolean;
+}
+
+/**
+ * Sidebar widget for chatting about the active notebook.
+ */
+export class ChatPanel extends Widget {
+  private _tracker: INotebookTracker;
+  private _manager: IPromptCellManager;
+  private _settings: IExtensionSettings;
+  private _rendermime: IRenderMimeRegistry;
+  private _models: IModelsService | null;
+  private _panel: NotebookPanel | null = null;
+  private _running: IRunningChat | null = null;
+
+  private _title: HTMLElement;
+  private _messages: HTMLElement;
+  private _approvals: HTMLElement;
+  private _input: HTMLTextAreaElement;
+  private _send: HTMLButtonElement;
+  private _clear: HTMLButtonElement;
+
+  constructor(options: ChatPanel.IOptions) {
+    super();
+    this._tracker = options.tracker;
+    this._manager = options.manager;
+    this._settings = options.settings;
+    this._models = options.models ?? null;
+    this._rendermime = options.rendermime;
+
+    this.id = 'ai-jup-chat';
+    this.addClass('ai-jup-chat');
+    this.title.icon = chatIcon;
+    this.title.caption = 'AI Chat';
+
+    const header = document.createElement('div');
+    header.className = 'ai-jup-chat-header';
+    this._title = document.createElement('span');
+    this._title.className = 'ai-jup-chat-title';
+    this._clear = document.createElement('button');
+    this._clear.className = 'jp-mod-styled ai-jup-chat-button';
+    this._clear.textContent = 'Clear';
+    this._clear.title = 'Delete this notebook\'s chat history';
+    this._clear.addEventListener('click', () => this._clearHistory());
+    header.append(this._title, this._clear);
+
+    this._messages = document.createElement('div');
+    this._messages.className = 'ai-jup-chat-messages';
+
+    // Tool calls of the running request that wait for approval
+    this._approvals = document.createElement('div');
+    this._approvals.className = 'ai-jup-chat-approvals';
+
+    const inputArea = document.createElement('div');
+    inputArea.className = 'ai-jup-chat-input-area';
+    this._input = document.createElement('textarea');
+    this._input.className = 'ai-jup-chat-input';
+    this._input.rows = 3;
+    this._input.placeholder = 'Ask about this notebook. Use $`variable` and &`function`.';
+    this._input.addEventListener('keydown', event => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        void this._sendMessage();
+      }
+    });
+    this._send = document.createElement('button');
+    this._send.className = 'jp-mod-styled ai-jup-chat-button ai-jup-chat-send';
+    this._send.addEventListener('click', () => {
+      if (this._running) {
+        this._stop();
+      } else {
+        void this._sendMessage();
+      }
+    });
+    inputArea.append(this._input, this._send);
+
+    this.node.append(header, this._messages, this._approvals, inputArea);
+
+    this._tracker.currentChanged.connect(this._onCurrentChanged, this);
+    this._setNotebook(this._tracker.currentWidget);
+  }
+
+  /**
+   * Dispose of the panel, stopping a running request.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._stop();
+    this._tracker.currentChanged.disconnect(this._onCurrentChanged, this);
+    super.dispose();
+  }
+
+  private _onCurrentChanged(_: INotebookTracker, panel: NotebookPanel | null): void {
+    this._setNotebook(panel);
+  }
+
+  /**
+   * Show the chat of another notebook. A request for the previous notebook
+   * keeps running and is saved to that notebook when it completes.
+   */
+  private _setNotebook(panel: NotebookPanel | null): void {
+    if (panel === this._panel) {
+      return;
+    }
+    this._panel?.disposed.disconnect(this._onPanelDisposed, this);
+    this._panel = panel;
+    this._panel?.disposed.connect(this._onPanelDisposed, this);
+    this._render();
+  }
+
+  private _onPanelDisposed(panel: NotebookPanel): void {
+    if (this._running?.panel === panel) {
+      this._stop();
+    }
+    if (this._panel === panel) {
+      this._setNotebook(this._tracker.currentWidget);
+    }
+  }
+
+  /**
+   * Render the history of the current notebook.
+   */
+  private _render(): void {
+    this._messages.replaceChildren();
+    this._title.textContent = this._panel ? this._panel.title.label : 'No notebook open';
+    for (const turn of this._history()) {
+      this._messages.appendChild(this._message('user', turn.prompt));
+      const response = this._message('assistant', '');
+      this._renderMarkdown(response, turn.response || '*No response.*');
+      if (turn.interrupted) {
+        response.classList.add('ai-jup-interrupted');
+      }
+      if (turn.error) {
+        response.classList.add('ai-jup-chat-error');
+      }
+      this._messages.appendChild(response);
+    }
+    if (this._running && this._running.panel === this._panel) {
+      this._messages.append(this._message('user', this._running.prompt), this._running.node);
+    }
+    this._updateControls();
+    this._scrollToEnd();
+  }
+
+  private _updateControls(): void {
+    const running = this._running !== null;
+    this._send.textContent = running ? 'Stop' : 'Send';
+    this._send.title = running ? 'Stop generating the response' : 'Send (Enter)';
+    this._send.disabled = !this._panel && !running;
+    this._input.disabled = !this._panel;
+    this._clear.disabled = !this._panel || running || this._history().length === 0;
+  }
+
+  /**
+   * Send the input to the model with the current notebook as context.
+   */
+  private async _sendMessage(): Promise<void> {
+    const panel = this._panel;
+    const message = this._input.value.trim();
+    if (!panel || !message || this._running) {
+      return;
+    }
+
+    const promptModel = new PromptModel();
+    const node = this._message('assistant', '');
+    node.classList.add('ai-jup-chat-pending');
+    node.textContent = 'Gathering context...';
+    const running: IRunningChat = { panel, prompt: message, model: promptModel, node, stopped: false };
+    this._running = running;
+    this._input.value = '';
+    this._render();
+
+    const onOutputChanged = (_: IPromptModel, output: string) => {
+      node.textContent = output;
+      this._scrollToEnd();
+    };
+    promptModel.outputChanged.connect(onOutputChanged);
+    const approvals = attachToolApprovals(promptModel, this._approvals);
+
+    const model = getDefaultModel(this._settings, this._models);
+    let response = '';
+    let failed = false;
+    try {
+      const request = await this._manager.buildChatRequest(
+        panel,
+        message,
+        chatConversation(this._history(panel))
+      );
+      if (!request) {
+        throw new Error('The notebook kernel is not ready yet.');
+      }
+      node.textContent = '';
+      if (!running.stopped) {
+        await promptModel.executePrompt(request.prompt, request.context, {
+          model,
+          kernelId: panel.sessionContext.session?.kernel?.id,
+          maxSteps: this._settings.maxToolSteps,
+          provider: getProviderConfig(this._settings),
+          toolApproval: getToolApprovalConfig(this._settings),
+          toolExecutor: this._manager.getToolExecutor(panel, request.context.language) ?? undefined
+        });
+      }
+      response = promptModel.output;
+    } catch (error: unknown) {
+      response = `**Error:** ${error instanceof Error ? error.message : String(error)}`;
+      failed = true;
+    } finally {
+      promptModel.outputChanged.disconnect(onOutputChanged);
+      approvals.dispose();
+    }
+
+    const turn: IChatTurn = running.stopped
+      ? { prompt: message, response, model, interrupted: true }
+      : failed
+        ? { prompt: message, response, model, error: true }
+        : { prompt: message, response, model };
+    promptModel.dispose();
+    this._running = null;
+    const notebookModel = panel.isDisposed ? null : panel.content.model;
+    if (notebookModel) {
+      notebookModel.setMetadata(
+        PROMPT_METADATA_KEY,
+        appendChatTurn(notebookModel.getMetadata(PROMPT_METADATA_KEY), turn)
+      );
+    }
+    this._render();
+  }
+
+  /**
+   * Stop the running request, if any.
+   */
+  private _stop(): void {
+    if (this._running) {
+      this._running.stopped = true;
+      this._running.model.abort();
+    }
+  }
+
+  private _clearHistory(): void {
+    const model = this._panel?.content.model;
+    if (!model || this._running) {
+      return;
+    }
+    model.setMetadata(PROMPT_METADATA_KEY, clearChatHistory(model.getMetadata(PROMPT_METADATA_KEY)));
+    this._render();
+  }
+
+  /**
+   * Chat turns saved in a notebook (the current one by default).
+   */
+  private _history(panel: NotebookPanel | null = this._panel): IChatTurn[] {
+    const model = panel?.content.model;
+    return model ? readChatHistory(model.getMetadata(PROMPT_METADATA_KEY)) : [];
+  }
+
+  private _message(role: 'user' | 'assistant', text: string): HTMLElement {
+    const node = document.createElement('div');
+    node.className = `ai-jup-chat-message ai-jup-chat-${role}`;
+    node.textContent = text;
+    return node;
+  }
+
+  /**
+   * Render a response as markdown, falling back to plain text.
+   */
+  private _renderMarkdown(node: HTMLElement, markdown: string): void {
+    const renderer = this._rendermime.createRenderer('text/markdown');
+    const model = new MimeModel({ data: { 'text/markdown': markdown } });
+    node.appendChild(renderer.node);
+    renderer.renderModel(model).catch(() => {
+      renderer.node.remove();
+      node.textContent = markdown;
+    });
+  }
+
+  private _scrollToEnd(): void {
+    this._messages.scrollTop = this._messages.scrollHeight;
+  }
+}
+
+export namespace ChatPanel {
+  export interface IOptions {
+    tracker: INotebookTracker;
+    manager: IPromptCellManager;
+    settings: IExtensionSettings;
+    rendermime: IRenderMimeRegistry;
+    models?: IModelsService | null;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Tests for tool calls run in the notebook's kernel session.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+import type { KernelMessage } from '@jupyterlab/services';
+import { KernelToolExecutor, toOutput, toolResultFromOutputs } from './clientTools';
+import type { IKernelConnector } from './tokens';
+
+function message(msgType: string, content: Record<string, unknown>): KernelMessage.IIOPubMessage {
+  return { header: { msg_type: msgType }, content } as unknown as KernelMessage.IIOPubMessage;
+}
+
+/**
+ * Create a fake connector whose kernel answers every execution with `messages`.
+ */
+function createConnector(
+  language: string,
+  messages: KernelMessage.IIOPubMessage[],
+  status = 'ok'
+): { connector: IKernelConnector; execute: jest.Mock } {
+  const execute = jest.fn(async (code: string, onOutput?: (msg: KernelMessage.IIOPubMessage) => void) => {
+    messages.forEach(msg => onOutput?.(msg));
+    return { content: { status } };
+  });
+  const connector = {
+    getLanguageInfo: jest.fn(async () => ({ name: language })),
+    execute
+  } as unknown as IKernelConnector;
+  return { connector, execute };
+}
+
+describe('toOutput', () => {
+  it('should convert output messages', () => {
+    expect(toOutput(message('stream', { name: 'stdout', text: 'hi' }))).toEqual({
+      output_type: 'stream',
+      name: 'stdout',
+      text: 'hi'
+    });
+  });
+
+  it('should ignore other messages', () => {
+    expect(toOutput(message('status', { execution_state: 'busy' }))).toBeNull();
+    expect(toOutput(message('execute_input', { code: 'x' }))).toBeNull();
+  });
+});
+
+describe('toolResultFromOutputs', () => {
+  it('should combine printed text and the value', () => {
+    const outputs: nbformat.IOutput[] = [
+      { output_type: 'stream', name: 'stdout', text: ['Saving...\n'] },
+      { output_type: 'execute_result', execution_count: null, metadata: {}, data: { 'text/plain': "'a.csv'" } }
+    ];
+    expect(toolResultFromOutputs(outputs)).toEqual({
+      status: 'success',
+      result: { type: 'text', content: "Saving...\n'a.csv'" },
+      data: { 'text/plain': "'a.csv'" }
+    });
+  });
+
+  it('should prefer images and HTML of the value', () => {
+    const html: nbformat.IOutput[] = [
+      {
+        output_type: 'execute_result',
+        execution_count: null,
+        metadata: {},
+        data: { 'text/html': '<table></table>', 'text/plain': 'df' }
+      }
+    ];
+    expect(toolResultFromOutputs(html).result).toEqual({ type: 'html', content: '<table></table>' });
+
+    const image: nbformat.IOutput[] = [
+      { output_type: 'display_data', metadata: {}, data: { 'image/png': 'AAAA\n', 'text/plain': '<Figure>' } }
+    ];
+    expect(toolResultFromOutputs(image).result).toEqual({ type: 'image', format: 'png', content: 'AAAA' });
+  });
+
+  it('should keep the MIME bundle for rendering', () => {
+    const data = {
+      'application/vnd.plotly.v1+json': { data: [], layout: {} },
+      'text/html': '<div></div>',
+      'text/plain': 'Figure()'
+    };
+    const outputs: nbformat.IOutput[] = [{ output_type: 'display_data', metadata: {}, data }];
+    expect(toolResultFromOutputs(outputs).data).toEqual(data);
+  });
+
+  it('should use the value rather than earlier displays', () => {
+    const outputs: nbformat.IOutput[] = [
+      { output_type: 'display_data', metadata: {}, data: { 'image/png': 'AAAA' } },
+      { output_type: 'execute_result', execution_count: null, metadata: {}, data: { 'text/plain': '42' } }
+    ];
+    expect(toolResultFromOutputs(outputs).result).toEqual({ type: 'text', content: '42' });
+  });
+
+  it('should fail on an error output', () => {
+    const outputs: nbformat.IOutput[] = [
+      { output_type: 'stream', name: 'stdout', text: 'partial' },
+      { output_type: 'error', ename: 'KeyboardInterrupt', evalue: '', traceback: [] }
+    ];
+    expect(toolResultFromOutputs(outputs)).toEqual({ status: 'error', error: 'KeyboardInterrupt: ' });
+  });
+
+  it('should return empty text without outputs', () => {
+    expect(toolResultFromOutputs([])).toEqual({ status: 'success', result: { type: 'text', content: '' } });
+  });
+});
+
+describe('KernelToolExecutor', () => {
+  it('should run the call non-silently and reduce its outputs', async () => {
+    const { connector, execute } = createConnector('python', [
+      message('status', { execution_state: 'busy' }),
+      message('execute_result', { data: { 'text/plain': '3' }, metadata: {}, execution_count: null })
+    ]);
+    const executor = new KernelToolExecutor(connector);
+
+    const result = await executor.execute('add', { x: 1, y: 2 }, ['x', 'y']);
+
+    expect(result).toEqual({
+      status: 'success',
+      result: { type: 'text', content: '3' },
+      data: { 'text/plain': '3' }
+    });
+    expect(execute.mock.calls[0][0]).toContain('globals()["add"]');
+    expect(execute.mock.calls[0][2]).toBe(false);
+  });
+
+  it('should report a failed execution without an error output', async () => {
+    const { connector } = createConnector('python', [], 'abort');
+    const executor = new KernelToolExecutor(connector);
+
+    expect(await executor.execute('add', {}, [])).toEqual({
+      status: 'error',
+      error: 'Tool execution was aborted'
+    });
+  });
+
+  it('should reject unsupported kernels', async () => {
+    const { connector, execute } = createConnector('julia', []);
+    const executor = new KernelToolExecutor(connector);
+
+    expect(await executor.execute('add', {}, [])).toEqual({
+      status: 'error',
+      error: 'Tool calls are not supported in julia kernels'
+    });
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
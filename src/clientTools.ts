@@ -0,0 +1,148 @@
+/**
+ * Tool calls run in the notebook's own kernel session.
+ *
+ * Instead of running tools on a kernel client of its own, the server can
+ * ask the frontend to run them. They then use the notebook's session: they
+ * show in the kernel status indicator and the interrupt button stops them.
+ * The call's outputs are reduced to a result in the same format as the
+ * server's.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+import type { KernelMessage } from '@jupyterlab/services';
+import type { IKernelConnector, IToolCallResult, IToolExecutor } from './tokens';
+import { findLanguageAdapter } from './languageAdapters';
+import { stripAnsi } from './outputExtraction';
+
+/**
+ * Maximum characters of a text result, as for tools run by the server.
+ */
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * Maximum characters of an HTML result, as for tools run by the server.
+ */
+const MAX_HTML_LENGTH = 10000;
+
+/**
+ * Image MIME types returned as image results, with their format.
+ */
+const IMAGE_FORMATS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg'
+};
+
+function joinText(text: nbformat.MultilineString | undefined): string {
+  return Array.isArray(text) ? text.join('') : text ?? '';
+}
+
+/**
+ * Convert an IOPub message to a notebook output, or null for messages that
+ * are not outputs.
+ */
+export function toOutput(msg: KernelMessage.IIOPubMessage): nbformat.IOutput | null {
+  const type = msg.header.msg_type;
+  if (type === 'stream' || type === 'display_data' || type === 'execute_result' || type === 'error') {
+    return { output_type: type, ...(msg.content as Record<string, unknown>) } as nbformat.IOutput;
+  }
+  return null;
+}
+
+/**
+ * Reduce the outputs of a tool call to a result. An error output makes the
+ * call fail. Otherwise the value of the call is used, or else the last
+ * display output: images and HTML are returned as such, anything else as
+ * text after what the call printed. The MIME bundle of that output is kept
+ * for rendering.
+ */
+export function toolResultFromOutputs(outputs: ReadonlyArray<nbformat.IOutput>): IToolCallResult {
+  let printed = '';
+  let value: nbformat.IMimeBundle | null = null;
+  let display: nbformat.IMimeBundle | null = null;
+  for (const output of outputs) {
+    switch (output.output_type) {
+      case 'error':
+        return {
+          status: 'error',
+          error: `${(output as nbformat.IError).ename}: ${(output as nbformat.IError).evalue}`
+        };
+      case 'stream':
+        printed += joinText((output as nbformat.IStream).text);
+        break;
+      case 'display_data':
+        display = (output as nbformat.IDisplayData).data;
+        break;
+      case 'execute_result':
+        value = (output as nbformat.IExecuteResult).data;
+        break;
+    }
+  }
+
+  const data = value ?? display ?? {};
+  const bundle = Object.keys(data).length > 0 ? { data } : {};
+  for (const [mimeType, format] of Object.entries(IMAGE_FORMATS)) {
+    const image = data[mimeType];
+    if (typeof image === 'string' && image) {
+      return { status: 'success', result: { type: 'image', format, content: image.trim() }, ...bundle };
+    }
+  }
+  const html = joinText(data['text/html'] as nbformat.MultilineString | undefined);
+  if (html) {
+    return { status: 'success', result: { type: 'html', content: html.slice(0, MAX_HTML_LENGTH) }, ...bundle };
+  }
+  const plain = joinText(data['text/plain'] as nbformat.MultilineString | undefined);
+  const text = stripAnsi([printed.trimEnd(), plain].filter(part => part).join('\n'));
+  return { status: 'success', result: { type: 'text', content: text.slice(0, MAX_TEXT_LENGTH) }, ...bundle };
+}
+
+/**
+ * Implementation of IToolExecutor that runs tool calls through a
+ * notebook's kernel connector.
+ */
+export class KernelToolExecutor implements IToolExecutor {
+  private _connector: IKernelConnector;
+
+  constructor(connector: IKernelConnector) {
+    this._connector = connector;
+  }
+
+  /**
+   * Call a function in the kernel, outside of the execution history.
+   */
+  async execute(
+    name: string,
+    args: Record<string, unknown>,
+    parameterNames: string[]
+  ): Promise<IToolCallResult> {
+    try {
+      const language = (await this._connector.getLanguageInfo())?.name ?? 'python';
+      const adapter = findLanguageAdapter(language);
+      if (!adapter) {
+        return { status: 'error', error: `Tool calls are not supported in ${language} kernels` };
+      }
+      const outputs: nbformat.IOutput[] = [];
+      const reply = await this._connector.execute(
+        adapter.toolCallCode(name, args, parameterNames),
+        msg => {
+          const output = toOutput(msg);
+          if (output) {
+            outputs.push(output);
+          }
+        },
+        false
+      );
+      if (!reply) {
+        return { status: 'error', error: 'No kernel is available' };
+      }
+      const result = toolResultFromOutputs(outputs);
+      if (reply.content.status !== 'ok' && result.status === 'success') {
+        // Failed without an error output, e.g. aborted after an interrupt
+        const error = reply.content.status === 'error' ? 'Tool execution failed' : 'Tool execution was aborted';
+        return { status: 'error', error };
+      }
+      return result;
+    } catch (error) {
+      return { status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
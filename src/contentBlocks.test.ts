@@ -0,0 +1,109 @@
+/**
+ * Tests for splitting responses into cells.
+ */
+
+import { planCells, tokenizeMarkdown } from './contentBlocks';
+
+describe('tokenizeMarkdown', () => {
+  it('should split text and fences', () => {
+    expect(tokenizeMarkdown('Intro\n```python\nx = 1\n```\nOutro')).toEqual([
+      { type: 'text', content: 'Intro' },
+      { type: 'fence', language: 'python', content: 'x = 1', raw: '```python\nx = 1\n```' },
+      { type: 'text', content: 'Outro' }
+    ]);
+  });
+
+  it('should keep shorter fences inside longer ones', () => {
+    const markdown = '````markdown\nUse:\n```python\nx = 1\n```\n````';
+    const tokens = tokenizeMarkdown(markdown);
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0]).toEqual({
+      type: 'fence',
+      language: 'markdown',
+      content: 'Use:\n```python\nx = 1\n```',
+      raw: markdown
+    });
+  });
+
+  it('should only close a fence with the same character', () => {
+    const tokens = tokenizeMarkdown('~~~\na\n```\nb\n~~~');
+    expect(tokens).toEqual([{ type: 'fence', language: '', content: 'a\n```\nb', raw: '~~~\na\n```\nb\n~~~' }]);
+  });
+
+  it('should read languages with symbols and attributes', () => {
+    const languages = ['```c++', '```python3 title="a.py"', '``` {python}', '```Python']
+      .map(open => tokenizeMarkdown(`${open}\nx\n\`\`\``)[0])
+      .map(token => (token.type === 'fence' ? token.language : null));
+    expect(languages).toEqual(['c++', 'python3', 'python', 'python']);
+  });
+
+  it('should remove the indentation of indented fences', () => {
+    expect(tokenizeMarkdown('  ```\n  x = 1\n    y\n  ```')[0]).toMatchObject({ content: 'x = 1\n  y' });
+  });
+
+  it('should run unclosed fences to the end', () => {
+    expect(tokenizeMarkdown('Text\n```python\nx = 1')).toEqual([
+      { type: 'text', content: 'Text' },
+      { type: 'fence', language: 'python', content: 'x = 1', raw: '```python\nx = 1' }
+    ]);
+  });
+
+  it('should not treat inline backticks as fences', () => {
+    expect(tokenizeMarkdown('Run ```x``` here')).toEqual([{ type: 'text', content: 'Run ```x``` here' }]);
+  });
+});
+
+describe('planCells', () => {
+  it('should make code cells of the kernel language only', () => {
+    const markdown = [
+      'Load the data:',
+      '```python',
+      'df = load()',
+      '```',
+      'The file looks like:',
+      '```json',
+      '{"a": 1}',
+      '```',
+      'Done.',
+      '```',
+      'print(df)',
+      '```'
+    ].join('\n');
+    expect(planCells(markdown, 'python')).toEqual([
+      { cellType: 'markdown', source: 'Load the data:' },
+      { cellType: 'code', source: 'df = load()' },
+      { cellType: 'markdown', source: 'The file looks like:\n\n```json\n{"a": 1}\n```\n\nDone.' },
+      { cellType: 'code', source: 'print(df)' }
+    ]);
+  });
+
+  it('should turn shell code into a cell magic in Python kernels', () => {
+    expect(planCells('```bash\npip install x\n```', 'python')).toEqual([
+      { cellType: 'code', source: '%%bash\npip install x' }
+    ]);
+    expect(planCells('```bash\npip install x\n```', 'R')).toEqual([
+      { cellType: 'markdown', source: '```bash\npip install x\n```' }
+    ]);
+  });
+
+  it('should use the language aliases of the kernel', () => {
+    expect(planCells('```r\nx <- 1\n```\n```python\nx = 1\n```', 'R')).toEqual([
+      { cellType: 'code', source: 'x <- 1' },
+      { cellType: 'markdown', source: '```python\nx = 1\n```' }
+    ]);
+    expect(planCells('```ts\nconst x = 1;\n```', 'typescript')).toEqual([
+      { cellType: 'code', source: 'const x = 1;' }
+    ]);
+  });
+
+  it('should match the language name of kernels without an adapter', () => {
+    expect(planCells('```julia\nx = 1\n```\n```python\ny = 2\n```', 'julia')).toEqual([
+      { cellType: 'code', source: 'x = 1' },
+      { cellType: 'markdown', source: '```python\ny = 2\n```' }
+    ]);
+  });
+
+  it('should drop empty blocks', () => {
+    expect(planCells('```python\n\n```\n\n', 'python')).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Splitting of a response into notebook cells for "Convert to Cells".
+ *
+ * The response is tokenized into text and fenced code blocks following the
+ * CommonMark fence rules: fences of three or more backticks or tildes,
+ * closed by a fence of the same character that is at least as long, so
+ * that longer fences can contain shorter ones. Only code in the kernel's
+ * language becomes code cells. Shell code becomes a cell magic where the
+ * kernel has one, and other fences (JSON, output, other languages) stay in
+ * the markdown around them.
+ */
+
+import { findLanguageAdapter } from './languageAdapters';
+
+/**
+ * Text between code fences.
+ */
+export interface ITextToken {
+  type: 'text';
+  content: string;
+}
+
+/**
+ * A fenced code block.
+ */
+export interface IFenceToken {
+  type: 'fence';
+  /** Lower-case first word of the info string, or '' */
+  language: string;
+  /** Code with the fence's indentation removed */
+  content: string;
+  /** The block as written, fences included */
+  raw: string;
+}
+
+export type MarkdownToken = ITextToken | IFenceToken;
+
+/**
+ * A cell proposed by "Convert to Cells".
+ */
+export interface IProposedCell {
+  cellType: 'code' | 'markdown';
+  source: string;
+}
+
+/**
+ * Fence languages of shell code.
+ */
+const SHELL_LANGUAGES = ['bash', 'sh', 'shell', 'zsh'];
+
+const OPENING_FENCE_RE = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const CLOSING_FENCE_RE = /^ {0,3}(`{3,}|~{3,})[ \t]*$/;
+
+/**
+ * Split markdown into text and fenced code blocks. A fence that is never
+ * closed runs to the end of the text.
+ */
+export function tokenizeMarkdown(markdown: string): MarkdownToken[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const tokens: MarkdownToken[] = [];
+  let text: string[] = [];
+  let index = 0;
+
+  const flushText = () => {
+    if (text.length > 0) {
+      tokens.push({ type: 'text', content: text.join('\n') });
+      text = [];
+    }
+  };
+
+  while (index < lines.length) {
+    const open = OPENING_FENCE_RE.exec(lines[index]);
+    // Backtick fences cannot have backticks in their info string
+    if (!open || (open[2][0] === '`' && open[3].includes('`'))) {
+      text.push(lines[index]);
+      index++;
+      continue;
+    }
+
+    flushText();
+    const [, indent, marker, info] = open;
+    const start = index;
+    const code: string[] = [];
+    let closed = false;
+    for (index = start + 1; index < lines.length; index++) {
+      const close = CLOSING_FENCE_RE.exec(lines[index]);
+      if (close && close[1][0] === marker[0] && close[1].length >= marker.length) {
+        closed = true;
+        break;
+      }
+      code.push(removeIndent(lines[index], indent.length));
+    }
+    const end = closed ? index + 1 : index;
+    tokens.push({
+      type: 'fence',
+      language: fenceLanguage(info),
+      content: code.join('\n'),
+      raw: lines.slice(start, end).join('\n')
+    });
+    index = end;
+  }
+  flushText();
+  return tokens;
+}
+
+/**
+ * Propose cells for a response in a kernel of the given language.
+ * Consecutive markdown is kept in one cell; empty blocks are dropped.
+ */
+export function planCells(markdown: string, kernelLanguage: string): IProposedCell[] {
+  const adapter = findLanguageAdapter(kernelLanguage);
+  const codeLanguages = adapter?.fenceLanguages ?? [kernelLanguage.toLowerCase()];
+  const shellMagic = adapter?.shellCellMagic ?? null;
+  const cells: IProposedCell[] = [];
+
+  const addMarkdown = (source: string) => {
+    const trimmed = source.trim();
+    if (!trimmed) {
+      return;
+    }
+    const last = cells[cells.length - 1];
+    if (last?.cellType === 'markdown') {
+      last.source += `\n\n${trimmed}`;
+    } else {
+      cells.push({ cellType: 'markdown', source: trimmed });
+    }
+  };
+
+  for (const token of tokenizeMarkdown(markdown)) {
+    if (token.type === 'text') {
+      addMarkdown(token.content);
+      continue;
+    }
+    const code = token.content.trim();
+    if (!code) {
+      continue;
+    }
+    if (!token.language || codeLanguages.includes(token.language)) {
+      cells.push({ cellType: 'code', source: code });
+    } else if (shellMagic && SHELL_LANGUAGES.includes(token.language)) {
+      cells.push({ cellType: 'code', source: `${shellMagic}\n${code}` });
+    } else {
+      addMarkdown(token.raw);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Get the language of a fence from its info string, e.g. `python` from
+ * `python title="x.py"` or `{python}`.
+ */
+function fenceLanguage(info: string): string {
+  const word = info.trim().split(/\s+/)[0] ?? '';
+  return word.replace(/^\{|\}$/g, '').replace(/^\./, '').toLowerCase();
+}
+
+/**
+ * Remove up to `width` leading spaces of the fence's indentation.
+ */
+function removeIndent(line: string, width: number): string {
+  let count = 0;
+  while (count < width && line[count] === ' ') {
+    count++;
+  }
+  return line.slice(count);
+}
@@ -0,0 +1,271 @@
+/**
+ * Tests for the context token budget.
+ */
+
+import {
+  IMAGE_TOKENS,
+  IContextBudgetInput,
+  applyContextBudget,
+  definesName,
+  describeDroppedContext,
+  estimateTokens,
+  formatPrecedingCode,
+  summarizeCell
+} from './contextBudget';
+import type { IImageContext } from './tokens';
+
+function makeInput(overrides: Partial<IContextBudgetInput> = {}): IContextBudgetInput {
+  return {
+    cells: [],
+    outputs: [],
+    images: [],
+    chartSpecs: [],
+    referencedNames: [],
+    reservedTokens: 0,
+    ...overrides
+  };
+}
+
+function image(cellIndex: number): IImageContext {
+  return { data: 'AAAA', mimeType: 'image/png', source: 'output', cellIndex };
+}
+
+describe('estimateTokens', () => {
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('definesName', () => {
+  it.each([
+    ['df = load()', 'df'],
+    ['x, df = split(data)', 'df'],
+    ['df: pd.DataFrame = load()', 'df'],
+    ['df += other', 'df'],
+    ['def clean(df):\n    return df', 'clean'],
+    ['class Model:\n    pass', 'Model'],
+    ['import numpy as np', 'np'],
+    ['from pathlib import Path, PurePath', 'PurePath'],
+    ['for i, row in enumerate(rows):\n    pass', 'row'],
+    ['with open(p) as fh:\n    pass', 'fh'],
+    ['df <- read.csv("a.csv")', 'df'],
+    ['const total = 1;', 'total'],
+    ['function area(r) { return r * r; }', 'area']
+  ])('should detect a binding in %j', (source, name) => {
+    expect(definesName(source, name)).toBe(true);
+  });
+
+  it.each([
+    ['print(df)', 'df'],
+    ['x = df', 'df'],
+    ['df.columns = names', 'df'],
+    ['self.df = df2', 'df'],
+    ['if df == other:\n    pass', 'df'],
+    ['dfx = 1', 'df']
+  ])('should not treat %j as binding the name', (source, name) => {
+    expect(definesName(source, name)).toBe(false);
+  });
+});
+
+describe('summarizeCell', () => {
+  it('should keep imports, definitions and top-level assignments', () => {
+    const source = [
+      'import pandas as pd',
+      'df = pd.read_csv("data.csv")',
+      'df.head()',
+      'def clean(frame):',
+      '    return frame.dropna()',
+      'print(clean(df))'
+    ].join('\n');
+    expect(summarizeCell(source)).toBe(
+      ['import pandas as pd', 'df = pd.read_csv("data.csv")', 'def clean(frame):'].join('\n')
+    );
+  });
+
+  it('should return null when nothing is left', () => {
+    expect(summarizeCell('df.head()\nprint(1)')).toBeNull();
+  });
+
+  it('should truncate long lines', () => {
+    const summary = summarizeCell(`data = [${'1, '.repeat(100)}]`)!;
+    expect(summary).toHaveLength(120);
+    expect(summary.endsWith('...')).toBe(true);
+  });
+});
+
+describe('applyContextBudget', () => {
+  const cells = [
+    { index: 0, source: 'a'.repeat(400) },
+    { index: 1, source: 'b'.repeat(400) },
+    { index: 2, source: 'c'.repeat(400) }
+  ];
+
+  it('should keep everything when the budget is disabled', () => {
+    const input = makeInput({ cells, images: [image(1)] });
+    const result = applyContextBudget(input, 0);
+    expect(result.cells).toEqual(cells);
+    expect(result.images).toHaveLength(1);
+    expect(result.dropped).toEqual([]);
+  });
+
+  it('should keep everything that fits', () => {
+    const result = applyContextBudget(makeInput({ cells }), 1000);
+    expect(result.cells).toEqual(cells);
+    expect(result.dropped).toEqual([]);
+  });
+
+  it('should prefer the most recent cells', () => {
+    const result = applyContextBudget(makeInput({ cells }), 200);
+    expect(result.cells.map(cell => cell.index)).toEqual([1, 2]);
+    expect(result.dropped).toEqual([{ kind: 'cell', cellIndex: 0, tokens: 100 }]);
+  });
+
+  it('should count reserved tokens against the budget', () => {
+    const result = applyContextBudget(makeInput({ cells, reservedTokens: 150 }), 300);
+    expect(result.cells.map(cell => cell.index)).toEqual([2]);
+  });
+
+  it('should keep cells defining referenced names first', () => {
+    const input = makeInput({
+      cells: [{ index: 0, source: 'df = load()\n' + '#'.repeat(388) }, ...cells.slice(1)],
+      referencedNames: ['df']
+    });
+    const result = applyContextBudget(input, 200);
+    expect(result.cells.map(cell => cell.index)).toEqual([0, 2]);
+  });
+
+  it('should return kept items in notebook order', () => {
+    const input = makeInput({
+      cells: [
+        { index: 0, source: 'x = 1' },
+        { index: 3, source: 'y = 2' }
+      ],
+      referencedNames: ['y']
+    });
+    const result = applyContextBudget(input, 100);
+    expect(result.cells.map(cell => cell.index)).toEqual([0, 3]);
+  });
+
+  it('should drop older images before recent ones', () => {
+    const input = makeInput({ images: [image(0), image(4)] });
+    const result = applyContextBudget(input, IMAGE_TOKENS + 10);
+    expect(result.images.map(img => img.cellIndex)).toEqual([4]);
+    expect(result.dropped).toEqual([{ kind: 'image', cellIndex: 0, tokens: IMAGE_TOKENS }]);
+  });
+
+  it('should budget outputs after the code of the same cell', () => {
+    const input = makeInput({
+      cells: [
+        { index: 0, source: 'print(df.shape)' },
+        { index: 1, source: 'b'.repeat(400) }
+      ],
+      outputs: [
+        { outputType: 'stream', name: 'stdout', text: '(100, 3)', cellIndex: 0 },
+        { outputType: 'error', text: 'x'.repeat(400), cellIndex: 1 }
+      ]
+    });
+    const result = applyContextBudget(input, 150);
+    expect(result.cells.map(cell => cell.index)).toEqual([0, 1]);
+    expect(result.outputs.map(output => output.cellIndex)).toEqual([0]);
+    expect(result.dropped).toEqual([{ kind: 'output', cellIndex: 1, tokens: 100 }]);
+  });
+
+  it('should budget chart specs by their JSON size', () => {
+    const spec = { data: { values: 'x'.repeat(800) } };
+    const input = makeInput({
+      cells: [{ index: 1, source: 'chart = alt.Chart(df)' }],
+      chartSpecs: [{ type: 'vega-lite', spec, cellIndex: 1 }]
+    });
+    const result = applyContextBudget(input, 50);
+    expect(result.chartSpecs).toEqual([]);
+    expect(result.cells).toHaveLength(1);
+    expect(result.dropped[0].kind).toBe('chart');
+  });
+
+  it('should summarize dropped cells when the summary fits', () => {
+    const input = makeInput({
+      cells: [
+        { index: 0, source: `import pandas as pd\nprint("${'x'.repeat(400)}")` },
+        { index: 1, source: 'b'.repeat(360) }
+      ]
+    });
+    const result = applyContextBudget(input, 110);
+    expect(result.cells).toHaveLength(2);
+    expect(result.cells[0]).toEqual({
+      index: 0,
+      source: '# [summarized to fit the context budget]\nimport pandas as pd',
+      summarized: true
+    });
+    expect(result.dropped).toEqual([
+      { kind: 'cell', cellIndex: 0, tokens: 108, summarized: true }
+    ]);
+  });
+
+  it('should use the kernel language for summary comments', () => {
+    const input = makeInput({
+      cells: [
+        { index: 0, source: `const a = 1;\nconsole.log("${'x'.repeat(400)}");` },
+        { index: 1, source: 'b'.repeat(360) }
+      ]
+    });
+    const result = applyContextBudget(input, 110, 'javascript');
+    expect(result.cells[0].source.startsWith('// [summarized')).toBe(true);
+  });
+});
+
+describe('formatPrecedingCode', () => {
+  it('should join cells and mark omitted runs', () => {
+    const code = formatPrecedingCode(
+      [
+        { index: 2, source: 'c = 3' },
+        { index: 5, source: 'f = 6' }
+      ],
+      [
+        { kind: 'cell', cellIndex: 0, tokens: 10 },
+        { kind: 'cell', cellIndex: 1, tokens: 10 },
+        { kind: 'cell', cellIndex: 3, tokens: 10 },
+        { kind: 'image', cellIndex: 4, tokens: IMAGE_TOKENS }
+      ]
+    );
+    expect(code).toBe(
+      [
+        '# [2 cells omitted to fit the context budget]',
+        'c = 3',
+        '# [1 cell omitted to fit the context budget]',
+        'f = 6'
+      ].join('\n\n')
+    );
+  });
+
+  it('should not mark summarized cells as omitted', () => {
+    const code = formatPrecedingCode(
+      [{ index: 0, source: '# [summarized to fit the context budget]\nx = 1', summarized: true }],
+      [{ kind: 'cell', cellIndex: 0, tokens: 10, summarized: true }]
+    );
+    expect(code).toBe('# [summarized to fit the context budget]\nx = 1');
+  });
+});
+
+describe('describeDroppedContext', () => {
+  it('should summarize counts and list items with 1-based cell numbers', () => {
+    const description = describeDroppedContext([
+      { kind: 'cell', cellIndex: 0, tokens: 120 },
+      { kind: 'cell', cellIndex: 1, tokens: 80, summarized: true },
+      { kind: 'output', cellIndex: 1, tokens: 40 },
+      { kind: 'image', cellIndex: 1, tokens: IMAGE_TOKENS },
+      { kind: 'image', cellIndex: 2, tokens: IMAGE_TOKENS }
+    ]);
+    expect(description.summary).toBe(
+      'Context trimmed to fit the token budget: 1 cell omitted, 1 cell summarized, 1 output omitted, 2 images omitted'
+    );
+    expect(description.items).toEqual([
+      'Cell 1: code (~120 tokens), omitted',
+      'Cell 2: code (~80 tokens), summarized',
+      'Cell 2: output (~40 tokens), omitted',
+      `Cell 2: image (~${IMAGE_TOKENS} tokens), omitted`,
+      `Cell 3: image (~${IMAGE_TOKENS} tokens), omitted`
+    ]);
+  });
+});
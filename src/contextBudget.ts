@@ -0,0 +1,351 @@
+/**
+ * Token budget for the notebook context sent with a prompt.
+ *
+ * Long notebooks produce more preceding code, outputs, images and chart specs than
+ * fit in the model's context. Each item gets a token estimate and items are
+ * kept in priority order until the budget is spent: cells that define a
+ * referenced name first, then the most recent material. Code cells that do
+ * not fit are reduced to their imports and top-level definitions when that
+ * summary fits; everything else is dropped and reported.
+ */
+
+import type { ICellOutput, IChartSpec, IImageContext } from './tokens';
+
+/**
+ * Rough characters per token for code and English text.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimated tokens for one image (the model's cost for a ~1.15 megapixel
+ * image, which larger images are scaled down to).
+ */
+export const IMAGE_TOKENS = 1600;
+
+/**
+ * Estimate the number of tokens in a piece of text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * A preceding code cell.
+ */
+export interface IContextCell {
+  /** Index of the cell in the notebook */
+  index: number;
+  source: string;
+  /** Whether the source was reduced to a summary to fit the budget */
+  summarized?: boolean;
+}
+
+/**
+ * Context material that was left out (or summarized) to fit the budget.
+ */
+export interface IDroppedContextItem {
+  kind: 'cell' | 'output' | 'image' | 'chart';
+  /** Index of the cell the item came from */
+  cellIndex: number;
+  /** Estimated tokens of the full item */
+  tokens: number;
+  /** Whether a summary was sent instead of the full item */
+  summarized?: boolean;
+}
+
+/**
+ * Context gathered from the cells above a prompt.
+ */
+export interface IContextBudgetInput {
+  cells: IContextCell[];
+  outputs: ICellOutput[];
+  images: IImageContext[];
+  chartSpecs: IChartSpec[];
+  /** Root names of the variables and functions referenced by the prompt */
+  referencedNames: string[];
+  /** Tokens used by context that is always sent (variables, functions, history) */
+  reservedTokens: number;
+}
+
+/**
+ * Context that fits the budget, in notebook order.
+ */
+export interface IContextBudgetResult {
+  cells: IContextCell[];
+  outputs: ICellOutput[];
+  images: IImageContext[];
+  chartSpecs: IChartSpec[];
+  dropped: IDroppedContextItem[];
+}
+
+/**
+ * A budgeted item with its priority.
+ */
+interface ICandidate {
+  kind: IDroppedContextItem['kind'];
+  cellIndex: number;
+  tokens: number;
+  /** Whether the item comes from a cell defining a referenced name */
+  pinned: boolean;
+  /** Position in its input list */
+  position: number;
+}
+
+/** Order of item kinds from the same cell: code and text before charts and images. */
+const KIND_ORDER: Record<IDroppedContextItem['kind'], number> = {
+  cell: 0,
+  output: 1,
+  chart: 2,
+  image: 3
+};
+
+/**
+ * Check whether cell source binds a name: assignment, function or class
+ * definition, import, loop variable, or R/JavaScript declaration.
+ */
+export function definesName(source: string, name: string): boolean {
+  const n = name.replace(/\$/g, '\\$');
+  const patterns = [
+    new RegExp(`^\\s*(?:async\\s+)?(?:def|class|function)\\s+${n}(?![\\w$])`, 'm'),
+    new RegExp(`^\\s*(?:export\\s+)?(?:let|const|var)\\s+${n}(?![\\w$])`, 'm'),
+    new RegExp(`^[\\w\\s,*[\\]]*?(?<![\\w$.])${n}\\s*(?::[^=\\n]*)?(?:\\*\\*|//|>>|<<|[-+*/%&|^@])?=(?!=)`, 'm'),
+    new RegExp(`^\\s*${n}\\s*<<?-`, 'm'),
+    new RegExp(`^\\s*(?:async\\s+)?for\\s+[\\w\\s,()]*?(?<![\\w$.])${n}(?![\\w$])[\\w\\s,()]*\\bin\\b`, 'm'),
+    new RegExp(`^\\s*(?:from\\s+\\S+\\s+)?import\\s+[^\\n#]*(?<![\\w$.])${n}(?![\\w$.])`, 'm'),
+    new RegExp(`\\bas\\s+${n}(?![\\w$])`)
+  ];
+  return patterns.some(pattern => pattern.test(source));
+}
+
+/**
+ * Line comment prefix for a kernel language.
+ */
+export function commentPrefix(language?: string): string {
+  const lang = (language ?? '').toLowerCase();
+  return lang === 'javascript' || lang === 'typescript' ? '//' : '#';
+}
+
+/**
+ * Reduce cell source to its imports and top-level definitions and
+ * assignments, or return null when nothing is left.
+ */
+export function summarizeCell(source: string): string | null {
+  const lines = source.split('\n').filter(line =>
+    /^(?:import\s|from\s+\S+\s+import\s|(?:async\s+)?def\s|class\s|function\s|(?:export\s+)?(?:let|const|var)\s|library\(|[A-Za-z_$][\w$.]*\s*(?:<-|=(?!=)))/.test(line)
+  );
+  if (lines.length === 0) {
+    return null;
+  }
+  return lines.map(line => (line.length > 120 ? `${line.slice(0, 117)}...` : line)).join('\n');
+}
+
+/**
+ * Keep as much context as fits in `budget` tokens. A budget of zero or
+ * less keeps everything.
+ */
+export function applyContextBudget(
+  input: IContextBudgetInput,
+  budget: number,
+  language?: string
+): IContextBudgetResult {
+  if (budget <= 0) {
+    return {
+      cells: input.cells,
+      outputs: input.outputs,
+      images: input.images,
+      chartSpecs: input.chartSpecs,
+      dropped: []
+    };
+  }
+
+  const pinnedCells = new Set(
+    input.cells
+      .filter(cell => input.referencedNames.some(name => definesName(cell.source, name)))
+      .map(cell => cell.index)
+  );
+  const candidates: ICandidate[] = [
+    ...input.cells.map((cell, position) => ({
+      kind: 'cell' as const,
+      cellIndex: cell.index,
+      tokens: estimateTokens(cell.source),
+      position
+    })),
+    ...input.outputs.map((output, position) => ({
+      kind: 'output' as const,
+      cellIndex: output.cellIndex,
+      tokens: estimateTokens(output.text),
+      position
+    })),
+    ...input.chartSpecs.map((chart, position) => ({
+      kind: 'chart' as const,
+      cellIndex: chart.cellIndex,
+      tokens: estimateTokens(JSON.stringify(chart.spec)),
+      position
+    })),
+    ...input.images.map((image, position) => ({
+      kind: 'image' as const,
+      cellIndex: image.cellIndex,
+      tokens: IMAGE_TOKENS,
+      position
+    }))
+  ].map(candidate => ({ ...candidate, pinned: pinnedCells.has(candidate.cellIndex) }));
+
+  candidates.sort(
+    (a, b) =>
+      Number(b.pinned) - Number(a.pinned) ||
+      b.cellIndex - a.cellIndex ||
+      KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+      a.position - b.position
+  );
+
+  let remaining = budget - input.reservedTokens;
+  const kept = new Set<ICandidate>();
+  for (const candidate of candidates) {
+    if (candidate.tokens <= remaining) {
+      kept.add(candidate);
+      remaining -= candidate.tokens;
+    }
+  }
+
+  // Summarize dropped code cells with what is left, in the same priority order
+  const summaries = new Map<number, string>();
+  const header = commentPrefix(language);
+  for (const candidate of candidates) {
+    if (kept.has(candidate) || candidate.kind !== 'cell') {
+      continue;
+    }
+    const summary = summarizeCell(input.cells[candidate.position].source);
+    if (summary === null) {
+      continue;
+    }
+    const text = `${header} [summarized to fit the context budget]\n${summary}`;
+    const tokens = estimateTokens(text);
+    if (tokens <= remaining) {
+      summaries.set(candidate.position, text);
+      remaining -= tokens;
+    }
+  }
+
+  const keptKeys = new Set([...kept].map(c => `${c.kind}:${c.position}`));
+  const isKept = (kind: ICandidate['kind'], position: number) =>
+    keptKeys.has(`${kind}:${position}`);
+
+  const cells: IContextCell[] = [];
+  input.cells.forEach((cell, position) => {
+    if (isKept('cell', position)) {
+      cells.push(cell);
+    } else if (summaries.has(position)) {
+      cells.push({ index: cell.index, source: summaries.get(position)!, summarized: true });
+    }
+  });
+
+  const dropped = candidates
+    .filter(candidate => !kept.has(candidate))
+    .sort((a, b) => a.cellIndex - b.cellIndex || KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
+    .map(candidate => {
+      const item: IDroppedContextItem = {
+        kind: candidate.kind,
+        cellIndex: candidate.cellIndex,
+        tokens: candidate.tokens
+      };
+      if (candidate.kind === 'cell' && summaries.has(candidate.position)) {
+        item.summarized = true;
+      }
+      return item;
+    });
+
+  return {
+    cells,
+    outputs: input.outputs.filter((_, position) => isKept('output', position)),
+    images: input.images.filter((_, position) => isKept('image', position)),
+    chartSpecs: input.chartSpecs.filter((_, position) => isKept('chart', position)),
+    dropped
+  };
+}
+
+/**
+ * Join budgeted cells into the preceding code, marking where cells were
+ * left out so the model knows the code is incomplete.
+ */
+export function formatPrecedingCode(
+  cells: IContextCell[],
+  dropped: IDroppedContextItem[],
+  language?: string
+): string {
+  const omitted = new Set(
+    dropped.filter(item => item.kind === 'cell' && !item.summarized).map(item => item.cellIndex)
+  );
+  const prefix = commentPrefix(language);
+  const parts: string[] = [];
+  let pending = 0;
+  const flush = () => {
+    if (pending > 0) {
+      parts.push(
+        `${prefix} [${pending} cell${pending === 1 ? '' : 's'} omitted to fit the context budget]`
+      );
+      pending = 0;
+    }
+  };
+
+  const indices = [...new Set([...cells.map(cell => cell.index), ...omitted])].sort(
+    (a, b) => a - b
+  );
+  const byIndex = new Map(cells.map(cell => [cell.index, cell]));
+  for (const index of indices) {
+    const cell = byIndex.get(index);
+    if (cell) {
+      flush();
+      parts.push(cell.source);
+    } else {
+      pending++;
+    }
+  }
+  flush();
+  return parts.join('\n\n');
+}
+
+/**
+ * Describe dropped context for the note on the response cell: a one-line
+ * summary and one line per item. Cells are numbered from 1.
+ */
+export function describeDroppedContext(dropped: IDroppedContextItem[]): {
+  summary: string;
+  items: string[];
+} {
+  const count = (kind: IDroppedContextItem['kind'], summarized: boolean) =>
+    dropped.filter(item => item.kind === kind && (item.summarized === true) === summarized)
+      .length;
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+  const parts: string[] = [];
+  const summarizedCells = count('cell', true);
+  const droppedCells = count('cell', false);
+  const outputs = count('output', false);
+  const charts = count('chart', false);
+  const images = count('image', false);
+  if (droppedCells) {
+    parts.push(`${plural(droppedCells, 'cell')} omitted`);
+  }
+  if (summarizedCells) {
+    parts.push(`${plural(summarizedCells, 'cell')} summarized`);
+  }
+  if (outputs) {
+    parts.push(`${plural(outputs, 'output')} omitted`);
+  }
+  if (charts) {
+    parts.push(`${plural(charts, 'chart')} omitted`);
+  }
+  if (images) {
+    parts.push(`${plural(images, 'image')} omitted`);
+  }
+
+  const labels = { cell: 'code', output: 'output', chart: 'chart spec', image: 'image' };
+  return {
+    summary: `Context trimmed to fit the token budget: ${parts.join(', ')}`,
+    items: dropped.map(
+      item =>
+        `Cell ${item.cellIndex + 1}: ${labels[item.kind]} (~${item.tokens} tokens)` +
+        (item.summarized ? ', summarized' : ', omitted')
+    )
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for conversion back-references.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+import {
+  convertedFrom,
+  findConvertedBlock,
+  pruneConversions,
+  readConversion,
+  recordConversion,
+  removeConversion
+} from './conversions';
+
+const response: nbformat.ICell = {
+  id: 'r1',
+  cell_type: 'markdown',
+  source: 'Use:\n```python\nx = 1\n```',
+  metadata: { ai_jup: { isOutputCell: true } }
+};
+
+describe('convertedFrom', () => {
+  it('should read the response id of a converted cell', () => {
+    expect(convertedFrom({ convertedFrom: 'r1' })).toBe('r1');
+  });
+
+  it('should return null for other cells', () => {
+    expect(convertedFrom(undefined)).toBeNull();
+    expect(convertedFrom({ isOutputCell: true })).toBeNull();
+    expect(convertedFrom({ convertedFrom: 3 })).toBeNull();
+  });
+});
+
+describe('conversion records', () => {
+  it('should keep the response next to other metadata', () => {
+    const metadata = recordConversion({ chat: [] }, 'r1', response);
+    expect(metadata).toEqual({ chat: [], conversions: { r1: response } });
+    expect(readConversion(metadata, 'r1')).toEqual(response);
+    expect(readConversion(metadata, 'r2')).toBeNull();
+  });
+
+  it('should keep earlier conversions', () => {
+    const metadata = recordConversion(recordConversion(undefined, 'r1', response), 'r2', response);
+    expect(Object.keys(metadata.conversions ?? {})).toEqual(['r1', 'r2']);
+  });
+
+  it('should remove a conversion and drop the empty key', () => {
+    const metadata = recordConversion(recordConversion({ chat: [] }, 'r1', response), 'r2', response);
+    const removed = removeConversion(metadata, 'r1');
+    expect(removed).toEqual({ chat: [], conversions: { r2: response } });
+    expect(removeConversion(removed, 'r2')).toEqual({ chat: [] });
+  });
+
+  it('should ignore malformed records', () => {
+    expect(readConversion({ conversions: { r1: 'text' } }, 'r1')).toBeNull();
+    expect(readConversion(null, 'r1')).toBeNull();
+  });
+});
+
+describe('pruneConversions', () => {
+  const metadata = recordConversion(recordConversion({ chat: [] }, 'r1', response), 'r2', response);
+
+  it('should drop responses no cell points back to', () => {
+    const cells = [undefined, { convertedFrom: 'r2' }, { isPromptCell: true }];
+    expect(pruneConversions(metadata, cells)).toEqual({ chat: [], conversions: { r2: response } });
+    expect(pruneConversions(metadata, [])).toEqual({ chat: [] });
+  });
+
+  it('should return the metadata itself when nothing is orphaned', () => {
+    expect(pruneConversions(metadata, [{ convertedFrom: 'r1' }, { convertedFrom: 'r2' }])).toBe(metadata);
+  });
+});
+
+describe('findConvertedBlock', () => {
+  const cells = [
+    { convertedFrom: 'r1' },
+    undefined,
+    { convertedFrom: 'r1' },
+    { convertedFrom: 'r1' },
+    { convertedFrom: 'r2' },
+    { convertedFrom: 'r1' }
+  ];
+
+  it('should find the adjacent cells converted from the same response', () => {
+    expect(findConvertedBlock(cells, 3)).toEqual({ responseId: 'r1', start: 2, end: 4 });
+    expect(findConvertedBlock(cells, 0)).toEqual({ responseId: 'r1', start: 0, end: 1 });
+    expect(findConvertedBlock(cells, 5)).toEqual({ responseId: 'r1', start: 5, end: 6 });
+  });
+
+  it('should return null for cells that were not converted', () => {
+    expect(findConvertedBlock(cells, 1)).toBeNull();
+    expect(findConvertedBlock(cells, -1)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Back-references from converted cells to the response they came from.
+ *
+ * "Convert to Cells" replaces a response cell with new cells. Each new cell
+ * records the id of the response under the `convertedFrom` key of its
+ * `ai_jup` metadata, and the response cell itself is kept under the
+ * `conversions` key of the notebook-level `ai_jup` metadata, so that the
+ * conversion can be reverted later.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+
+/**
+ * Notebook-level `ai_jup` metadata.
+ */
+export interface INotebookConversionMetadata {
+  /** Converted response cells keyed by their id */
+  conversions?: Record<string, nbformat.ICell>;
+  [key: string]: unknown;
+}
+
+/**
+ * Get the id of the response a cell was converted from, from the cell's
+ * `ai_jup` metadata.
+ */
+export function convertedFrom(cellMetadata: unknown): string | null {
+  const id = (cellMetadata as { convertedFrom?: unknown } | null | undefined)?.convertedFrom;
+  return typeof id === 'string' && id ? id : null;
+}
+
+/**
+ * Get a converted response cell from notebook metadata.
+ */
+export function readConversion(metadata: unknown, responseId: string): nbformat.ICell | null {
+  const conversions = (metadata as INotebookConversionMetadata | null | undefined)?.conversions;
+  const cell = conversions && typeof conversions === 'object' ? conversions[responseId] : undefined;
+  return cell && typeof cell === 'object' && typeof cell.cell_type === 'string' ? cell : null;
+}
+
+/**
+ * Return notebook metadata with a converted response cell kept, keeping
+ * other keys.
+ */
+export function recordConversion(
+  metadata: unknown,
+  responseId: string,
+  responseCell: nbformat.ICell
+): INotebookConversionMetadata {
+  const current = (metadata ?? {}) as INotebookConversionMetadata;
+  return { ...current, conversions: { ...current.conversions, [responseId]: responseCell } };
+}
+
+/**
+ * Return notebook metadata without a converted response cell. The
+ * `conversions` key is dropped once it is empty.
+ */
+export function removeConversion(metadata: unknown, responseId: string): INotebookConversionMetadata {
+  const { conversions, ...rest } = (metadata ?? {}) as INotebookConversionMetadata;
+  const { [responseId]: _removed, ...remaining } = conversions ?? {};
+  return Object.keys(remaining).length > 0 ? { ...rest, conversions: remaining } : rest;
+}
+
+/**
+ * Return notebook metadata keeping only the converted responses that cells
+ * still point back to, given the `ai_jup` metadata of every cell. Records
+ * are orphaned when their cells are deleted or the conversion is undone.
+ */
+export function pruneConversions(
+  metadata: unknown,
+  cellMetadata: ReadonlyArray<unknown>
+): INotebookConversionMetadata {
+  const current = (metadata ?? {}) as INotebookConversionMetadata;
+  const referenced = new Set(cellMetadata.map(convertedFrom));
+  const orphaned = Object.keys(current.conversions ?? {}).filter(id => !referenced.has(id));
+  return orphaned.reduce(removeConversion, current);
+}
+
+/**
+ * Find the block of adjacent cells converted from the same response as the
+ * cell at `index`, given the `ai_jup` metadata of every cell. `end` is
+ * exclusive. Returns null if that cell was not converted from a response.
+ */
+export function findConvertedBlock(
+  cellMetadata: ReadonlyArray<unknown>,
+  index: number
+): { responseId: string; start: number; end: number } | null {
+  const responseId = convertedFrom(cellMetadata[index]);
+  if (!responseId) {
+    return null;
+  }
+  let start = index;
+  while (start > 0 && convertedFrom(cellMetadata[start - 1]) === responseId) {
+    start--;
+  }
+  let end = index + 1;
+  while (end < cellMetadata.length && convertedFrom(cellMetadata[end]) === responseId) {
+    end++;
+  }
+  return { responseId, start, end };
+}
@@ -0,0 +1,67 @@
+/**
+ * Preview of the cells proposed by "Convert to Cells".
+ *
+ * Each proposed cell is listed with its type and source and a checkbox;
+ * only the checked cells are inserted.
+ */
+
+import { Dialog, showDialog } from '@jupyterlab/apputils';
+import { Widget } from '@lumino/widgets';
+import type { IProposedCell } from './contentBlocks';
+
+/**
+ * Dialog body listing the proposed cells.
+ */
+class ConvertPreview extends Widget implements Dialog.IBodyWidget<IProposedCell[]> {
+  private _cells: IProposedCell[];
+  private _checkboxes: HTMLInputElement[] = [];
+
+  constructor(cells: IProposedCell[]) {
+    super();
+    this._cells = cells;
+    this.addClass('ai-jup-convert-preview');
+
+    cells.forEach((cell, index) => {
+      const item = document.createElement('label');
+      item.className = `ai-jup-convert-preview-cell ai-jup-convert-preview-${cell.cellType}`;
+
+      const header = document.createElement('div');
+      header.className = 'ai-jup-convert-preview-header';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = true;
+      this._checkboxes.push(checkbox);
+      const label = document.createElement('span');
+      label.textContent = `${index + 1}. ${cell.cellType === 'code' ? 'Code' : 'Markdown'}`;
+      header.append(checkbox, label);
+
+      const source = document.createElement('pre');
+      source.className = 'ai-jup-convert-preview-source';
+      source.textContent = cell.source;
+
+      item.append(header, source);
+      this.node.appendChild(item);
+    });
+  }
+
+  /**
+   * The checked cells, in order.
+   */
+  getValue(): IProposedCell[] {
+    return this._cells.filter((_, index) => this._checkboxes[index].checked);
+  }
+}
+
+/**
+ * Show the proposed cells and let the user pick which to insert. Resolves
+ * with the picked cells, or null if the dialog was cancelled.
+ */
+export async function showConvertPreview(cells: IProposedCell[]): Promise<IProposedCell[] | null> {
+  const result = await showDialog({
+    title: 'Convert to Cells',
+    body: new ConvertPreview(cells),
+    buttons: [Dialog.cancelButton(), Dialog.okButton({ label: 'Insert Cells' })],
+    focusNodeSelector: 'input'
+  });
+  return result.button.accept ? result.value : null;
+}
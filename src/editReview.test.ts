@@ -0,0 +1,178 @@
+/**
+ * @jest-environment jsdom
+ */
+
+/**
+ * Tests for the inline review of cell edits proposed by the model.
+ */
+
+import type { Notebook } from '@jupyterlab/notebook';
+import type { ICellEdit } from './cellEdits';
+import { EditReview } from './editReview';
+import type { IProvenance } from './provenance';
+
+const PROVENANCE: IProvenance = {
+  model: 'claude-sonnet-4-20250514',
+  generatedAt: '2025-01-01T00:00:00.000Z',
+  promptCellId: 'p',
+  contextHash: 'sha256:abc',
+  toolCalls: []
+};
+
+interface IFakeCellModel {
+  id: string;
+  source: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * A notebook whose cell widgets, like JupyterLab's, only follow the shared
+ * model once a transaction ends.
+ */
+class FakeNotebook {
+  cells: IFakeCellModel[];
+  widgets: ReturnType<FakeNotebook['_widget']>[] = [];
+  transactions = 0;
+  private _nextId = 0;
+  private _inTransaction = false;
+
+  constructor(sources: Record<string, string>) {
+    this.cells = Object.entries(sources).map(([id, source]) => ({ id, source, metadata: {} }));
+    this._sync();
+  }
+
+  get model() {
+    return {
+      sharedModel: {
+        transact: (fn: () => void) => {
+          this.transactions++;
+          this._inTransaction = true;
+          try {
+            fn();
+          } finally {
+            this._inTransaction = false;
+            this._sync();
+          }
+        },
+        insertCell: (index: number, cell: { source: string; metadata: Record<string, unknown> }) => {
+          const model = { id: `new-${this._nextId++}`, source: cell.source, metadata: cell.metadata };
+          this.cells.splice(index, 0, model);
+          this._changed();
+          return { id: model.id };
+        },
+        deleteCell: (index: number) => {
+          this.cells.splice(index, 1);
+          this._changed();
+        }
+      }
+    };
+  }
+
+  get sources(): string[] {
+    return this.cells.map(cell => cell.source);
+  }
+
+  private _changed(): void {
+    if (!this._inTransaction) {
+      this._sync();
+    }
+  }
+
+  private _sync(): void {
+    this.widgets = this.cells.map(
+      cell => this.widgets.find(widget => widget.model.id === cell.id) ?? this._widget(cell)
+    );
+  }
+
+  private _widget(cell: IFakeCellModel) {
+    return {
+      isDisposed: false,
+      node: document.createElement('div'),
+      model: {
+        id: cell.id,
+        sharedModel: {
+          getSource: () => cell.source,
+          setSource: (source: string) => {
+            cell.source = source;
+          }
+        },
+        getMetadata: (key: string) => cell.metadata[key],
+        setMetadata: (key: string, value: unknown) => {
+          cell.metadata[key] = value;
+        }
+      }
+    };
+  }
+}
+
+function review(notebook: FakeNotebook, edits: ICellEdit[]): EditReview {
+  return new EditReview(notebook as unknown as Notebook, edits, document.createElement('div'), PROVENANCE);
+}
+
+function buttons(notebook: FakeNotebook, cellId: string, label: string): HTMLButtonElement[] {
+  const widget = notebook.widgets.find(w => w.model.id === cellId)!;
+  return Array.from(widget.node.querySelectorAll('button')).filter(
+    (button): button is HTMLButtonElement => button.textContent === label
+  );
+}
+
+describe('EditReview', () => {
+  it('should apply only the accepted hunks of a replacement', () => {
+    const notebook = new FakeNotebook({ a: 'x = 1\ny = 2\nz = 3' });
+    const edits = review(notebook, [{ action: 'replace', cellId: 'a', source: 'x = 10\ny = 2\nz = 30' }]);
+    expect(edits.pending).toBe(2);
+
+    buttons(notebook, 'a', 'Accept')[1].click();
+    expect(notebook.sources).toEqual(['x = 1\ny = 2\nz = 30']);
+    buttons(notebook, 'a', 'Reject')[0].click();
+
+    expect(notebook.sources).toEqual(['x = 1\ny = 2\nz = 30']);
+    expect(notebook.cells[0].metadata.ai_jup).toEqual({ provenance: PROVENANCE });
+    expect(edits.pending).toBe(0);
+  });
+
+  it('should not apply hunks to a cell edited after the proposal', () => {
+    const notebook = new FakeNotebook({ a: 'x = 1\ny = 2\nz = 3' });
+    const edits = review(notebook, [{ action: 'replace', cellId: 'a', source: 'x = 10\ny = 2\nz = 30' }]);
+    notebook.widgets[0].model.sharedModel.setSource('x = 1\ny = 5\nz = 3');
+
+    buttons(notebook, 'a', 'Accept')[0].click();
+
+    expect(notebook.sources).toEqual(['x = 1\ny = 5\nz = 3']);
+    expect(edits.pending).toBe(0);
+    expect(notebook.widgets[0].node.querySelector('.ai-jup-edit-conflict')).not.toBeNull();
+    expect(buttons(notebook, 'a', 'Accept')).toEqual([]);
+  });
+
+  it('should apply inserts after one anchor in order with a delete in one transaction', () => {
+    const notebook = new FakeNotebook({ a: 'a', b: 'b', c: 'c' });
+    const edits = review(notebook, [
+      { action: 'insert', afterCellId: 'b', cellType: 'code', source: 'first' },
+      { action: 'delete', cellId: 'a' },
+      { action: 'insert', afterCellId: 'b', cellType: 'markdown', source: 'second' },
+      { action: 'replace', cellId: 'c', source: 'c2' }
+    ]);
+
+    edits.settleAll(true);
+
+    expect(notebook.transactions).toBe(1);
+    expect(notebook.sources).toEqual(['b', 'first', 'second', 'c2']);
+    expect(edits.pending).toBe(0);
+  });
+
+  it('should leave the notebook untouched when the edits are rejected', () => {
+    const notebook = new FakeNotebook({ a: 'a', b: 'b' });
+    const edits = review(notebook, [
+      { action: 'replace', cellId: 'a', source: 'a2' },
+      { action: 'insert', afterCellId: null, cellType: 'code', source: 'top' },
+      { action: 'delete', cellId: 'b' }
+    ]);
+
+    edits.settleAll(false);
+
+    expect(notebook.sources).toEqual(['a', 'b']);
+    expect(notebook.cells.map(cell => cell.metadata)).toEqual([{}, {}]);
+    expect(notebook.transactions).toBe(0);
+    expect(notebook.widgets[0].node.querySelector('.ai-jup-edit-review')).toBeNull();
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Inline review of cell edits proposed by the model.
+ *
+ * Each affected cell shows its proposed change as a red/green diff with
+ * Accept and Reject buttons per hunk; inserted and deleted cells are shown
+ * on the cell they are anchored to. The response cell gets Accept All and
+ * Reject All; Accept All applies the remaining edits as one undoable step.
+ * The notebook is only changed when an edit is accepted. Inserted and
+ * changed cells are stamped with the provenance of the response.
+ */
+
+import { Notebook } from '@jupyterlab/notebook';
+import { Cell } from '@jupyterlab/cells';
+import { IDisposable } from '@lumino/disposable';
+import { ICellEdit, IHunk, applyHunks, computeHunks } from './cellEdits';
+import type { IProvenance } from './provenance';
+
+const PROMPT_METADATA_KEY = 'ai_jup';
+
+/**
+ * A change awaiting a decision.
+ */
+interface IPendingChange {
+  settled: boolean;
+  settle(accept: boolean): void;
+}
+
+/**
+ * Review of the edits proposed in one response.
+ */
+export class EditReview implements IDisposable {
+  private _notebook: Notebook;
+  private _host: HTMLElement;
+  private _bar: HTMLElement;
+  private _count: HTMLElement;
+  private _nodes: HTMLElement[] = [];
+  private _changes: IPendingChange[] = [];
+  /** Cells inserted so far per anchor id (`''` for the top), to keep their order */
+  private _inserted = new Map<string, number>();
+  /**
+   * Cell ids in document order while Accept All runs in one transaction;
+   * the notebook's cell widgets only follow once it ends.
+   */
+  private _order: string[] | null = null;
+  private _provenance: IProvenance | null;
+  private _isDisposed = false;
+
+  /**
+   * Show the review of `edits`, with the Accept All/Reject All bar in `host`.
+   */
+  constructor(
+    notebook: Notebook,
+    edits: ReadonlyArray<ICellEdit>,
+    host: HTMLElement,
+    provenance: IProvenance | null = null
+  ) {
+    this._notebook = notebook;
+    this._host = host;
+    this._provenance = provenance;
+
+    this._bar = document.createElement('div');
+    this._bar.className = 'ai-jup-edit-review-bar';
+    this._count = document.createElement('span');
+    this._count.className = 'ai-jup-edit-review-count';
+    const acceptAll = this._button('Accept All', 'Apply every remaining proposed edit', () =>
+      this.settleAll(true)
+    );
+    acceptAll.classList.add('ai-jup-edit-accept');
+    const rejectAll = this._button('Reject All', 'Discard every remaining proposed edit', () =>
+      this.settleAll(false)
+    );
+    this._bar.append(this._count, acceptAll, rejectAll);
+
+    let skipped = 0;
+    for (const edit of edits) {
+      if (!this._addEdit(edit)) {
+        skipped++;
+      }
+    }
+    if (skipped > 0) {
+      const note = document.createElement('span');
+      note.className = 'ai-jup-edit-review-skipped';
+      note.textContent = `${skipped} edit${skipped === 1 ? '' : 's'} for unknown cells skipped`;
+      this._bar.insertBefore(note, acceptAll);
+    }
+    host.appendChild(this._bar);
+    this._update();
+  }
+
+  /**
+   * Whether the review has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Number of changes still awaiting a decision.
+   */
+  get pending(): number {
+    return this._changes.filter(change => !change.settled).length;
+  }
+
+  /**
+   * Accept or reject every remaining change, in order.
+   */
+  settleAll(accept: boolean): void {
+    const settle = () => {
+      for (const change of this._changes) {
+        if (!change.settled) {
+          change.settle(accept);
+        }
+      }
+    };
+    const sharedModel = this._notebook.model?.sharedModel;
+    if (!accept || !sharedModel) {
+      settle();
+      return;
+    }
+    // Apply every change as one undoable step
+    this._order = this._notebook.widgets.map(cell => cell.model.id);
+    try {
+      sharedModel.transact(settle);
+    } finally {
+      this._order = null;
+    }
+  }
+
+  /**
+   * Remove the review without changing the notebook.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._bar.remove();
+    for (const node of this._nodes) {
+      node.remove();
+    }
+  }
+
+  /**
+   * Show one edit. Returns false when it targets a cell that does not exist.
+   */
+  private _addEdit(edit: ICellEdit): boolean {
+    switch (edit.action) {
+      case 'replace': {
+        const cell = this._findCell(edit.cellId);
+        if (!cell) {
+          return false;
+        }
+        this._addReplace(cell, edit.source);
+        return true;
+      }
+      case 'insert': {
+        const anchor =
+          edit.afterCellId === null ? this._notebook.widgets[0] : this._findCell(edit.afterCellId);
+        if (!anchor) {
+          return false;
+        }
+        this._addInsert(anchor, edit.afterCellId, edit.cellType, edit.source);
+        return true;
+      }
+      case 'delete': {
+        const cell = this._findCell(edit.cellId);
+        if (!cell) {
+          return false;
+        }
+        this._addDelete(cell);
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Show a replacement as hunks that are accepted or rejected one by one.
+   * Accepted hunks are applied to the source the edit was proposed against,
+   * so the order of decisions does not matter.
+   */
+  private _addReplace(cell: Cell, source: string): void {
+    const base = cell.model.sharedModel.getSource();
+    const hunks = computeHunks(base, source);
+    if (hunks.length === 0) {
+      return;
+    }
+    const accepted = hunks.map(() => false);
+    let expected = base;
+
+    const node = this._reviewNode(cell, 'Proposed change');
+    const oldLines = base.split('\n');
+    let line = 0;
+    const hunkChanges: IPendingChange[] = [];
+    hunks.forEach((hunk: IHunk, index: number) => {
+      node.appendChild(this._lines(oldLines.slice(line, hunk.oldStart), 'context'));
+      line = hunk.oldStart + hunk.oldLines.length;
+
+      const block = document.createElement('div');
+      block.className = 'ai-jup-edit-hunk';
+      block.append(this._lines(hunk.oldLines, 'remove'), this._lines(hunk.newLines, 'add'));
+      const change = this._change(block, accept => {
+        if (cell.isDisposed || cell.model.sharedModel.getSource() !== expected) {
+          this._conflict(node, hunkChanges);
+          return;
+        }
+        accepted[index] = accept;
+        if (accept) {
+          expected = applyHunks(base, hunks, accepted);
+          cell.model.sharedModel.setSource(expected);
+          if (this._provenance) {
+            const metadata = (cell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as Record<string, unknown>;
+            cell.model.setMetadata(PROMPT_METADATA_KEY, { ...metadata, provenance: this._provenance });
+          }
+        }
+        if (hunkChanges.every(c => c.settled)) {
+          node.remove();
+        }
+      });
+      hunkChanges.push(change);
+      node.appendChild(block);
+    });
+    node.appendChild(this._lines(oldLines.slice(line), 'context'));
+  }
+
+  /**
+   * Show a new cell below its anchor (or above the first cell).
+   */
+  private _addInsert(
+    anchor: Cell,
+    afterCellId: string | null,
+    cellType: 'code' | 'markdown',
+    source: string
+  ): void {
+    const node = this._reviewNode(
+      anchor,
+      afterCellId === null
+        ? `New ${cellType} cell at the top of the notebook`
+        : `New ${cellType} cell below this one`
+    );
+    const block = document.createElement('div');
+    block.className = 'ai-jup-edit-hunk';
+    block.appendChild(this._lines(source.split('\n'), 'add'));
+    node.appendChild(block);
+
+    this._change(block, accept => {
+      node.remove();
+      const sharedModel = this._notebook.model?.sharedModel;
+      if (!accept || !sharedModel) {
+        return;
+      }
+      const key = afterCellId ?? '';
+      const anchorIndex = afterCellId === null ? -1 : this._indexOf(afterCellId);
+      if (afterCellId !== null && anchorIndex < 0) {
+        return;
+      }
+      const offset = this._inserted.get(key) ?? 0;
+      const index = anchorIndex + 1 + offset;
+      const inserted = sharedModel.insertCell(index, {
+        cell_type: cellType,
+        source,
+        metadata: this._provenance ? { [PROMPT_METADATA_KEY]: { provenance: this._provenance } } : {}
+      });
+      this._order?.splice(index, 0, inserted.id);
+      this._inserted.set(key, offset + 1);
+    });
+  }
+
+  /**
+   * Show a cell deletion.
+   */
+  private _addDelete(cell: Cell): void {
+    const node = this._reviewNode(cell, 'Delete this cell');
+    const block = document.createElement('div');
+    block.className = 'ai-jup-edit-hunk';
+    block.appendChild(this._lines(cell.model.sharedModel.getSource().split('\n'), 'remove'));
+    node.appendChild(block);
+
+    const id = cell.model.id;
+    this._change(block, accept => {
+      node.remove();
+      const index = this._indexOf(id);
+      if (accept && index >= 0) {
+        this._notebook.model?.sharedModel.deleteCell(index);
+        this._order?.splice(index, 1);
+      }
+    });
+  }
+
+  /**
+   * Register a pending change with Accept/Reject buttons in `block`.
+   */
+  private _change(block: HTMLElement, apply: (accept: boolean) => void): IPendingChange {
+    const actions = document.createElement('div');
+    actions.className = 'ai-jup-edit-actions';
+    const change: IPendingChange = {
+      settled: false,
+      settle: (accept: boolean) => {
+        if (change.settled) {
+          return;
+        }
+        change.settled = true;
+        actions.remove();
+        block.classList.add(accept ? 'ai-jup-edit-accepted' : 'ai-jup-edit-rejected');
+        apply(accept);
+        this._update();
+      }
+    };
+    const accept = this._button('Accept', 'Apply this change', () => change.settle(true));
+    accept.classList.add('ai-jup-edit-accept');
+    const reject = this._button('Reject', 'Discard this change', () => change.settle(false));
+    actions.append(accept, reject);
+    block.appendChild(actions);
+    this._changes.push(change);
+    return change;
+  }
+
+  /**
+   * Drop the remaining hunks of a cell that was edited after the change
+   * was proposed.
+   */
+  private _conflict(node: HTMLElement, changes: IPendingChange[]): void {
+    for (const change of changes) {
+      change.settled = true;
+    }
+    node.querySelectorAll('.ai-jup-edit-actions').forEach(actions => actions.remove());
+    const message = document.createElement('div');
+    message.className = 'ai-jup-edit-conflict';
+    message.textContent = 'The cell changed after this edit was proposed; the edit was not applied.';
+    node.appendChild(message);
+    this._update();
+  }
+
+  /**
+   * Refresh the pending count, removing the bar once nothing is left.
+   */
+  private _update(): void {
+    const pending = this.pending;
+    if (pending === 0) {
+      this._bar.remove();
+      return;
+    }
+    this._count.textContent = `${pending} proposed change${pending === 1 ? '' : 's'}`;
+    if (!this._bar.isConnected) {
+      this._host.appendChild(this._bar);
+    }
+  }
+
+  private _reviewNode(cell: Cell, title: string): HTMLElement {
+    const node = document.createElement('div');
+    node.className = 'ai-jup-edit-review';
+    const header = document.createElement('div');
+    header.className = 'ai-jup-edit-review-title';
+    header.textContent = title;
+    node.appendChild(header);
+    cell.node.appendChild(node);
+    this._nodes.push(node);
+    return node;
+  }
+
+  private _lines(lines: string[], type: 'context' | 'add' | 'remove'): HTMLElement {
+    const pre = document.createElement('pre');
+    pre.className = `ai-jup-diff-${type}`;
+    const marker = type === 'add' ? '+ ' : type === 'remove' ? '- ' : '  ';
+    pre.textContent = lines.map(text => marker + text).join('\n');
+    pre.hidden = lines.length === 0;
+    return pre;
+  }
+
+  private _button(label: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'jp-mod-styled ai-jup-edit-button';
+    button.textContent = label;
+    button.title = title;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private _findCell(id: string): Cell | undefined {
+    return this._notebook.widgets.find(cell => cell.model.id === id);
+  }
+
+  private _indexOf(id: string): number {
+    if (this._order) {
+      return this._order.indexOf(id);
+    }
+    return this._notebook.widgets.findIndex(cell => cell.model.id === id);
+  }
+}
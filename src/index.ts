@@ -8,6 +8,7 @@
  */
 
 import {
+  ILayoutRestorer,
   JupyterFrontEnd,
   JupyterFrontEndPlugin
 } from '@jupyterlab/application';
@@ -15,21 +16,50 @@ import {
 import { INotebookTracker, NotebookPanel, INotebookWidgetFactory, NotebookWidgetFactory } from '@jupyterlab/notebook';
 import { ICommandPalette, ToolbarButton, IToolbarWidgetRegistry } from '@jupyterlab/apputils';
 import { IMainMenu } from '@jupyterlab/mainmenu';
+import { EditorExtensionRegistry, IEditorExtensionRegistry } from '@jupyterlab/codemirror';
+import { ICellModel, ICodeCellModel, isCodeCellModel } from '@jupyterlab/cells';
+import { ICompletionProviderManager } from '@jupyterlab/completer';
+import { IRenderMimeRegistry } from '@jupyterlab/rendermime';
 import { ISettingRegistry } from '@jupyterlab/settingregistry';
 import { ITranslator } from '@jupyterlab/translation';
 import { addIcon } from '@jupyterlab/ui-components';
 import { PromptCellManager } from './promptCell';
-import { KernelConnector } from './kernelConnector';
-import { SettingsManager } from './settings';
+import { KernelConnectorFactory } from './kernelConnector';
+import { VariableSummarizerRegistry } from './variableSummarizers';
+import { ModelsService } from './modelsService';
+import { SettingsManager, getProviderConfig } from './settings';
 import { CustomCellTypeSwitcher } from './cellTypeSwitcher';
+import { promptHighlighter } from './promptHighlighter';
+import { PromptCompletionProvider, referenceOpenTrigger } from './promptCompleter';
+import { hasErrorOutput } from './cellFix';
+import { ChatPanel } from './chatPanel';
+import { convertedFrom, readConversion } from './conversions';
 import {
   IPromptCellManager,
   IExtensionSettings,
-  IKernelConnectorFactory
+  IKernelConnectorFactory,
+  IModelsService,
+  IVariableSummarizerRegistry
 } from './tokens';
 
 const PLUGIN_ID = 'ai-jup:plugin';
 
+/**
+ * Check if a cell model is a prompt cell.
+ */
+const isPromptCellModel = (model: ICellModel): boolean => {
+  const metadata = model.getMetadata('ai_jup') as { isPromptCell?: boolean } | undefined;
+  return metadata?.isPromptCell === true;
+};
+
+/**
+ * Get the cell model edited by an editor, or null for non-cell editors.
+ */
+const getEditorCellModel = (model: unknown): ICellModel | null =>
+  typeof (model as Partial<ICellModel>).getMetadata === 'function'
+    ? (model as ICellModel)
+    : null;
+
 /**
  * Settings plugin that provides IExtensionSettings.
  */
@@ -57,6 +87,46 @@ const settingsPlugin: JupyterFrontEndPlugin<IExtensionSettings> = {
   }
 };
 
+/**
+ * Variable summarizer registry plugin.
+ */
+const variableSummarizersPlugin: JupyterFrontEndPlugin<IVariableSummarizerRegistry> = {
+  id: 'ai-jup:variable-summarizers',
+  description: 'Provides type-specific summarizers for kernel variables',
+  autoStart: true,
+  provides: IVariableSummarizerRegistry,
+  activate: (): IVariableSummarizerRegistry => {
+    return new VariableSummarizerRegistry();
+  }
+};
+
+/**
+ * Models service plugin, listing the models offered by the server.
+ */
+const modelsPlugin: JupyterFrontEndPlugin<IModelsService> = {
+  id: 'ai-jup:models',
+  description: 'Provides the models offered by the server',
+  autoStart: true,
+  requires: [IExtensionSettings],
+  provides: IModelsService,
+  activate: (app: JupyterFrontEnd, settings: IExtensionSettings): IModelsService => {
+    const models = new ModelsService(settings);
+    void models.refresh();
+    // List the models of the new provider when it changes
+    if (settings instanceof SettingsManager) {
+      let provider = JSON.stringify(getProviderConfig(settings));
+      settings.settingsChanged.connect(() => {
+        const current = JSON.stringify(getProviderConfig(settings));
+        if (current !== provider) {
+          provider = current;
+          void models.refresh();
+        }
+      });
+    }
+    return models;
+  }
+};
+
 /**
  * Kernel connector factory plugin.
  */
@@ -64,11 +134,13 @@ const kernelConnectorPlugin: JupyterFrontEndPlugin<IKernelConnectorFactory> = {
   id: 'ai-jup:kernel-connector',
   description: 'Provides kernel connector factory',
   autoStart: true,
+  requires: [IVariableSummarizerRegistry],
   provides: IKernelConnectorFactory,
-  activate: (): IKernelConnectorFactory => {
-    return {
-      create: (sessionContext: unknown) => new KernelConnector(sessionContext as import('@jupyterlab/apputils').ISessionContext)
-    };
+  activate: (
+    app: JupyterFrontEnd,
+    summarizers: IVariableSummarizerRegistry
+  ): IKernelConnectorFactory => {
+    return new KernelConnectorFactory(summarizers);
   }
 };
 
@@ -80,13 +152,22 @@ const promptCellManagerPlugin: JupyterFrontEndPlugin<IPromptCellManager> = {
   description: 'Manages AI prompt cells',
   autoStart: true,
   requires: [IExtensionSettings],
+  optional: [IModelsService, IRenderMimeRegistry],
   provides: IPromptCellManager,
   activate: (
     app: JupyterFrontEnd,
-    settings: IExtensionSettings
+    settings: IExtensionSettings,
+    models: IModelsService | null,
+    rendermime: IRenderMimeRegistry | null
   ): IPromptCellManager => {
     const manager = new PromptCellManager();
     manager.setSettings(settings);
+    if (models) {
+      manager.setModelsService(models);
+    }
+    if (rendermime) {
+      manager.setRenderMime(rendermime);
+    }
     return manager;
   }
 };
@@ -138,6 +219,174 @@ const mainPlugin: JupyterFrontEndPlugin<void> = {
       }
     });
 
+    // Command to run a prompt that proposes edits to existing cells
+    const proposeEditsCommand = 'ai-jup:propose-edits';
+    app.commands.addCommand(proposeEditsCommand, {
+      label: 'Run AI Prompt as Cell Edits',
+      caption: 'Execute the current prompt cell and review the proposed cell edits inline',
+      execute: async () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        await promptCellManager.proposeCellEdits(panel);
+      }
+    });
+
+    // Commands to run code and prompt cells in order, like Run All
+    const runAllPromptsCommand = 'ai-jup:run-all-prompts';
+    app.commands.addCommand(runAllPromptsCommand, {
+      label: 'Run All Cells and Prompts',
+      caption: 'Run every code cell and AI prompt in order, waiting for each response',
+      execute: async () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        await promptCellManager.runPrompts(panel, 'all');
+      }
+    });
+
+    const runPromptsAboveCommand = 'ai-jup:run-prompts-above';
+    app.commands.addCommand(runPromptsAboveCommand, {
+      label: 'Run Cells and Prompts Above',
+      caption: 'Run the code cells and AI prompts above the active cell in order',
+      execute: async () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        await promptCellManager.runPrompts(panel, 'above');
+      }
+    });
+
+    const runPromptsBelowCommand = 'ai-jup:run-prompts-below';
+    app.commands.addCommand(runPromptsBelowCommand, {
+      label: 'Run Selected Cell and Prompts Below',
+      caption: 'Run the active cell and the code cells and AI prompts below it in order',
+      execute: async () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        await promptCellManager.runPrompts(panel, 'below');
+      }
+    });
+
+    // Command to regenerate a response in place
+    const regeneratePromptCommand = 'ai-jup:regenerate-prompt';
+    app.commands.addCommand(regeneratePromptCommand, {
+      label: 'Regenerate AI Response',
+      caption: 'Replace the response of the current prompt cell, keeping earlier responses as variants',
+      execute: async () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        await promptCellManager.regeneratePromptCell(panel);
+      }
+    });
+
+    // Command to stop a streaming prompt response
+    const stopPromptCommand = 'ai-jup:stop-prompt';
+    app.commands.addCommand(stopPromptCommand, {
+      label: 'Stop AI Prompt',
+      caption: 'Stop the response being generated for the current prompt cell',
+      execute: () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        promptCellManager.stopPromptCell(panel);
+      }
+    });
+
+    // Whether the active cell is a code cell whose last run raised an error
+    const activeCellHasError = (): boolean => {
+      const model = notebookTracker.activeCell?.model;
+      return !!model && isCodeCellModel(model) && hasErrorOutput(model.outputs);
+    };
+
+    // Commands to explain the error of a failed cell or propose a fix; the
+    // cell toolbar shows them (with `toolbar: true`) on failed cells only
+    const explainErrorCommand = 'ai-jup:explain-error';
+    app.commands.addCommand(explainErrorCommand, {
+      label: args => (args.toolbar ? 'Explain Error' : 'Explain This Error'),
+      caption: 'Ask the AI what caused the error in the current cell',
+      isEnabled: activeCellHasError,
+      isVisible: args => !args.toolbar || activeCellHasError(),
+      execute: async () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        await promptCellManager.fixCell(panel, 'explain');
+      }
+    });
+
+    const fixCellCommand = 'ai-jup:fix-cell';
+    app.commands.addCommand(fixCellCommand, {
+      label: args => (args.toolbar ? 'Fix Cell' : 'Fix This Cell'),
+      caption: 'Ask the AI for a corrected version of the current cell',
+      isEnabled: activeCellHasError,
+      isVisible: args => !args.toolbar || activeCellHasError(),
+      execute: async () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        await promptCellManager.fixCell(panel, 'fix');
+      }
+    });
+
+    // Update the error actions when the active cell or its outputs change
+    let activeOutputs: ICodeCellModel['outputs'] | null = null;
+    const onActiveCellErrorChanged = () => {
+      app.commands.notifyCommandChanged(explainErrorCommand);
+      app.commands.notifyCommandChanged(fixCellCommand);
+    };
+    notebookTracker.activeCellChanged.connect(() => {
+      activeOutputs?.changed.disconnect(onActiveCellErrorChanged);
+      const model = notebookTracker.activeCell?.model;
+      activeOutputs = model && isCodeCellModel(model) ? model.outputs : null;
+      activeOutputs?.changed.connect(onActiveCellErrorChanged);
+      onActiveCellErrorChanged();
+    });
+
+    // Command to restore the response a group of cells was converted from
+    const revertConversionCommand = 'ai-jup:revert-conversion';
+    app.commands.addCommand(revertConversionCommand, {
+      label: 'Revert Conversion to Cells',
+      caption: 'Replace the cells converted from an AI response with the original response',
+      isEnabled: () => {
+        // The response may have been pruned on save, e.g. after an undo
+        const responseId = convertedFrom(notebookTracker.activeCell?.model.getMetadata('ai_jup'));
+        const metadata = notebookTracker.currentWidget?.content.model?.getMetadata('ai_jup');
+        return responseId !== null && readConversion(metadata, responseId) !== null;
+      },
+      execute: () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        promptCellManager.revertConversion(panel);
+      }
+    });
+
+    // Command to select every cell written by the AI
+    const selectAIGeneratedCommand = 'ai-jup:select-ai-generated';
+    app.commands.addCommand(selectAIGeneratedCommand, {
+      label: 'Select AI-Generated Cells',
+      caption: 'Select the cells written by the AI in the current notebook',
+      execute: () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          return;
+        }
+        promptCellManager.selectAIGenerated(panel);
+      }
+    });
+
     // Add keyboard shortcuts
     app.commands.addKeyBinding({
       command: insertPromptCommand,
@@ -165,6 +414,12 @@ const mainPlugin: JupyterFrontEndPlugin<void> = {
       selector: '.jp-Notebook.jp-mod-commandMode .jp-Cell.jp-mod-selected.ai-jup-prompt-cell'
     });
 
+    app.commands.addKeyBinding({
+      command: stopPromptCommand,
+      keys: ['Accel Shift .'],
+      selector: '.jp-Notebook'
+    });
+
     // Add to command palette
     if (palette) {
       palette.addItem({
@@ -175,13 +430,65 @@ const mainPlugin: JupyterFrontEndPlugin<void> = {
         command: runPromptCommand,
         category: 'AI'
       });
+      palette.addItem({
+        command: proposeEditsCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: regeneratePromptCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: runAllPromptsCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: runPromptsAboveCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: runPromptsBelowCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: stopPromptCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: explainErrorCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: fixCellCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: revertConversionCommand,
+        category: 'AI'
+      });
+      palette.addItem({
+        command: selectAIGeneratedCommand,
+        category: 'AI'
+      });
     }
 
-    // Add to Edit menu
+    // Add to the Edit and Run menus
     if (mainMenu) {
       mainMenu.editMenu.addGroup([
         { command: insertPromptCommand },
-        { command: runPromptCommand }
+        { command: runPromptCommand },
+        { command: proposeEditsCommand },
+        { command: regeneratePromptCommand },
+        { command: stopPromptCommand },
+        { command: explainErrorCommand },
+        { command: fixCellCommand },
+        { command: revertConversionCommand },
+        { command: selectAIGeneratedCommand }
+      ], 20);
+      mainMenu.runMenu.addGroup([
+        { command: runAllPromptsCommand },
+        { command: runPromptsAboveCommand },
+        { command: runPromptsBelowCommand }
       ], 20);
     }
 
@@ -259,4 +566,147 @@ const cellTypeSwitcherPlugin: JupyterFrontEndPlugin<void> = {
   }
 };
 
-export default [settingsPlugin, kernelConnectorPlugin, promptCellManagerPlugin, cellTypeSwitcherPlugin, mainPlugin];
+/**
+ * Plugin that highlights $`variable` and &`function` references in prompt cells.
+ */
+const promptHighlighterPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'ai-jup:prompt-highlighter',
+  description: 'Highlights variable and function references in prompt cells',
+  autoStart: true,
+  requires: [IEditorExtensionRegistry, INotebookTracker, IPromptCellManager, IExtensionSettings],
+  activate: (
+    app: JupyterFrontEnd,
+    extensions: IEditorExtensionRegistry,
+    notebookTracker: INotebookTracker,
+    promptCellManager: IPromptCellManager,
+    settings: IExtensionSettings
+  ) => {
+    // Find the notebook that owns a cell model; editors cache the result
+    const findPanel = (model: ICellModel): NotebookPanel | null =>
+      notebookTracker.find(panel => {
+        const cells = panel.content.model?.cells;
+        return !!cells && Array.from(cells).includes(model);
+      }) ?? null;
+
+    extensions.addExtension({
+      name: 'ai-jup:prompt-highlighter',
+      factory: options => {
+        const cellModel = getEditorCellModel(options.model);
+        if (!cellModel) {
+          return null;
+        }
+        let panel: NotebookPanel | null = null;
+        return EditorExtensionRegistry.createImmutableExtension(
+          promptHighlighter({
+            isPromptCell: () => isPromptCellModel(cellModel),
+            promptCellChanged: cellModel.metadataChanged,
+            getNamespace: () => {
+              panel = panel ?? findPanel(cellModel);
+              return panel ? promptCellManager.getNamespace(panel) : null;
+            },
+            allowExpressions: () => settings.allowExpressions
+          })
+        );
+      }
+    });
+  }
+};
+
+/**
+ * Plugin that completes kernel names inside $`...` and &`...` references.
+ */
+const promptCompleterPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'ai-jup:prompt-completer',
+  description: 'Completes kernel variables and functions in prompt cells',
+  autoStart: true,
+  requires: [ICompletionProviderManager, IEditorExtensionRegistry, INotebookTracker, IPromptCellManager],
+  activate: (
+    app: JupyterFrontEnd,
+    completionManager: ICompletionProviderManager,
+    extensions: IEditorExtensionRegistry,
+    notebookTracker: INotebookTracker,
+    promptCellManager: IPromptCellManager
+  ) => {
+    completionManager.registerProvider(
+      new PromptCompletionProvider(notebookTracker, promptCellManager)
+    );
+
+    // Open the completer as soon as $` or &` is typed
+    extensions.addExtension({
+      name: 'ai-jup:prompt-completer-trigger',
+      factory: options => {
+        const cellModel = getEditorCellModel(options.model);
+        if (!cellModel) {
+          return null;
+        }
+        return EditorExtensionRegistry.createImmutableExtension(
+          referenceOpenTrigger(
+            () => isPromptCellModel(cellModel),
+            () => void app.commands.execute('completer:invoke-notebook')
+          )
+        );
+      }
+    });
+  }
+};
+
+/**
+ * Plugin that adds the sidebar chat about the active notebook.
+ */
+const chatPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'ai-jup:chat',
+  description: 'Adds a sidebar chat with the whole notebook as context',
+  autoStart: true,
+  requires: [INotebookTracker, IPromptCellManager, IExtensionSettings, IRenderMimeRegistry],
+  optional: [ICommandPalette, ILayoutRestorer, IModelsService],
+  activate: (
+    app: JupyterFrontEnd,
+    notebookTracker: INotebookTracker,
+    promptCellManager: IPromptCellManager,
+    settings: IExtensionSettings,
+    rendermime: IRenderMimeRegistry,
+    palette: ICommandPalette | null,
+    restorer: ILayoutRestorer | null,
+    models: IModelsService | null
+  ) => {
+    const chat = new ChatPanel({
+      tracker: notebookTracker,
+      manager: promptCellManager,
+      settings,
+      rendermime,
+      models
+    });
+    app.shell.add(chat, 'right', { rank: 1000 });
+    if (restorer) {
+      restorer.add(chat, chat.id);
+    }
+
+    const openChatCommand = 'ai-jup:open-chat';
+    app.commands.addCommand(openChatCommand, {
+      label: 'Open AI Chat',
+      caption: 'Chat about the current notebook without adding cells to it',
+      execute: () => {
+        app.shell.activateById(chat.id);
+      }
+    });
+    if (palette) {
+      palette.addItem({
+        command: openChatCommand,
+        category: 'AI'
+      });
+    }
+  }
+};
+
+export default [
+  settingsPlugin,
+  variableSummarizersPlugin,
+  modelsPlugin,
+  kernelConnectorPlugin,
+  promptCellManagerPlugin,
+  cellTypeSwitcherPlugin,
+  promptHighlighterPlugin,
+  promptCompleterPlugin,
+  chatPlugin,
+  mainPlugin
+];
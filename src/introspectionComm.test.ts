@@ -0,0 +1,62 @@
+/**
+ * Tests for the introspection comm channel.
+ */
+
+import type { Kernel, KernelMessage } from '@jupyterlab/services';
+import { IntrospectionComm } from './introspectionComm';
+
+function createKernel() {
+  const comm = {
+    isDisposed: false,
+    onMsg: null as ((msg: KernelMessage.ICommMsgMsg) => void) | null,
+    open: jest.fn(() => ({ done: Promise.resolve() })),
+    close: jest.fn(),
+    send: jest.fn()
+  };
+  const fake = {
+    statusChanged: { connect: jest.fn(), disconnect: jest.fn() },
+    createComm: jest.fn(() => comm as unknown as Kernel.IComm)
+  };
+  const kernel = fake as unknown as Kernel.IKernelConnection;
+  const reply = (data: object) => comm.onMsg?.({ content: { data } } as unknown as KernelMessage.ICommMsgMsg);
+  return { kernel, fake, comm, reply };
+}
+
+describe('IntrospectionComm', () => {
+  it('should match replies to requests by id', async () => {
+    const { kernel, comm, reply } = createKernel();
+    const channel = await IntrospectionComm.open(kernel);
+
+    const first = channel.request('list_namespace');
+    const second = channel.request('introspect', { variables: ['x'], functions: [] });
+    expect(comm.send).toHaveBeenCalledWith({ id: '0', method: 'list_namespace', params: {} });
+
+    reply({ id: '1', result: 'second' });
+    reply({ id: '0', result: 'first' });
+    await expect(first).resolves.toBe('first');
+    await expect(second).resolves.toBe('second');
+  });
+
+  it('should reject with the kernel-side error', async () => {
+    const { kernel, reply } = createKernel();
+    const channel = await IntrospectionComm.open(kernel);
+
+    const request = channel.request('list_namespace');
+    reply({ id: '0', error: 'NameError: boom' });
+    await expect(request).rejects.toThrow('NameError: boom');
+  });
+
+  it('should reject pending requests when the kernel restarts', async () => {
+    const { kernel, fake, comm } = createKernel();
+    const channel = await IntrospectionComm.open(kernel);
+    const request = channel.request('list_namespace');
+
+    const [onStatus, owner] = fake.statusChanged.connect.mock.calls[0];
+    onStatus.call(owner, kernel, 'restarting');
+
+    await expect(request).rejects.toThrow('Introspection comm closed');
+    expect(channel.isDisposed).toBe(true);
+    expect(comm.close).toHaveBeenCalled();
+    await expect(channel.request('list_namespace')).rejects.toThrow('closed');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Comm channel for kernel introspection.
+ *
+ * Requests and replies travel as structured comm messages instead of
+ * source code whose printed output is scraped from stdout, so user code
+ * or import hooks that print cannot corrupt the reply.
+ */
+
+import { Kernel, KernelMessage } from '@jupyterlab/services';
+import { JSONObject } from '@lumino/coreutils';
+
+/**
+ * Target name registered in the kernel for the introspection comm.
+ */
+export const COMM_TARGET = 'ai_jup';
+
+/**
+ * Methods handled by the kernel side of the comm.
+ */
+export type IntrospectionMethod = 'introspect' | 'list_namespace';
+
+/**
+ * A reply from the kernel, matched to its request by `id`.
+ */
+interface ICommReply {
+  id: string;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * A request waiting for its reply.
+ */
+interface IPendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Client side of the `ai_jup` comm. The kernel must already have the
+ * comm target registered (see KernelConnector).
+ */
+export class IntrospectionComm {
+  private _kernel: Kernel.IKernelConnection;
+  private _comm: Kernel.IComm;
+  private _pending = new Map<string, IPendingRequest>();
+  private _nextId = 0;
+  private _isDisposed = false;
+
+  private constructor(kernel: Kernel.IKernelConnection, comm: Kernel.IComm) {
+    this._kernel = kernel;
+    this._comm = comm;
+    comm.onMsg = msg => this._onMsg(msg);
+    comm.onClose = () => this.dispose();
+    kernel.statusChanged.connect(this._onStatusChanged, this);
+  }
+
+  /**
+   * Open a comm to the registered target on a kernel.
+   */
+  static async open(kernel: Kernel.IKernelConnection): Promise<IntrospectionComm> {
+    const comm = kernel.createComm(COMM_TARGET);
+    const channel = new IntrospectionComm(kernel, comm);
+    try {
+      await comm.open().done;
+    } catch (e) {
+      channel.dispose();
+      throw e;
+    }
+    return channel;
+  }
+
+  /**
+   * The kernel this comm is connected to.
+   */
+  get kernel(): Kernel.IKernelConnection {
+    return this._kernel;
+  }
+
+  /**
+   * Whether the comm has been closed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Send a request and wait for the matching reply.
+   * Rejects with the kernel-side error, or when the comm closes first.
+   */
+  request<T>(method: IntrospectionMethod, params: JSONObject = {}): Promise<T> {
+    if (this._isDisposed) {
+      return Promise.reject(new Error('Introspection comm is closed'));
+    }
+    const id = String(this._nextId++);
+    return new Promise<T>((resolve, reject) => {
+      this._pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      this._comm.send({ id, method, params });
+    });
+  }
+
+  /**
+   * Close the comm and reject any outstanding requests.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._kernel.statusChanged.disconnect(this._onStatusChanged, this);
+    if (!this._comm.isDisposed) {
+      try {
+        this._comm.close();
+      } catch {
+        // The kernel may already be gone
+      }
+    }
+    for (const pending of this._pending.values()) {
+      pending.reject(new Error('Introspection comm closed'));
+    }
+    this._pending.clear();
+  }
+
+  private _onMsg(msg: KernelMessage.ICommMsgMsg): void {
+    const reply = msg.content.data as unknown as ICommReply;
+    const pending = this._pending.get(reply.id);
+    if (!pending) {
+      return;
+    }
+    this._pending.delete(reply.id);
+    if (reply.error !== undefined) {
+      pending.reject(new Error(reply.error));
+    } else {
+      pending.resolve(reply.result);
+    }
+  }
+
+  /**
+   * The comm target does not survive a restart, so close on restart.
+   */
+  private _onStatusChanged(kernel: Kernel.IKernelConnection, status: Kernel.Status): void {
+    if (status === 'restarting' || status === 'autorestarting' || status === 'dead') {
+      this.dispose();
+    }
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Language adapter for JavaScript and TypeScript kernels (Deno, tslab).
+ *
+ * Code runs as a top-level block so that direct `eval` sees the notebook's
+ * `let`/`const` declarations while the helpers stay block-scoped. Evaluation
+ * goes through `__aiJupEval`, whose only local is prefixed, so helper locals
+ * never shadow user names.
+ */
+
+import { IIntrospectionRequest, ILanguageAdapter } from './tokens';
+
+/**
+ * JavaScript introspection helpers. Variables get a type name, an inspected
+ * repr and a summary for arrays and typed arrays; functions are described
+ * from their source, which is also sent in place of a docstring.
+ */
+const JS_INTROSPECTION = `
+const __aiJupEval = (__aiJupExpr) => eval(__aiJupExpr);
+const __aiJupTypeName = (v) =>
+  v === null ? "null"
+    : Array.isArray(v) ? "Array"
+    : typeof v === "object" ? (v.constructor && v.constructor.name) || "Object"
+    : typeof v;
+const __aiJupRepr = (v) => {
+  try {
+    if (typeof Deno !== "undefined") return Deno.inspect(v);
+    if (typeof require === "function") return require("util").inspect(v);
+  } catch (e) {}
+  return String(v);
+};
+const __aiJupSummarize = (v) => {
+  const typed = ArrayBuffer.isView(v) && !(v instanceof DataView);
+  if (!Array.isArray(v) && !typed) return null;
+  const dtype = typed
+    ? v.constructor.name
+    : [...new Set(Array.from(v.slice(0, 1000), __aiJupTypeName))].join(" | ");
+  const summary = { kind: "array", shape: [v.length], dtype };
+  let min = Infinity, max = -Infinity;
+  for (const x of v) {
+    if (typeof x === "number" && Number.isFinite(x)) {
+      if (x < min) min = x;
+      if (x > max) max = x;
+    }
+  }
+  if (min <= max) {
+    summary.min = min;
+    summary.max = max;
+  }
+  return summary;
+};
+const __aiJupSplitParams = (text) => {
+  const params = [];
+  let depth = 0, current = "";
+  for (const ch of text) {
+    if ("([{".includes(ch)) depth++;
+    if (")]}".includes(ch)) depth--;
+    if (ch === "," && depth === 0) {
+      params.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) params.push(current.trim());
+  return params;
+};
+const __aiJupParamText = (source) => {
+  const arrow = source.match(/^\\s*(?:async\\s+)?([A-Za-z_$][\\w$]*)\\s*=>/);
+  if (arrow) return arrow[1];
+  const start = source.indexOf("(");
+  let depth = 0;
+  for (let i = start; i >= 0 && i < source.length; i++) {
+    if (source[i] === "(") depth++;
+    if (source[i] === ")" && --depth === 0) return source.slice(start + 1, i);
+  }
+  return "";
+};
+const __aiJupVariableInfo = (expr) => {
+  const v = __aiJupEval(expr);
+  const info = { name: expr, type: __aiJupTypeName(v), repr: __aiJupRepr(v).slice(0, 500) };
+  try {
+    const summary = __aiJupSummarize(v);
+    if (summary) info.summary = summary;
+  } catch (e) {}
+  return info;
+};
+const __aiJupFunctionInfo = (name) => {
+  const f = __aiJupEval(name);
+  if (typeof f !== "function") throw new TypeError(name + " is not a function");
+  const source = Function.prototype.toString.call(f);
+  const params = __aiJupSplitParams(__aiJupParamText(source));
+  const parameters = {};
+  for (const param of params) {
+    const [pname, ...rest] = param.split("=");
+    const key = pname.trim();
+    if (!/^[A-Za-z_$][\\w$]*$/.test(key)) continue;
+    parameters[key] = { type: "string", description: key };
+    if (rest.length) parameters[key].default = rest.join("=").trim();
+  }
+  return {
+    name,
+    signature: "(" + params.join(", ") + ")",
+    docstring: source.slice(0, 500),
+    parameters,
+    return_type: null
+  };
+};`;
+
+/**
+ * JavaScript adapter. Deno ignores `silent`, and other kernels may drop
+ * output of silent requests, so code is run non-silently.
+ */
+export const javascriptAdapter: ILanguageAdapter = {
+  id: 'javascript',
+  languages: ['javascript', 'typescript'],
+  silent: false,
+  fenceLanguages: ['javascript', 'js', 'typescript', 'ts', 'jsx', 'tsx'],
+  shellCellMagic: null,
+
+  introspectionCode(request: IIntrospectionRequest): string {
+    return `{
+${JS_INTROSPECTION}
+const __aiJupRequest = JSON.parse(${JSON.stringify(JSON.stringify(request))});
+const __aiJupReply = { variables: {}, functions: {}, errors: { variables: {}, functions: {} } };
+for (const [kind, info] of [["variables", __aiJupVariableInfo], ["functions", __aiJupFunctionInfo]]) {
+  for (const ref of __aiJupRequest[kind]) {
+    try {
+      __aiJupReply[kind][ref] = info(ref);
+    } catch (e) {
+      __aiJupReply.errors[kind][ref] = e && e.name ? e.name + ": " + e.message : String(e);
+    }
+  }
+}
+console.log(JSON.stringify(__aiJupReply));
+}`;
+  },
+
+  /**
+   * Arguments are passed positionally in the order of `parameterNames`,
+   * or in the order given when no names are known.
+   */
+  toolCallCode(name: string, args: Record<string, unknown>, parameterNames: string[]): string {
+    return `(() => {
+const __aiJupArgs = JSON.parse(${JSON.stringify(JSON.stringify(args))});
+const __aiJupParams = ${JSON.stringify(parameterNames)};
+return eval(${JSON.stringify(name)})(...(__aiJupParams.length ? __aiJupParams.map((p) => __aiJupArgs[p]) : Object.values(__aiJupArgs)));
+})()`;
+  },
+
+  /**
+   * Top-level `let`/`const` bindings cannot be enumerated, so names are
+   * not listed and references are never flagged as undefined.
+   */
+  namespaceCode(): null {
+    return null;
+  }
+};
@@ -0,0 +1,184 @@
+/**
+ * Tests for batched kernel introspection.
+ */
+
+import type { ISessionContext } from '@jupyterlab/apputils';
+import type { Kernel, KernelMessage } from '@jupyterlab/services';
+import { KernelConnector } from './kernelConnector';
+import type { IIntrospectionResult } from './tokens';
+
+/**
+ * Create a fake comm whose kernel side answers each request with `reply`.
+ */
+function createComm(reply: (data: { id: string }) => unknown) {
+  const comm = {
+    isDisposed: false,
+    onMsg: null as ((msg: KernelMessage.ICommMsgMsg) => void) | null,
+    onClose: null as (() => void) | null,
+    open: jest.fn(() => ({ done: Promise.resolve() })),
+    close: jest.fn(() => {
+      comm.isDisposed = true;
+    }),
+    send: jest.fn((data: { id: string }) => {
+      Promise.resolve().then(() =>
+        comm.onMsg?.({
+          content: { data: { id: data.id, ...(reply(data) as object) } }
+        } as unknown as KernelMessage.ICommMsgMsg)
+      );
+    })
+  };
+  return comm;
+}
+
+function createKernel(comm?: ReturnType<typeof createComm>) {
+  return {
+    statusChanged: { connect: jest.fn(), disconnect: jest.fn() },
+    createComm: jest.fn(() => comm as unknown as Kernel.IComm)
+  };
+}
+
+function createConnector(output: string, kernel: object | null = createKernel(), registration = ''): {
+  connector: KernelConnector;
+  executeAndCapture: jest.Mock;
+} {
+  const session = {
+    session: kernel ? { kernel: kernel as unknown as Kernel.IKernelConnection } : null
+  } as unknown as ISessionContext;
+  const connector = new KernelConnector(session);
+  const executeAndCapture = jest.fn(async (code: string) =>
+    code.includes('_ai_jup_register_comm') ? registration : output
+  );
+  connector.executeAndCapture = executeAndCapture;
+  return { connector, executeAndCapture };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const REPLY: IIntrospectionResult = {
+  variables: { df: { name: 'df', type: 'DataFrame', repr: 'df repr' } },
+  functions: {},
+  errors: { variables: { 'df.foo': "AttributeError: no attribute 'foo'" }, functions: { f: 'NameError: f' } }
+};
+
+describe('KernelConnector.introspect', () => {
+  it('should not execute anything for an empty request', async () => {
+    const { connector, executeAndCapture } = createConnector('');
+    const result = await connector.introspect({ variables: [], functions: [] });
+    expect(executeAndCapture).not.toHaveBeenCalled();
+    expect(result).toEqual({ variables: {}, functions: {}, errors: { variables: {}, functions: {} } });
+  });
+
+  it('should fall back to a single execution when the comm is unavailable', async () => {
+    const { connector, executeAndCapture } = createConnector(JSON.stringify(REPLY));
+    const result = await connector.introspect({ variables: ['df', 'df.foo'], functions: ['f'] });
+    expect(executeAndCapture).toHaveBeenCalledTimes(2);
+    expect(executeAndCapture.mock.calls[1][0]).toContain(
+      JSON.stringify(JSON.stringify({ variables: ['df', 'df.foo'], functions: ['f'] }))
+    );
+    expect(result).toEqual(REPLY);
+  });
+
+  it('should report every reference as failed when there is no output', async () => {
+    const { connector } = createConnector('', null);
+    const result = await connector.introspect({ variables: ['x'], functions: ['f'] });
+    expect(result.errors).toEqual({
+      variables: { x: 'Kernel not available' },
+      functions: { f: 'Kernel not available' }
+    });
+  });
+});
+
+describe('KernelConnector.getVariable', () => {
+  it('should return evaluation errors as error info', async () => {
+    const { connector } = createConnector(JSON.stringify(REPLY));
+    expect(await connector.getVariable('df.foo')).toEqual({
+      name: 'df.foo',
+      type: 'error',
+      repr: '',
+      error: "AttributeError: no attribute 'foo'"
+    });
+    expect(await connector.getVariable('df')).toEqual(REPLY.variables.df);
+  });
+});
+
+describe('KernelConnector comm introspection', () => {
+  it('should send requests over the comm once the target is registered', async () => {
+    const comm = createComm(() => ({ result: REPLY }));
+    const kernel = createKernel(comm);
+    const { connector, executeAndCapture } = createConnector('', kernel, 'ok');
+
+    expect(await connector.introspect({ variables: ['df'], functions: [] })).toEqual(REPLY);
+    expect(await connector.introspect({ variables: ['x'], functions: [] })).toEqual(REPLY);
+
+    expect(kernel.createComm).toHaveBeenCalledWith('ai_jup');
+    expect(kernel.createComm).toHaveBeenCalledTimes(1);
+    // Only the registration ran as code
+    expect(executeAndCapture).toHaveBeenCalledTimes(1);
+    expect(comm.send).toHaveBeenLastCalledWith({
+      id: '1',
+      method: 'introspect',
+      params: { variables: ['x'], functions: [] }
+    });
+  });
+
+  it('should fall back to stdout when a comm request fails', async () => {
+    const comm = createComm(() => ({ error: 'TypeError: not serializable' }));
+    const { connector, executeAndCapture } = createConnector(JSON.stringify(REPLY), createKernel(comm), 'ok');
+
+    expect(await connector.introspect({ variables: ['df'], functions: [] })).toEqual(REPLY);
+    expect(executeAndCapture).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reopen the comm after it closes', async () => {
+    const comm = createComm(() => ({ result: [] }));
+    const kernel = createKernel(comm);
+    const { connector } = createConnector('', kernel, 'ok');
+
+    await connector.listNamespace();
+    comm.onClose?.();
+    comm.isDisposed = false;
+    await connector.listNamespace();
+    expect(kernel.createComm).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('KernelConnector language adapters', () => {
+  function kernelFor(language: string) {
+    return { ...createKernel(), info: Promise.resolve({ language_info: { name: language } }) };
+  }
+
+  it('should run R introspection non-silently without a comm', async () => {
+    const kernel = kernelFor('R');
+    const { connector, executeAndCapture } = createConnector(JSON.stringify(REPLY), kernel);
+
+    expect(await connector.introspect({ variables: ['df'], functions: [] })).toEqual(REPLY);
+    expect(kernel.createComm).not.toHaveBeenCalled();
+    expect(executeAndCapture).toHaveBeenCalledTimes(1);
+    expect(executeAndCapture.mock.calls[0][0]).toContain('local({');
+    expect(executeAndCapture.mock.calls[0][1]).toBe(false);
+  });
+
+  it('should not list names for JavaScript kernels', async () => {
+    const { connector, executeAndCapture } = createConnector('[]', kernelFor('typescript'));
+
+    expect(await connector.listNamespace()).toBeNull();
+    expect(executeAndCapture).not.toHaveBeenCalled();
+  });
+
+  it('should report unsupported languages per reference', async () => {
+    const { connector, executeAndCapture } = createConnector('', kernelFor('julia'));
+
+    const result = await connector.introspect({ variables: ['x'], functions: ['f'] });
+    expect(result.errors).toEqual({
+      variables: { x: 'Introspection is not supported for julia kernels' },
+      functions: { f: 'Introspection is not supported for julia kernels' }
+    });
+    expect(executeAndCapture).not.toHaveBeenCalled();
+  });
+});
@@ -3,26 +3,46 @@
  */
 
 import { ISessionContext } from '@jupyterlab/apputils';
-import { KernelMessage } from '@jupyterlab/services';
+import { Kernel, KernelMessage } from '@jupyterlab/services';
 import {
   IKernelConnector,
   IKernelConnectorFactory,
   IVariableInfo,
-  IFunctionInfo
+  IFunctionInfo,
+  INamespaceEntry,
+  IIntrospectionRequest,
+  IIntrospectionResult,
+  ILanguageAdapter,
+  IVariableSummarizerRegistry
 } from './tokens';
+import { IntrospectionComm } from './introspectionComm';
+import { findLanguageAdapter } from './languageAdapters';
 
 export type { IVariableInfo as VariableInfo, IFunctionInfo as FunctionInfo };
 export type { IParameterInfo as ParameterInfo } from './tokens';
 
+/**
+ * Create an empty introspection result.
+ */
+function createIntrospectionResult(): IIntrospectionResult {
+  return { variables: {}, functions: {}, errors: { variables: {}, functions: {} } };
+}
+
 /**
  * Connects to a Jupyter kernel to introspect variables and functions.
  * Implements IKernelConnector for dependency injection.
  */
 export class KernelConnector implements IKernelConnector {
   private _session: ISessionContext;
+  private _summarizers: IVariableSummarizerRegistry | null;
+  private _comm: {
+    kernel: Kernel.IKernelConnection;
+    channel: Promise<IntrospectionComm | null>;
+  } | null = null;
 
-  constructor(session: ISessionContext) {
+  constructor(session: ISessionContext, summarizers: IVariableSummarizerRegistry | null = null) {
     this._session = session;
+    this._summarizers = summarizers;
   }
 
   /**
@@ -33,11 +53,13 @@ export class KernelConnector implements IKernelConnector {
   }
 
   /**
-   * Execute code silently and capture output.
+   * Execute code outside of the execution history and capture output.
+   * Pass `silent: false` for kernels that suppress output of silent requests.
    */
   async execute(
     code: string,
-    onOutput?: (msg: KernelMessage.IIOPubMessage) => void
+    onOutput?: (msg: KernelMessage.IIOPubMessage) => void,
+    silent = true
   ): Promise<KernelMessage.IExecuteReplyMsg | null> {
     const kernel = this._session.session?.kernel;
     if (!kernel) {
@@ -48,7 +70,7 @@ export class KernelConnector implements IKernelConnector {
       code,
       stop_on_error: false,
       store_history: false,
-      silent: true
+      silent
     };
 
     const future = kernel.requestExecute(content);
@@ -67,7 +89,7 @@ export class KernelConnector implements IKernelConnector {
   /**
    * Execute code and return stdout output.
    */
-  async executeAndCapture(code: string): Promise<string> {
+  async executeAndCapture(code: string, silent = true): Promise<string> {
     let output = '';
 
     await this.execute(code, (msg: KernelMessage.IIOPubMessage) => {
@@ -82,175 +104,204 @@ export class KernelConnector implements IKernelConnector {
           output += data['text/plain'];
         }
       }
-    });
+    }, silent);
 
     return output.trim();
   }
 
   /**
-   * Get the value of a variable by name.
+   * Get the kernel's language info, or null if there is no kernel.
    */
-  async getVariable(name: string): Promise<IVariableInfo | null> {
-    const code = `
-import json as _json_mod
-try:
-    _var = ${name}
-    _result = {
-        "name": "${name}",
-        "type": type(_var).__name__,
-        "repr": repr(_var)[:500]
+  async getLanguageInfo(): Promise<KernelMessage.ILanguageInfo | null> {
+    const kernel = this._session.session?.kernel;
+    if (!kernel) {
+      return null;
     }
-    print(_json_mod.dumps(_result))
-    del _var, _result
-except Exception as _e:
-    print(_json_mod.dumps({"error": str(_e)}))
-`;
-
     try {
-      const output = await this.executeAndCapture(code);
-      if (!output) {
-        return null;
-      }
-      const result = JSON.parse(output);
-      if (result.error) {
-        console.warn(`Error getting variable ${name}:`, result.error);
-        return null;
-      }
-      return result as IVariableInfo;
+      return (await kernel.info).language_info;
     } catch (e) {
-      console.error(`Failed to get variable ${name}:`, e);
+      console.warn('[ai-jup] Failed to get kernel language info:', e);
       return null;
     }
   }
 
+  /**
+   * Get the value of a variable, attribute path or expression.
+   * Evaluation errors are returned in `error` rather than as null.
+   */
+  async getVariable(name: string): Promise<IVariableInfo | null> {
+    const result = await this.introspect({ variables: [name], functions: [] });
+    const error = result.errors.variables[name];
+    if (error) {
+      console.warn(`Error getting variable ${name}:`, error);
+      return { name, type: 'error', repr: '', error };
+    }
+    return result.variables[name] ?? null;
+  }
+
   /**
    * Get information about a function.
    * Parses numpy/Google-style docstrings for parameter descriptions.
    */
   async getFunction(name: string): Promise<IFunctionInfo | null> {
-    const code = `
-import json as _json_mod
-import inspect as _inspect_mod
-import re as _re_mod
-try:
-    _func = ${name}
-    if not callable(_func):
-        print(_json_mod.dumps({"error": "Not callable"}))
-    else:
-        _sig = str(_inspect_mod.signature(_func))
-        _doc = _inspect_mod.getdoc(_func) or "No documentation"
-        
-        # Parse docstring for parameter descriptions (numpy/Google style)
-        _param_docs = {}
-        try:
-            _lines = _doc.splitlines()
-            _in_params_section = False
-            _current_param = None
-            _current_desc = []
-            
-            for _line in _lines:
-                _stripped = _line.strip()
-                _lower = _stripped.lower()
-                
-                # Detect section headers
-                if _lower in ('parameters', 'args', 'arguments', 'params'):
-                    _in_params_section = True
-                    continue
-                elif _lower in ('returns', 'return', 'raises', 'examples', 'notes', 'see also', 'attributes'):
-                    # End of parameters section
-                    if _current_param and _current_desc:
-                        _param_docs[_current_param] = ' '.join(_current_desc).strip()
-                    _in_params_section = False
-                    _current_param = None
-                    _current_desc = []
-                    continue
-                
-                if not _in_params_section:
-                    continue
-                
-                # Skip section underlines (numpy style)
-                if _stripped and all(c == '-' for c in _stripped):
-                    continue
-                
-                # Check if this is a new parameter line
-                # Numpy style: "param : type" or "param: type"
-                # Google style: "param (type): description" or "param: description"
-                _param_match = _re_mod.match(r'^(\\w+)\\s*(?:\\(.*?\\))?\\s*:(.*)$', _stripped)
-                if _param_match and not _line.startswith(' ' * 4) or (_param_match and _line and _line[0] not in ' \\t'):
-                    # Save previous param
-                    if _current_param and _current_desc:
-                        _param_docs[_current_param] = ' '.join(_current_desc).strip()
-                    
-                    _current_param = _param_match.group(1)
-                    _rest = _param_match.group(2).strip()
-                    _current_desc = [_rest] if _rest else []
-                elif _current_param and _stripped:
-                    # Continuation line
-                    _current_desc.append(_stripped)
-            
-            # Save last param
-            if _current_param and _current_desc:
-                _param_docs[_current_param] = ' '.join(_current_desc).strip()
-        except (AttributeError, TypeError, ValueError) as _parse_err:
-            # Docstring parsing is best-effort; fall back to empty on parse failures
-            _param_docs = {}
-        
-        _params = {}
-        for _pname, _param in _inspect_mod.signature(_func).parameters.items():
-            # Use parsed docstring description if available, otherwise use param name
-            _desc = _param_docs.get(_pname, _pname)
-            _pinfo = {"type": "string", "description": _desc}
-            if _param.annotation != _inspect_mod.Parameter.empty:
-                _ann = _param.annotation
-                if hasattr(_ann, '__name__'):
-                    _pinfo["type"] = _ann.__name__
-                elif hasattr(_ann, '__origin__'):
-                    _pinfo["type"] = str(_ann)
-            if _param.default != _inspect_mod.Parameter.empty:
-                _pinfo["default"] = repr(_param.default)
-            _params[_pname] = _pinfo
-        # Extract return type annotation
-        _return_type = None
-        _ret_ann = _inspect_mod.signature(_func).return_annotation
-        if _ret_ann != _inspect_mod.Parameter.empty:
-            if hasattr(_ret_ann, '__name__'):
-                _return_type = _ret_ann.__name__
-            elif hasattr(_ret_ann, '__origin__'):
-                _return_type = str(_ret_ann)
-            else:
-                _return_type = str(_ret_ann)
-        
-        # Append return type to docstring (like toolslm pattern)
-        _full_doc = _doc[:500]
-        if _return_type:
-            _full_doc += f"\\n\\nReturns:\\n- type: {_return_type}"
-        
-        _result = {
-            "name": "${name}",
-            "signature": _sig,
-            "docstring": _full_doc,
-            "parameters": _params,
-            "return_type": _return_type
-        }
-        print(_json_mod.dumps(_result))
-        del _func, _sig, _doc, _params, _result, _param_docs
-except Exception as _e:
-    print(_json_mod.dumps({"error": str(_e)}))
-`;
+    const result = await this.introspect({ variables: [], functions: [name] });
+    const error = result.errors.functions[name];
+    if (error) {
+      console.warn(`Error getting function ${name}:`, error);
+      return null;
+    }
+    return result.functions[name] ?? null;
+  }
+
+  /**
+   * Resolve variables and functions in a single kernel request, over the
+   * introspection comm when available and a silent execution otherwise.
+   *
+   * The code is provided by the language adapter for the kernel. Variable
+   * references are passed to the kernel as string literals and evaluated in
+   * the user namespace, outside of the execution history. Failures are
+   * reported per reference in `errors`; if the execution itself fails, or
+   * the kernel language is not supported, every requested reference gets
+   * the same error.
+   */
+  async introspect(request: IIntrospectionRequest): Promise<IIntrospectionResult> {
+    if (request.variables.length === 0 && request.functions.length === 0) {
+      return createIntrospectionResult();
+    }
+
+    const adapter = await this._getAdapter();
+    if (!adapter) {
+      const language = (await this.getLanguageInfo())?.name;
+      return this._failAll(request, `Introspection is not supported for ${language} kernels`);
+    }
 
+    const comm = await this._getComm(adapter);
+    if (comm) {
+      try {
+        return await comm.request<IIntrospectionResult>('introspect', { ...request });
+      } catch (e) {
+        console.warn('[ai-jup] Comm introspection failed, falling back to stdout:', e);
+      }
+    }
+
+    const code = adapter.introspectionCode(request, this._summarizers?.summarizers ?? []);
     try {
-      const output = await this.executeAndCapture(code);
+      const output = await this.executeAndCapture(code, adapter.silent);
+      if (output) {
+        return JSON.parse(output) as IIntrospectionResult;
+      }
+      return this._failAll(
+        request,
+        this.kernelAvailable ? 'No output from kernel' : 'Kernel not available'
+      );
+    } catch (e) {
+      console.error('Failed to introspect kernel references:', e);
+      return this._failAll(request, e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  /**
+   * List the user-defined top-level names in the kernel.
+   * Private names (leading underscore) and IPython helpers are skipped.
+   * Includes the shape of array-like values and the signature of callables.
+   * Returns null when the kernel language cannot enumerate its names.
+   */
+  async listNamespace(): Promise<INamespaceEntry[] | null> {
+    const adapter = await this._getAdapter();
+    const code = adapter?.namespaceCode();
+    if (!adapter || !code) {
+      return null;
+    }
+
+    const comm = await this._getComm(adapter);
+    if (comm) {
+      try {
+        return await comm.request<INamespaceEntry[]>('list_namespace');
+      } catch (e) {
+        console.warn('[ai-jup] Comm namespace listing failed, falling back to stdout:', e);
+      }
+    }
+
+    try {
+      const output = await this.executeAndCapture(code, adapter.silent);
       if (!output) {
-        return null;
+        return [];
       }
-      const result = JSON.parse(output);
-      if (result.error) {
-        console.warn(`Error getting function ${name}:`, result.error);
+      return JSON.parse(output) as INamespaceEntry[];
+    } catch (e) {
+      console.error('Failed to list kernel namespace:', e);
+      return [];
+    }
+  }
+
+  /**
+   * Build a result in which every requested reference failed with `error`.
+   */
+  private _failAll(request: IIntrospectionRequest, error: string): IIntrospectionResult {
+    const result = createIntrospectionResult();
+    for (const name of request.variables) {
+      result.errors.variables[name] = error;
+    }
+    for (const name of request.functions) {
+      result.errors.functions[name] = error;
+    }
+    return result;
+  }
+
+  /**
+   * Get the language adapter for the current kernel. Without a kernel the
+   * Python adapter is used; unsupported languages resolve to null.
+   */
+  private async _getAdapter(): Promise<ILanguageAdapter | null> {
+    const info = await this.getLanguageInfo();
+    return findLanguageAdapter(info?.name ?? 'python');
+  }
+
+  /**
+   * Get the introspection comm for the current kernel, registering the
+   * comm target on first use. Resolves to null when the kernel cannot host
+   * the comm (e.g. its adapter has no comm support, or it is not an IPython
+   * kernel), in which case callers fall back to printed JSON. The comm is
+   * reopened after a kernel restart.
+   */
+  private async _getComm(adapter: ILanguageAdapter): Promise<IntrospectionComm | null> {
+    const kernel = this._session.session?.kernel;
+    if (!kernel || !adapter.commRegistrationCode) {
+      return null;
+    }
+    if (!this._comm || this._comm.kernel !== kernel) {
+      this._comm = { kernel, channel: this._openComm(kernel, adapter) };
+    }
+    const pending = this._comm;
+    const channel = await pending.channel;
+    if (channel?.isDisposed) {
+      if (this._comm === pending) {
+        this._comm = { kernel, channel: this._openComm(kernel, adapter) };
+      }
+      return this._comm.channel;
+    }
+    return channel;
+  }
+
+  /**
+   * Register the comm target in the kernel and open a comm to it.
+   * Summarizers are captured when the comm is opened.
+   */
+  private async _openComm(
+    kernel: Kernel.IKernelConnection,
+    adapter: ILanguageAdapter
+  ): Promise<IntrospectionComm | null> {
+    const code = adapter.commRegistrationCode!(this._summarizers?.summarizers ?? []);
+
+    try {
+      const output = await this.executeAndCapture(code, adapter.silent);
+      if (output !== 'ok') {
+        console.warn('[ai-jup] Introspection comm unavailable, using stdout fallback');
         return null;
       }
-      return result as IFunctionInfo;
+      return await IntrospectionComm.open(kernel);
     } catch (e) {
-      console.error(`Failed to get function ${name}:`, e);
+      console.warn('[ai-jup] Failed to open introspection comm, using stdout fallback:', e);
       return null;
     }
   }
@@ -261,7 +312,13 @@ except Exception as _e:
  * Implements IKernelConnectorFactory for dependency injection.
  */
 export class KernelConnectorFactory implements IKernelConnectorFactory {
+  private _summarizers: IVariableSummarizerRegistry | null;
+
+  constructor(summarizers: IVariableSummarizerRegistry | null = null) {
+    this._summarizers = summarizers;
+  }
+
   create(sessionContext: ISessionContext): IKernelConnector {
-    return new KernelConnector(sessionContext);
+    return new KernelConnector(sessionContext, this._summarizers);
   }
 }
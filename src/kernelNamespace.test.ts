@@ -0,0 +1,119 @@
+/**
+ * Tests for the kernel namespace cache and reference resolution.
+ */
+
+import { KernelNamespace, isTokenResolved } from './kernelNamespace';
+import type { IKernelConnector, INamespaceEntry } from './tokens';
+import type { PromptToken } from './promptParser';
+
+function createConnector(entries: INamespaceEntry[] | null, available = true): IKernelConnector {
+  return {
+    kernelAvailable: available,
+    execute: jest.fn(),
+    executeAndCapture: jest.fn(),
+    getLanguageInfo: jest.fn(),
+    getVariable: jest.fn(),
+    getFunction: jest.fn(),
+    listNamespace: jest.fn(async () => entries),
+    introspect: jest.fn()
+  };
+}
+
+function token(type: PromptToken['type'], name: string, kind: PromptToken['kind'] = 'name'): PromptToken {
+  return { type, name, kind, start: 0, end: name.length + 3 };
+}
+
+const ENTRIES: INamespaceEntry[] = [
+  { name: 'df', type: 'DataFrame', callable: false },
+  { name: 'load', type: 'function', callable: true }
+];
+
+describe('KernelNamespace', () => {
+  it('should not be loaded initially', () => {
+    const namespace = new KernelNamespace(createConnector(ENTRIES));
+    expect(namespace.loaded).toBe(false);
+    expect(namespace.entries).toEqual([]);
+  });
+
+  it('should load entries on refresh and emit changed', async () => {
+    const namespace = new KernelNamespace(createConnector(ENTRIES));
+    let changes = 0;
+    namespace.changed.connect(() => changes++);
+
+    await namespace.refresh();
+
+    expect(namespace.loaded).toBe(true);
+    expect(namespace.get('df')?.type).toBe('DataFrame');
+    expect(namespace.entries).toHaveLength(2);
+    expect(changes).toBe(1);
+  });
+
+  it('should share concurrent refreshes', async () => {
+    const connector = createConnector(ENTRIES);
+    const namespace = new KernelNamespace(connector);
+
+    await Promise.all([namespace.refresh(), namespace.refresh()]);
+
+    expect(connector.listNamespace).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stay unloaded when the kernel cannot list names', async () => {
+    const namespace = new KernelNamespace(createConnector(null));
+
+    await namespace.refresh();
+
+    expect(namespace.loaded).toBe(false);
+    expect(isTokenResolved(token('variable', 'anything'), namespace)).toBe(true);
+  });
+
+  it('should skip loading without a kernel', async () => {
+    const connector = createConnector(ENTRIES, false);
+    const namespace = new KernelNamespace(connector);
+
+    await namespace.refresh();
+
+    expect(namespace.loaded).toBe(false);
+    expect(connector.listNamespace).not.toHaveBeenCalled();
+  });
+
+  it('should forget entries on clear', async () => {
+    const namespace = new KernelNamespace(createConnector(ENTRIES));
+    await namespace.refresh();
+
+    namespace.clear();
+
+    expect(namespace.get('df')).toBeUndefined();
+  });
+});
+
+describe('isTokenResolved', () => {
+  let namespace: KernelNamespace;
+
+  beforeEach(async () => {
+    namespace = new KernelNamespace(createConnector(ENTRIES));
+    await namespace.refresh();
+  });
+
+  it('should treat everything as resolved before loading', () => {
+    const unloaded = new KernelNamespace(createConnector(ENTRIES));
+    expect(isTokenResolved(token('variable', 'missing'), unloaded)).toBe(true);
+    expect(isTokenResolved(token('variable', 'missing'), null)).toBe(true);
+  });
+
+  it('should resolve defined variables and paths by their root name', () => {
+    expect(isTokenResolved(token('variable', 'df'), namespace)).toBe(true);
+    expect(isTokenResolved(token('variable', 'df.shape', 'path'), namespace)).toBe(true);
+    expect(isTokenResolved(token('variable', 'missing'), namespace)).toBe(false);
+    expect(isTokenResolved(token('variable', 'missing["a"]', 'path'), namespace)).toBe(false);
+  });
+
+  it('should not check arbitrary expressions', () => {
+    expect(isTokenResolved(token('variable', 'len(missing)', 'expression'), namespace)).toBe(true);
+  });
+
+  it('should require functions to be callable', () => {
+    expect(isTokenResolved(token('function', 'load'), namespace)).toBe(true);
+    expect(isTokenResolved(token('function', 'df'), namespace)).toBe(false);
+    expect(isTokenResolved(token('function', 'missing'), namespace)).toBe(false);
+  });
+});
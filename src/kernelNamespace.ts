@@ -0,0 +1,114 @@
+/**
+ * Cache of the names defined in a notebook's kernel.
+ *
+ * Used to tell resolved references in prompt cells from ones that are not
+ * (yet) defined, without a kernel round-trip on every keystroke.
+ */
+
+import { Signal, ISignal } from '@lumino/signaling';
+import type { IKernelConnector, IKernelNamespace, INamespaceEntry } from './tokens';
+import { PromptToken, getReferenceRoot } from './promptParser';
+
+/**
+ * Implementation of IKernelNamespace backed by a kernel connector.
+ */
+export class KernelNamespace implements IKernelNamespace {
+  private _connector: IKernelConnector;
+  private _entries = new Map<string, INamespaceEntry>();
+  private _loaded = false;
+  private _pending: Promise<void> | null = null;
+  private _changed = new Signal<this, void>(this);
+
+  constructor(connector: IKernelConnector) {
+    this._connector = connector;
+  }
+
+  /**
+   * Signal emitted when the cached names change.
+   */
+  get changed(): ISignal<IKernelNamespace, void> {
+    return this._changed;
+  }
+
+  /**
+   * Whether names have been loaded from the kernel at least once.
+   */
+  get loaded(): boolean {
+    return this._loaded;
+  }
+
+  /**
+   * All cached entries.
+   */
+  get entries(): ReadonlyArray<INamespaceEntry> {
+    return [...this._entries.values()];
+  }
+
+  /**
+   * Look up a name.
+   */
+  get(name: string): INamespaceEntry | undefined {
+    return this._entries.get(name);
+  }
+
+  /**
+   * Reload names from the kernel. Concurrent calls share one request.
+   */
+  refresh(): Promise<void> {
+    if (!this._pending) {
+      this._pending = this._load().finally(() => {
+        this._pending = null;
+      });
+    }
+    return this._pending;
+  }
+
+  /**
+   * Forget all names, e.g. after a kernel restart.
+   */
+  clear(): void {
+    this._entries.clear();
+    this._changed.emit();
+  }
+
+  private async _load(): Promise<void> {
+    if (!this._connector.kernelAvailable) {
+      return;
+    }
+    // Kernels that cannot list their names stay unloaded, so that
+    // references are not flagged as undefined.
+    const entries = await this._connector.listNamespace();
+    this._entries = new Map((entries ?? []).map(entry => [entry.name, entry]));
+    this._loaded = entries !== null;
+    this._changed.emit();
+  }
+
+  /**
+   * Dispose of the namespace cache.
+   */
+  dispose(): void {
+    Signal.clearData(this);
+  }
+}
+
+/**
+ * Whether a reference token resolves against the kernel namespace.
+ *
+ * Name and path references resolve if their leading name is defined; function
+ * references must name a callable. Arbitrary expressions may use builtins and
+ * are not checked. Everything resolves until the namespace has been loaded,
+ * so nothing is flagged before the kernel is ready.
+ */
+export function isTokenResolved(token: PromptToken, namespace: IKernelNamespace | null): boolean {
+  if (!namespace || !namespace.loaded) {
+    return true;
+  }
+  if (token.type === 'function') {
+    return namespace.get(token.name)?.callable === true;
+  }
+  if (token.kind === 'expression') {
+    return true;
+  }
+  const root = getReferenceRoot(token.name);
+  return root !== null && namespace.get(root) !== undefined;
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for language adapter lookup and generated introspection code.
+ */
+
+import { findLanguageAdapter } from './languageAdapters';
+import { pythonAdapter } from './pythonAdapter';
+import { rAdapter } from './rAdapter';
+import { javascriptAdapter } from './javascriptAdapter';
+
+describe('findLanguageAdapter', () => {
+  it('should match kernel languages case-insensitively', () => {
+    expect(findLanguageAdapter('python')).toBe(pythonAdapter);
+    expect(findLanguageAdapter('R')).toBe(rAdapter);
+    expect(findLanguageAdapter('typescript')).toBe(javascriptAdapter);
+    expect(findLanguageAdapter('JavaScript')).toBe(javascriptAdapter);
+  });
+
+  it('should return null for unsupported languages', () => {
+    expect(findLanguageAdapter('julia')).toBeNull();
+  });
+});
+
+describe('pythonAdapter', () => {
+  it('should pass the request as a JSON string literal', () => {
+    const code = pythonAdapter.introspectionCode({ variables: ['df["a"]'], functions: [] }, []);
+    expect(code).toContain(
+      `_json_mod.loads(${JSON.stringify(JSON.stringify({ variables: ['df["a"]'], functions: [] }))})`
+    );
+    expect(code).toContain('def _ai_jup_summarize(_value):');
+  });
+
+  it('should call tools with keyword arguments in a single expression', () => {
+    expect(pythonAdapter.toolCallCode('save', { path: 'a "b".csv' }, ['path'])).toBe(
+      '(lambda _fn, _args: _fn(**_args))(globals()["save"], __import__("json").loads(' +
+        JSON.stringify(JSON.stringify({ path: 'a "b".csv' })) +
+        '))'
+    );
+  });
+
+  it('should register the comm handlers from unindented source', () => {
+    const code = pythonAdapter.commRegistrationCode!([]);
+    const source = JSON.parse(code.match(/_ai_jup_register_comm\((".*")\)\n/)![1]);
+    expect(source).toContain('\nimport json as _json_mod\n');
+    expect(source).toContain('\n_manager.register_target("ai_jup", _on_open)');
+  });
+});
+
+describe('rAdapter', () => {
+  it('should run non-silently inside local()', () => {
+    expect(rAdapter.silent).toBe(false);
+    expect(rAdapter.introspectionCode({ variables: ['x'], functions: [] }, []).startsWith('local({')).toBe(true);
+  });
+
+  it('should call tools with named arguments', () => {
+    expect(rAdapter.toolCallCode('save', { path: "it's.csv" }, ['path'])).toBe(
+      `do.call(get('save', envir = globalenv(), mode = "function"), as.list(jsonlite::fromJSON('{"path":"it\\'s.csv"}', simplifyVector = TRUE)))`
+    );
+  });
+
+  it('should quote the request as an R string literal', () => {
+    const code = rAdapter.introspectionCode({ variables: ["d[['it\\'s']]"], functions: [] }, []);
+    expect(code).toContain(`jsonlite::fromJSON('{"variables":["d[[\\'it\\\\\\\\\\'s\\']]"],"functions":[]}'`);
+  });
+});
+
+describe('javascriptAdapter', () => {
+  it('should not list names', () => {
+    expect(javascriptAdapter.namespaceCode()).toBeNull();
+  });
+
+  it('should call tools with arguments in parameter order', () => {
+    const code = javascriptAdapter.toolCallCode('add', { y: 2, x: 1 }, ['x', 'y']);
+    expect(code).toContain('const __aiJupParams = ["x","y"];');
+    expect(code).toContain('return eval("add")(');
+  });
+
+  it('should evaluate references through the prefixed helper', () => {
+    const code = javascriptAdapter.introspectionCode({ variables: ['xs'], functions: ['f'] }, []);
+    expect(code).toContain('const __aiJupEval = (__aiJupExpr) => eval(__aiJupExpr);');
+    expect(code).toContain(`JSON.parse(${JSON.stringify(JSON.stringify({ variables: ['xs'], functions: ['f'] }))})`);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Lookup of the language adapter for a kernel language.
+ */
+
+import { ILanguageAdapter } from './tokens';
+import { pythonAdapter } from './pythonAdapter';
+import { rAdapter } from './rAdapter';
+import { javascriptAdapter } from './javascriptAdapter';
+
+/**
+ * Adapters shipped with the extension.
+ */
+export const DEFAULT_LANGUAGE_ADAPTERS: ReadonlyArray<ILanguageAdapter> = [
+  pythonAdapter,
+  rAdapter,
+  javascriptAdapter
+];
+
+/**
+ * Find the adapter for a kernel language (`language_info.name`), matched
+ * case-insensitively. Returns null for unsupported languages.
+ */
+export function findLanguageAdapter(
+  language: string,
+  adapters: ReadonlyArray<ILanguageAdapter> = DEFAULT_LANGUAGE_ADAPTERS
+): ILanguageAdapter | null {
+  const name = language.toLowerCase();
+  return adapters.find(adapter => adapter.languages.includes(name)) ?? null;
+}
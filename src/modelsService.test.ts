@@ -0,0 +1,108 @@
+/**
+ * Tests for the models service.
+ */
+
+import { ModelsService, parseModelList } from './modelsService';
+
+describe('parseModelList', () => {
+  it('should read ids and names', () => {
+    expect(
+      parseModelList({
+        models: [
+          { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4' },
+          { id: 'llama3' }
+        ]
+      })
+    ).toEqual([
+      { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4' },
+      { id: 'llama3', name: 'llama3' }
+    ]);
+  });
+
+  it('should skip malformed and duplicate entries', () => {
+    expect(
+      parseModelList({ models: [null, { name: 'x' }, { id: '' }, { id: 'a' }, { id: 'a', name: 'b' }] })
+    ).toEqual([{ id: 'a', name: 'a' }]);
+  });
+
+  it('should return an empty list for unexpected bodies', () => {
+    expect(parseModelList(null)).toEqual([]);
+    expect(parseModelList({ models: 'a' })).toEqual([]);
+  });
+});
+
+describe('ModelsService', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const mockFetch = (response: Partial<Response>) => {
+    const fetchMock = jest.fn().mockResolvedValue(response);
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  };
+
+  it('should fetch and cache the model list', async () => {
+    const fetchMock = mockFetch({
+      ok: true,
+      json: async () => ({ models: [{ id: 'm1', name: 'Model One' }] })
+    });
+    const service = new ModelsService();
+    let changes = 0;
+    service.changed.connect(() => changes++);
+
+    await Promise.all([service.refresh(), service.refresh()]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8888/ai-jup/models');
+    expect(service.loaded).toBe(true);
+    expect(service.models).toEqual([{ id: 'm1', name: 'Model One' }]);
+    expect(service.displayName('m1')).toBe('Model One');
+    expect(service.displayName('other')).toBe('other');
+    expect(changes).toBe(1);
+  });
+
+  it('should list the models of the configured provider', async () => {
+    const fetchMock = mockFetch({ ok: true, json: async () => ({ models: [{ id: 'llama3' }] }) });
+    const settings = { provider: 'local' as const, providerBaseUrl: 'http://gpu-box:8000/v1' };
+    const service = new ModelsService(settings);
+
+    await service.refresh();
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:8888/ai-jup/models?provider=local&base_url=http%3A%2F%2Fgpu-box%3A8000%2Fv1'
+    );
+    expect(service.models).toEqual([{ id: 'llama3', name: 'llama3' }]);
+  });
+
+  it('should not keep the models of a previous provider', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockFetch({ ok: true, json: async () => ({ models: [{ id: 'm1' }] }) });
+    const settings = { provider: 'anthropic' as 'anthropic' | 'openai', providerBaseUrl: '' };
+    const service = new ModelsService(settings);
+    await service.refresh();
+
+    settings.provider = 'openai';
+    mockFetch({ ok: false, status: 502, statusText: 'Bad Gateway' });
+    await service.refresh();
+
+    expect(service.loaded).toBe(false);
+    expect(service.models).toEqual([]);
+    warn.mockRestore();
+  });
+
+  it('should keep the previous list when the request fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockFetch({ ok: false, status: 500, statusText: 'Server Error' });
+    const service = new ModelsService();
+
+    await service.refresh();
+
+    expect(service.loaded).toBe(false);
+    expect(service.models).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Models offered by the server for the configured provider, fetched from
+ * `GET /ai-jup/models`.
+ */
+
+import { PageConfig } from '@jupyterlab/coreutils';
+import { Signal, ISignal } from '@lumino/signaling';
+import { getProviderConfig } from './settings';
+import type { IExtensionSettings, IModelInfo, IModelsService } from './tokens';
+
+/**
+ * Read the model list from a `/ai-jup/models` response, skipping
+ * malformed entries. Entries without a name are named after their id.
+ */
+export function parseModelList(body: unknown): IModelInfo[] {
+  const models = (body as { models?: unknown } | null)?.models;
+  if (!Array.isArray(models)) {
+    return [];
+  }
+  const result: IModelInfo[] = [];
+  for (const entry of models) {
+    const id = (entry as { id?: unknown } | null)?.id;
+    if (typeof id !== 'string' || !id || result.some(model => model.id === id)) {
+      continue;
+    }
+    const name = (entry as { name?: unknown }).name;
+    result.push({ id, name: typeof name === 'string' && name ? name : id });
+  }
+  return result;
+}
+
+/**
+ * Implementation of IModelsService that caches the server's model list.
+ */
+export class ModelsService implements IModelsService {
+  private _settings: Pick<IExtensionSettings, 'provider' | 'providerBaseUrl'> | null;
+  private _models: IModelInfo[] = [];
+  private _loaded = false;
+  private _pending: Promise<void> | null = null;
+  private _pendingUrl = '';
+  private _loadedUrl = '';
+  private _changed = new Signal<this, void>(this);
+
+  /**
+   * Create a service listing the models of the provider in `settings`, or
+   * of the server's default provider without settings.
+   */
+  constructor(settings: Pick<IExtensionSettings, 'provider' | 'providerBaseUrl'> | null = null) {
+    this._settings = settings;
+  }
+
+  /**
+   * Signal emitted when the model list changes.
+   */
+  get changed(): ISignal<IModelsService, void> {
+    return this._changed;
+  }
+
+  /**
+   * Whether the list has been fetched successfully.
+   */
+  get loaded(): boolean {
+    return this._loaded;
+  }
+
+  /**
+   * The cached models, in the order the server lists them.
+   */
+  get models(): ReadonlyArray<IModelInfo> {
+    return this._models;
+  }
+
+  /**
+   * Get the display name of a model, falling back to its id.
+   */
+  displayName(id: string): string {
+    return this._models.find(model => model.id === id)?.name ?? id;
+  }
+
+  /**
+   * Fetch the list from the server. Concurrent calls for the same provider
+   * share one request; on failure the previous list of that provider is kept.
+   */
+  refresh(): Promise<void> {
+    const url = this._url();
+    if (!this._pending || this._pendingUrl !== url) {
+      const pending = this._load(url).finally(() => {
+        if (this._pending === pending) {
+          this._pending = null;
+        }
+      });
+      this._pending = pending;
+      this._pendingUrl = url;
+    }
+    return this._pending;
+  }
+
+  private _url(): string {
+    const provider = getProviderConfig(this._settings);
+    const query = new URLSearchParams();
+    if (provider) {
+      query.set('provider', provider.id);
+      if (provider.baseUrl) {
+        query.set('base_url', provider.baseUrl);
+      }
+    }
+    const search = query.toString();
+    return `${PageConfig.getBaseUrl()}ai-jup/models${search ? `?${search}` : ''}`;
+  }
+
+  private async _load(url: string): Promise<void> {
+    try {
+      const response = await fetch(url, { credentials: 'same-origin' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const models = parseModelList(await response.json());
+      // A newer request for another provider replaces this one
+      if (url !== this._url()) {
+        return;
+      }
+      this._models = models;
+      this._loaded = true;
+      this._loadedUrl = url;
+      this._changed.emit();
+    } catch (error) {
+      console.warn('[ai-jup] Failed to load models:', error);
+      // Never offer the models of another provider
+      if (this._loaded && this._loadedUrl !== url && url === this._url()) {
+        this._models = [];
+        this._loaded = false;
+        this._changed.emit();
+      }
+    }
+  }
+
+  /**
+   * Dispose of the service.
+   */
+  dispose(): void {
+    Signal.clearData(this);
+  }
+}
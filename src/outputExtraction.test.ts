@@ -0,0 +1,129 @@
+/**
+ * Tests for text output extraction from code cells.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+import {
+  MAX_OUTPUT_LENGTH,
+  extractTextOutputs,
+  htmlToText,
+  stripAnsi,
+  truncateOutput
+} from './outputExtraction';
+
+describe('stripAnsi', () => {
+  it('should remove colour codes', () => {
+    expect(stripAnsi('\u001b[0;31mValueError\u001b[0m: bad')).toBe('ValueError: bad');
+  });
+
+  it('should leave plain text alone', () => {
+    expect(stripAnsi('(100, 3)')).toBe('(100, 3)');
+  });
+});
+
+describe('htmlToText', () => {
+  it('should flatten tables to tab-separated rows', () => {
+    const html =
+      '<table><thead><tr><th>a</th><th>b</th></tr></thead>' +
+      '<tbody><tr><td>1</td><td>2</td></tr></tbody></table>';
+    expect(htmlToText(html)).toBe('a\tb\n1\t2');
+  });
+
+  it('should drop styles and decode entities', () => {
+    expect(htmlToText('<style>.x { color: red }</style><p>a &lt; b &amp;&#32;c</p>')).toBe(
+      'a < b & c'
+    );
+  });
+
+  it('should keep references to code points that do not exist', () => {
+    expect(htmlToText('<p>&#99999999; &#x110000; &#x41;</p>')).toBe('&#99999999; &#x110000; A');
+  });
+});
+
+describe('truncateOutput', () => {
+  it('should keep short text', () => {
+    expect(truncateOutput('short', 10)).toEqual({ text: 'short', truncated: false });
+  });
+
+  it('should keep the start and end of long text', () => {
+    const { text, truncated } = truncateOutput('a'.repeat(10) + 'b'.repeat(10), 10);
+    expect(truncated).toBe(true);
+    expect(text).toBe('aaaaa\n... (10 characters truncated) ...\nbbbbb');
+  });
+});
+
+describe('extractTextOutputs', () => {
+  it('should extract stream outputs with their name', () => {
+    const outputs: nbformat.IOutput[] = [
+      { output_type: 'stream', name: 'stdout', text: ['(100, 3)\n'] },
+      { output_type: 'stream', name: 'stderr', text: 'warning\n' }
+    ];
+    expect(extractTextOutputs(outputs, 4)).toEqual([
+      { outputType: 'stream', name: 'stdout', text: '(100, 3)', cellIndex: 4 },
+      { outputType: 'stream', name: 'stderr', text: 'warning', cellIndex: 4 }
+    ]);
+  });
+
+  it('should prefer text/plain for execute results', () => {
+    const outputs: nbformat.IOutput[] = [
+      {
+        output_type: 'execute_result',
+        execution_count: 1,
+        metadata: {},
+        data: { 'text/plain': '   a\n0  1', 'text/html': '<table></table>' }
+      }
+    ];
+    expect(extractTextOutputs(outputs, 0)[0].text).toBe('   a\n0  1');
+  });
+
+  it('should fall back to text/html for execute results', () => {
+    const outputs: nbformat.IOutput[] = [
+      {
+        output_type: 'execute_result',
+        execution_count: 1,
+        metadata: {},
+        data: { 'text/html': '<b>done</b>' }
+      }
+    ];
+    expect(extractTextOutputs(outputs, 0)[0].text).toBe('done');
+  });
+
+  it('should extract error tracebacks without ANSI codes', () => {
+    const outputs: nbformat.IOutput[] = [
+      {
+        output_type: 'error',
+        ename: 'KeyError',
+        evalue: "'x'",
+        traceback: ['\u001b[0;31mKeyError\u001b[0m Traceback', "\u001b[0;31mKeyError\u001b[0m: 'x'"]
+      }
+    ];
+    expect(extractTextOutputs(outputs, 2)).toEqual([
+      { outputType: 'error', text: "KeyError Traceback\nKeyError: 'x'", cellIndex: 2 }
+    ]);
+  });
+
+  it('should describe errors without a traceback', () => {
+    const outputs: nbformat.IOutput[] = [
+      { output_type: 'error', ename: 'NameError', evalue: 'x', traceback: [] }
+    ];
+    expect(extractTextOutputs(outputs, 0)[0].text).toBe('NameError: x');
+  });
+
+  it('should skip display data and empty outputs', () => {
+    const outputs: nbformat.IOutput[] = [
+      { output_type: 'display_data', metadata: {}, data: { 'image/png': 'AAAA' } },
+      { output_type: 'stream', name: 'stdout', text: '\n' },
+      { output_type: 'execute_result', execution_count: 1, metadata: {}, data: {} }
+    ];
+    expect(extractTextOutputs(outputs, 0)).toEqual([]);
+  });
+
+  it('should truncate long outputs', () => {
+    const outputs: nbformat.IOutput[] = [
+      { output_type: 'stream', name: 'stdout', text: 'x'.repeat(MAX_OUTPUT_LENGTH + 100) }
+    ];
+    const [output] = extractTextOutputs(outputs, 0);
+    expect(output.truncated).toBe(true);
+    expect(output.text).toContain('(100 characters truncated)');
+  });
+});
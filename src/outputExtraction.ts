@@ -0,0 +1,157 @@
+/**
+ * Text outputs of preceding code cells for the prompt context.
+ *
+ * What a cell printed, or the traceback it raised, is often what a prompt
+ * asks about. Outputs are reduced to plain text: ANSI colour codes are
+ * removed, HTML results are flattened and each output is shortened to a
+ * fixed length.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+import type { ICellOutput } from './tokens';
+
+/**
+ * Maximum characters kept per output.
+ */
+export const MAX_OUTPUT_LENGTH = 2000;
+
+/**
+ * ANSI escape sequences (colours and cursor control), as used in tracebacks.
+ */
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[A-Za-z]|\u001b\][^\u0007]*\u0007|\u001b[@-_]/g;
+
+/**
+ * Named HTML entities decoded when flattening HTML.
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Remove ANSI escape sequences from text.
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Flatten HTML to plain text: table cells are separated by tabs, rows and
+ * block elements by newlines, and markup is dropped.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/t[dh]>\s*/gi, '\t')
+    .replace(/<br\s*\/?>|<\/(p|div|tr|li|h[1-6]|table|caption)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value =
+          code[1] === 'x' || code[1] === 'X'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        // Leave references to code points that do not exist as they are
+        return Number.isNaN(value) || value > 0x10ffff ? entity : String.fromCodePoint(value);
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Shorten text to `limit` characters, keeping its start and end (the end
+ * of a traceback names the error).
+ */
+export function truncateOutput(
+  text: string,
+  limit: number = MAX_OUTPUT_LENGTH
+): { text: string; truncated: boolean } {
+  if (text.length <= limit) {
+    return { text, truncated: false };
+  }
+  const head = Math.ceil(limit / 2);
+  const tail = limit - head;
+  const omitted = text.length - limit;
+  return {
+    text: `${text.slice(0, head)}\n... (${omitted} characters truncated) ...\n${text.slice(text.length - tail)}`,
+    truncated: true
+  };
+}
+
+/**
+ * Join a multiline nbformat string.
+ */
+function joinMultiline(value: nbformat.MultilineString | undefined): string {
+  return Array.isArray(value) ? value.join('') : (value ?? '');
+}
+
+/**
+ * Get the text of a single output, or null for outputs without text.
+ */
+function outputText(output: nbformat.IOutput): string | null {
+  switch (output.output_type) {
+    case 'stream':
+      return joinMultiline((output as nbformat.IStream).text);
+    case 'execute_result': {
+      const data = (output as nbformat.IExecuteResult).data;
+      if (data['text/plain'] !== undefined) {
+        return joinMultiline(data['text/plain'] as nbformat.MultilineString);
+      }
+      if (data['text/html'] !== undefined) {
+        return htmlToText(joinMultiline(data['text/html'] as nbformat.MultilineString));
+      }
+      return null;
+    }
+    case 'error': {
+      const error = output as nbformat.IError;
+      return error.traceback?.length
+        ? error.traceback.join('\n')
+        : `${error.ename}: ${error.evalue}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Extract the text outputs of a code cell.
+ */
+export function extractTextOutputs(
+  outputs: ReadonlyArray<nbformat.IOutput>,
+  cellIndex: number,
+  limit: number = MAX_OUTPUT_LENGTH
+): ICellOutput[] {
+  const result: ICellOutput[] = [];
+  for (const output of outputs) {
+    const raw = outputText(output);
+    if (raw === null) {
+      continue;
+    }
+    // Keep leading spaces, which align the first row of tables
+    const clean = stripAnsi(raw).replace(/^\s*\n|\s+$/g, '');
+    if (!clean) {
+      continue;
+    }
+    const { text, truncated } = truncateOutput(clean, limit);
+    const item: ICellOutput = {
+      outputType: output.output_type as ICellOutput['outputType'],
+      text,
+      cellIndex
+    };
+    if (output.output_type === 'stream') {
+      item.name = (output as nbformat.IStream).name;
+    }
+    if (truncated) {
+      item.truncated = true;
+    }
+    result.push(item);
+  }
+  return result;
+}
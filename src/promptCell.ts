@@ -2,9 +2,11 @@
  * Prompt cell management and execution.
  */
 
+import { showErrorMessage } from '@jupyterlab/apputils';
 import { NotebookPanel, NotebookActions } from '@jupyterlab/notebook';
 import { Cell, ICellModel, MarkdownCell } from '@jupyterlab/cells';
 import { ICodeCellModel, isCodeCellModel } from '@jupyterlab/cells';
+import { IRenderMimeRegistry } from '@jupyterlab/rendermime';
 import type {
   IPromptCellManager,
   IKernelConnector,
@@ -15,10 +17,76 @@ import type {
   IExtensionSettings,
   IImageContext,
   IChartSpec,
-  IConversationTurn
+  ICellOutput,
+  IConversationTurn,
+  IChatRequest,
+  IIntrospectionResult,
+  IKernelNamespace,
+  IModelsService,
+  IStreamEvent,
+  IToolExecutor
 } from './tokens';
-import { parsePrompt, processPrompt } from './promptParser';
+import { getDefaultModel, getProviderConfig, getToolApprovalConfig } from './settings';
+import { attachToolApprovals } from './toolApproval';
+import { KernelToolExecutor } from './clientTools';
+import { toolResultBundle } from './toolResultRenderer';
+import { ToolOutputArea } from './toolOutputs';
+import { stripToolTranscripts, toolCallStatus } from './toolTranscript';
+import { planCells } from './contentBlocks';
+import { showConvertPreview } from './convertPreview';
+import {
+  findConvertedBlock,
+  pruneConversions,
+  readConversion,
+  recordConversion
+} from './conversions';
+import {
+  IProvenance,
+  IToolCallRecord,
+  describeProvenance,
+  hashContext,
+  isAIGenerated,
+  readProvenance
+} from './provenance';
+import {
+  IContextFingerprint,
+  fingerprintCells,
+  fingerprintContext,
+  fingerprintVariables,
+  mayChangeVariables,
+  readFingerprint,
+  staleReasons
+} from './staleness';
+import { getReferenceRoot, parsePrompt, processPrompt } from './promptParser';
 import { PromptModel } from './promptModel';
+import { KernelNamespace } from './kernelNamespace';
+import { formatVariableSummary } from './variableSummarizers';
+import { extractTextOutputs } from './outputExtraction';
+import { parseCellEdits } from './cellEdits';
+import { EditReview } from './editReview';
+import {
+  CellFixMode,
+  buildFixPrompt,
+  extractProposedCode,
+  findErrorOutput,
+  relevantVariables
+} from './cellFix';
+import {
+  IContextCell,
+  IDroppedContextItem,
+  applyContextBudget,
+  describeDroppedContext,
+  estimateTokens,
+  formatPrecedingCode
+} from './contextBudget';
+import {
+  IVariantState,
+  addVariant,
+  seedVariant,
+  selectVariant,
+  getSelectedVariant,
+  formatVariantLabel
+} from './responseVariants';
 
 /** Supported image MIME types for multimodal context */
 const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif'] as const;
@@ -30,12 +98,54 @@ const PLOTLY_MIME = 'application/vnd.plotly.v1+json';
 
 const PROMPT_CELL_CLASS = 'ai-jup-prompt-cell';
 const PROMPT_OUTPUT_CLASS = 'ai-jup-prompt-output';
+const INTERRUPTED_CLASS = 'ai-jup-interrupted';
+const AI_GENERATED_CLASS = 'ai-jup-ai-generated';
+const PROVENANCE_BADGE_CLASS = 'ai-jup-provenance-badge';
+const STALE_CLASS = 'ai-jup-stale';
 const PROMPT_METADATA_KEY = 'ai_jup';
 
-interface PromptMetadata {
+/** Delay before checking for stale responses after the notebook changes, in ms */
+const STALE_CHECK_DELAY = 1000;
+
+interface PromptMetadata extends IVariantState {
   isPromptCell?: boolean;
   isOutputCell?: boolean;
   model?: string;
+  /** Set on output cells whose response was stopped before completion */
+  interrupted?: boolean;
+  /** Context left out of the latest request to fit the token budget */
+  droppedContext?: IDroppedContextItem[];
+  /** Set on prompt cells whose response proposes edits to existing cells */
+  editMode?: boolean;
+  /** Set on cells converted from a response, to the response cell's id */
+  convertedFrom?: string;
+  /** Set on AI-generated cells: how the shown content was generated */
+  provenance?: IProvenance;
+  /** Set on output cells: what the shown response was generated from */
+  fingerprint?: IContextFingerprint;
+}
+
+/**
+ * Prompt context together with the material left out to fit the budget.
+ */
+interface IGatheredContext {
+  context: IPromptContext;
+  dropped: IDroppedContextItem[];
+}
+
+/**
+ * How a prompt run ended: the response `completed`, was `interrupted` by
+ * the user, or `failed`.
+ */
+type PromptOutcome = 'completed' | 'interrupted' | 'failed';
+
+/**
+ * A prompt execution that is still streaming into an output cell.
+ */
+interface IRunningPrompt {
+  panelId: string;
+  promptCellId: string;
+  model: PromptModel;
 }
 
 /**
@@ -44,7 +154,24 @@ interface PromptMetadata {
  */
 export class PromptCellManager implements IPromptCellManager {
   private _connectors: Map<string, IKernelConnector> = new Map();
+  private _namespaces: Map<string, KernelNamespace> = new Map();
+  /** Running executions keyed by output cell model id */
+  private _running: Map<string, IRunningPrompt> = new Map();
+  /** Edit reviews keyed by output cell model id */
+  private _reviews: Map<string, { panelId: string; review: EditReview }> = new Map();
+  /** Running explain/fix requests keyed by code cell model id */
+  private _fixes: Map<string, PromptModel> = new Map();
+  /** Rich tool results keyed by output cell model id */
+  private _toolOutputs: Map<string, ToolOutputArea> = new Map();
+  /** Panels running all prompts (or those above/below), by panel id */
+  private _pipelines: Set<string> = new Set();
+  /** Scheduled stale response checks by panel id */
+  private _staleChecks: Map<string, { timer: number; refreshVariables: boolean }> = new Map();
+  /** Current hashes of the variables referenced by responses, by panel id */
+  private _variableHashes: Map<string, Record<string, string>> = new Map();
   private _settings: IExtensionSettings | null = null;
+  private _models: IModelsService | null = null;
+  private _rendermime: IRenderMimeRegistry | null = null;
 
   /**
    * Set the settings instance.
@@ -53,6 +180,20 @@ export class PromptCellManager implements IPromptCellManager {
     this._settings = settings;
   }
 
+  /**
+   * Set the models service that fills the per-cell model picker.
+   */
+  setModelsService(models: IModelsService): void {
+    this._models = models;
+  }
+
+  /**
+   * Set the registry used to render rich tool results under responses.
+   */
+  setRenderMime(rendermime: IRenderMimeRegistry): void {
+    this._rendermime = rendermime;
+  }
+
   /**
    * Set up a notebook for prompt cell handling.
    */
@@ -61,6 +202,46 @@ export class PromptCellManager implements IPromptCellManager {
     this._connectors.set(notebookId, connector);
 
     const notebook = panel.content;
+
+    // Track kernel names for reference highlighting: reload after each
+    // executed cell and when the kernel changes, clear on restart
+    const namespace = new KernelNamespace(connector);
+    this._namespaces.set(notebookId, namespace);
+    const sessionContext = panel.sessionContext;
+    const refreshNamespace = () => void namespace.refresh();
+    // Kernel changes and cells that mention a referenced variable may
+    // change it; edits only change cell sources
+    const onKernelChanged = () => {
+      refreshNamespace();
+      this._scheduleStaleCheck(panel, true);
+    };
+    const onContentChanged = () => this._scheduleStaleCheck(panel, false);
+    const onExecuted = (_: unknown, args: { notebook: unknown; cell: Cell }) => {
+      if (args.notebook === notebook) {
+        refreshNamespace();
+        this._scheduleStaleCheck(
+          panel,
+          mayChangeVariables(args.cell.model.sharedModel.getSource(), this._responseVariables(panel))
+        );
+      }
+    };
+    const onKernelStatus = (_: unknown, status: string) => {
+      if (status === 'restarting' || status === 'autorestarting') {
+        namespace.clear();
+      }
+    };
+    // Keep converted responses out of saved notebooks once no cell needs them
+    const onSaveState = (_: unknown, state: string) => {
+      if (state === 'started') {
+        this._pruneConversions(panel);
+      }
+    };
+    NotebookActions.executed.connect(onExecuted);
+    panel.context.saveState.connect(onSaveState);
+    sessionContext.kernelChanged.connect(onKernelChanged);
+    sessionContext.statusChanged.connect(onKernelStatus);
+    notebook.model?.contentChanged.connect(onContentChanged);
+    void sessionContext.ready.then(onKernelChanged);
     
     // Style all prompt and output cells - works with JupyterLab 4 windowing
     const stylePromptCells = () => {
@@ -81,11 +262,20 @@ export class PromptCellManager implements IPromptCellManager {
             cell.addClass(PROMPT_CELL_CLASS);
           }
         }
+        this._updateModelPicker(cell, this._isPromptCellModel(cellModel));
+        this._updateProvenanceBadge(cell);
         
         if (this._isOutputCellModel(cellModel)) {
           if (!cell.hasClass(PROMPT_OUTPUT_CLASS)) {
             cell.addClass(PROMPT_OUTPUT_CLASS);
           }
+          const metadata = cellModel.getMetadata(PROMPT_METADATA_KEY) as PromptMetadata;
+          cell.toggleClass(INTERRUPTED_CLASS, metadata.interrupted === true);
+          this._updateContextNote(cell);
+          // Restore variant switcher and "Regenerate" unless still streaming
+          if (!this._running.has(cellModel.id)) {
+            this._addResponseControls(panel, cell);
+          }
           // Restore "Convert to Cells" button if settings allow
           if (this._settings?.showConvertButton !== false) {
             const content = cellModel.getMetadata('ai_jup_content') as string | undefined;
@@ -117,13 +307,34 @@ export class PromptCellManager implements IPromptCellManager {
       cells.changed.connect(onCellsChanged);
     }
 
+    // Refill the model pickers when the model list arrives
+    const onModelsChanged = () => stylePromptCells();
+    this._models?.changed.connect(onModelsChanged);
+
     // Clean up when notebook is closed
     panel.disposed.connect(() => {
       this._connectors.delete(notebookId);
+      this._namespaces.delete(notebookId);
+      for (const [outputId, { panelId, review }] of this._reviews) {
+        if (panelId === notebookId) {
+          review.dispose();
+          this._reviews.delete(outputId);
+        }
+      }
+      NotebookActions.executed.disconnect(onExecuted);
+      panel.context.saveState.disconnect(onSaveState);
+      sessionContext.kernelChanged.disconnect(onKernelChanged);
+      sessionContext.statusChanged.disconnect(onKernelStatus);
+      notebook.model?.contentChanged.disconnect(onContentChanged);
+      window.clearTimeout(this._staleChecks.get(notebookId)?.timer);
+      this._staleChecks.delete(notebookId);
+      this._variableHashes.delete(notebookId);
+      namespace.dispose();
       notebook.activeCellChanged.disconnect(onActiveCellChanged);
       if (cells) {
         cells.changed.disconnect(onCellsChanged);
       }
+      this._models?.changed.disconnect(onModelsChanged);
     });
   }
 
@@ -132,29 +343,21 @@ export class PromptCellManager implements IPromptCellManager {
    */
   insertPromptCell(panel: NotebookPanel): void {
     const notebook = panel.content;
-
-    // Insert a markdown cell below
-    NotebookActions.insertBelow(notebook);
-
-    const activeIndex = notebook.activeCellIndex;
-    const cell = notebook.widgets[activeIndex];
-    const model = cell.model;
-
-    // Mark as prompt cell
-    model.setMetadata(PROMPT_METADATA_KEY, {
-      isPromptCell: true,
-      model: 'claude-sonnet-4-20250514'
-    } as PromptMetadata);
-
-    // Change to markdown type for the prompt
-    if (notebook.model) {
-      const cellData = model.toJSON();
-      cellData.cell_type = 'markdown';
-      cellData.source = '**AI Prompt:** ';
-      notebook.model.sharedModel.deleteCell(activeIndex);
-      notebook.model.sharedModel.insertCell(activeIndex, cellData);
+    if (!notebook.model) {
+      return;
     }
 
+    // Insert a markdown cell below, marked as prompt cell, in one step so
+    // that it undoes as a unit; without a model of its own it uses the
+    // default model
+    const activeIndex = notebook.activeCellIndex + 1;
+    notebook.model.sharedModel.insertCell(activeIndex, {
+      cell_type: 'markdown',
+      source: '**AI Prompt:** ',
+      metadata: { [PROMPT_METADATA_KEY]: { isPromptCell: true } }
+    });
+    notebook.deselectAll();
+
     // Add styling class
     const newCell = notebook.widgets[activeIndex];
     newCell.addClass(PROMPT_CELL_CLASS);
@@ -168,83 +371,589 @@ export class PromptCellManager implements IPromptCellManager {
    * Execute the current prompt cell.
    */
   async executePromptCell(panel: NotebookPanel): Promise<void> {
+    await this._executePrompt(panel, false);
+  }
+
+  /**
+   * Execute the current prompt cell, asking for edits to the cells above it
+   * that are reviewed inline before they are applied.
+   */
+  async proposeCellEdits(panel: NotebookPanel): Promise<void> {
+    await this._executePrompt(panel, true);
+  }
+
+  /**
+   * Run the active prompt cell into a new output cell, remembering whether
+   * it asks for cell edits so that regenerating keeps the mode.
+   */
+  private async _executePrompt(panel: NotebookPanel, editMode: boolean): Promise<void> {
     const notebook = panel.content;
     const activeCell = notebook.activeCell;
 
     if (!activeCell || !this._isPromptCellModel(activeCell.model)) {
-      console.log('Not a prompt cell');
       return;
     }
 
+    const { editMode: _previous, ...metadata } = activeCell.model.getMetadata(
+      PROMPT_METADATA_KEY
+    ) as PromptMetadata;
+    activeCell.model.setMetadata(
+      PROMPT_METADATA_KEY,
+      (editMode ? { ...metadata, editMode } : metadata) as PromptMetadata
+    );
+
+    await this._runPrompt(panel, activeCell, () =>
+      this._insertOutputCell(panel, activeCell)
+    );
+  }
+
+  /**
+   * Regenerate the response for the active prompt or output cell in place.
+   * The previous response is kept as a variant on the output cell.
+   */
+  async regeneratePromptCell(panel: NotebookPanel): Promise<void> {
+    const notebook = panel.content;
+    const activeCell = notebook.activeCell;
+    if (!activeCell) {
+      return;
+    }
+
+    const activeIndex = notebook.widgets.indexOf(activeCell);
+    const promptIndex = this._findPromptIndex(panel, activeIndex);
+    if (promptIndex < 0) {
+      return;
+    }
+
+    const outputIndex = this._isOutputCellModel(activeCell.model)
+      ? activeIndex
+      : this._findLastOutputIndex(panel, promptIndex);
+    if (outputIndex < 0) {
+      // Nothing to regenerate yet - run the prompt normally
+      notebook.activeCellIndex = promptIndex;
+      await this.executePromptCell(panel);
+      return;
+    }
+
+    await this._regenerate(panel, notebook.widgets[promptIndex], notebook.widgets[outputIndex]);
+  }
+
+  /**
+   * Stream a new response for a prompt cell into an existing output cell.
+   * A cell that is still streaming is left alone.
+   */
+  private async _regenerate(panel: NotebookPanel, promptCell: Cell, outputCell: Cell): Promise<PromptOutcome> {
+    if (this._running.has(outputCell.model.id)) {
+      return 'failed';
+    }
+    return this._runPrompt(panel, promptCell, () => {
+      // Another run may have started while the context was gathered
+      if (outputCell.isDisposed || this._running.has(outputCell.model.id)) {
+        return null;
+      }
+      this._seedVariant(outputCell);
+      outputCell.model.sharedModel.setSource(
+        '<div class="ai-jup-loading">Generating response...</div>'
+      );
+      return outputCell;
+    });
+  }
+
+  /**
+   * Run the cells of a notebook in order, prompt cells included: `all`
+   * cells, the cells `above` the active cell, or the active cell and the
+   * cells `below` it. Code cells run in the kernel; each prompt replaces
+   * its latest response and finishes streaming before the next cell runs.
+   * Resolves to false if a cell failed or the run was stopped.
+   */
+  async runPrompts(panel: NotebookPanel, scope: 'all' | 'above' | 'below'): Promise<boolean> {
+    const notebook = panel.content;
+    const model = notebook.model;
+    if (!model || this._pipelines.has(panel.id)) {
+      return false;
+    }
+
+    // Cells are tracked by id, as responses are inserted along the way
+    const start = scope === 'below' ? Math.max(notebook.activeCellIndex, 0) : 0;
+    const end = scope === 'above' ? notebook.activeCellIndex : model.cells.length;
+    const ids: string[] = [];
+    for (let i = start; i < end; i++) {
+      const cellModel = model.cells.get(i);
+      if (!this._isOutputCellModel(cellModel)) {
+        ids.push(cellModel.id);
+      }
+    }
+
+    const stopOnError = this._settings?.stopRunAllOnError ?? true;
+    let succeeded = true;
+    this._pipelines.add(panel.id);
+    try {
+      for (const id of ids) {
+        const index = notebook.widgets.findIndex(cell => cell.model.id === id);
+        if (panel.isDisposed || index < 0) {
+          continue;
+        }
+        const cell = notebook.widgets[index];
+        notebook.activeCellIndex = index;
+        notebook.deselectAll();
+
+        let ok: boolean;
+        if (this._isPromptCellModel(cell.model)) {
+          const outputIndex = this._findLastOutputIndex(panel, index);
+          const outcome =
+            outputIndex < 0
+              ? await this._runPrompt(panel, cell, () => this._insertOutputCell(panel, cell))
+              : await this._regenerate(panel, cell, notebook.widgets[outputIndex]);
+          // Stopping a response stops the whole run
+          if (outcome === 'interrupted') {
+            return false;
+          }
+          ok = outcome === 'completed';
+        } else {
+          ok = await NotebookActions.run(notebook, panel.sessionContext);
+        }
+
+        if (!ok) {
+          succeeded = false;
+          if (stopOnError) {
+            break;
+          }
+        }
+      }
+    } finally {
+      this._pipelines.delete(panel.id);
+    }
+    return succeeded;
+  }
+
+  /**
+   * Build the prompt for a prompt cell and stream the response into the
+   * output cell returned by `getOutputCell`.
+   */
+  private async _runPrompt(
+    panel: NotebookPanel,
+    promptCell: Cell,
+    getOutputCell: () => Cell | null
+  ): Promise<PromptOutcome> {
     const connector = this._connectors.get(panel.id);
     if (!connector) {
       console.error('No kernel connector found');
-      return;
+      return 'failed';
     }
 
     // Get model from cell metadata or settings
-    const metadata = activeCell.model.getMetadata(PROMPT_METADATA_KEY) as PromptMetadata | undefined;
-    const defaultModel = this._settings?.defaultModel ?? 'claude-sonnet-4-20250514';
+    const metadata = promptCell.model.getMetadata(PROMPT_METADATA_KEY) as PromptMetadata | undefined;
+    const defaultModel = getDefaultModel(this._settings, this._models);
     const model = metadata?.model || defaultModel;
+    const editMode = metadata?.editMode === true;
 
     // Get kernel ID for tool execution
     const kernelId = panel.sessionContext.session?.kernel?.id;
 
     // Get the prompt text
-    const promptText = activeCell.model.sharedModel.getSource();
+    const promptText = promptCell.model.sharedModel.getSource();
 
     // Remove the "**AI Prompt:** " prefix if present
     const cleanPrompt = promptText.replace(/^\*\*AI Prompt:\*\*\s*/i, '');
 
     // Parse for variable and function references
-    const parsed = parsePrompt(cleanPrompt);
+    const parsed = parsePrompt(cleanPrompt, {
+      allowExpressions: this._settings?.allowExpressions ?? false
+    });
 
-    // Gather context
-    const context = await this._gatherContext(panel, connector, parsed);
+    // Gather context from the cells above the prompt
+    const promptIndex = panel.content.widgets.indexOf(promptCell);
+    let gathered: IGatheredContext;
+    try {
+      gathered = await this._gatherContext(panel, connector, parsed, promptIndex, editMode);
+    } catch (error) {
+      void showErrorMessage('Prompt Not Sent', error instanceof Error ? error : String(error));
+      return 'failed';
+    }
+    const { context, dropped } = gathered;
+
+    // Process the prompt (substitute variables, showing evaluation failures inline)
+    const processedPrompt = processPrompt(cleanPrompt, this._variableValues(context));
+
+    // Record what the response is generated from, to tell when it is stale
+    const fingerprint = await fingerprintContext(
+      this._precedingCodeCells(panel, promptIndex),
+      context.variables,
+      kernelId ?? null
+    );
+
+    const outputCell = getOutputCell();
+    if (!outputCell) {
+      return 'failed';
+    }
+    this._setDroppedContext(outputCell, dropped);
+
+    // Call the AI backend
+    const outcome = await this._callAI(
+      panel,
+      promptCell,
+      processedPrompt,
+      context,
+      fingerprint,
+      outputCell,
+      model,
+      kernelId
+    );
+
+    if (editMode) {
+      this._startEditReview(panel, outputCell);
+    }
+    return outcome;
+  }
 
-    // Process the prompt (substitute variables)
+  /**
+   * Build a sidebar chat request with the whole notebook as context.
+   */
+  async buildChatRequest(
+    panel: NotebookPanel,
+    message: string,
+    history: IConversationTurn[]
+  ): Promise<IChatRequest | null> {
+    const connector = this._connectors.get(panel.id);
+    if (!connector) {
+      return null;
+    }
+    const parsed = parsePrompt(message, {
+      allowExpressions: this._settings?.allowExpressions ?? false
+    });
+    const cellCount = panel.content.model?.cells.length ?? 0;
+    const { context } = await this._gatherContext(
+      panel,
+      connector,
+      parsed,
+      cellCount,
+      false,
+      history
+    );
+    return { prompt: processPrompt(message, this._variableValues(context)), context };
+  }
+
+  /**
+   * Text substituted for each referenced variable, showing evaluation
+   * failures inline.
+   */
+  private _variableValues(context: IPromptContext): Record<string, string> {
     const variableValues: Record<string, string> = {};
     for (const [name, info] of Object.entries(context.variables)) {
-      variableValues[name] = (info as IVariableInfo).repr;
+      const varInfo = info as IVariableInfo;
+      if (varInfo.error) {
+        variableValues[name] = `[error evaluating \`${name}\`: ${varInfo.error}]`;
+      } else if (varInfo.summary) {
+        variableValues[name] = formatVariableSummary(varInfo.type, varInfo.summary);
+      } else {
+        variableValues[name] = varInfo.repr;
+      }
     }
-    const processedPrompt = processPrompt(cleanPrompt, variableValues);
+    return variableValues;
+  }
 
-    // Insert output cell
-    const outputCell = this._insertOutputCell(panel, activeCell);
+  /**
+   * Show the inline review of the cell edits proposed in an output cell,
+   * replacing an earlier review from the same cell.
+   */
+  private _startEditReview(panel: NotebookPanel, outputCell: Cell): void {
+    const outputId = outputCell.model.id;
+    this._reviews.get(outputId)?.review.dispose();
+    this._reviews.delete(outputId);
 
-    // Call the AI backend
-    await this._callAI(panel, processedPrompt, context, outputCell, model, kernelId);
+    const metadata = outputCell.model.getMetadata(PROMPT_METADATA_KEY) as PromptMetadata | undefined;
+    if (outputCell.isDisposed || metadata?.interrupted) {
+      return;
+    }
+    const edits = parseCellEdits(this._getResponseText(outputCell.model));
+    if (!edits || edits.length === 0) {
+      return;
+    }
+    const review = new EditReview(panel.content, edits, outputCell.node, readProvenance(metadata));
+    this._reviews.set(outputId, { panelId: panel.id, review });
   }
 
   /**
-   * Gather context for the prompt including preceding code and referenced items.
+   * Ask the model to explain the error raised by the active code cell, or
+   * to fix the cell. The answer streams into a panel below the cell; a fix
+   * is offered as a replacement that only touches the cell when accepted.
+   */
+  async fixCell(panel: NotebookPanel, mode: CellFixMode): Promise<void> {
+    const cell = panel.content.activeCell;
+    if (!cell || !isCodeCellModel(cell.model)) {
+      return;
+    }
+    const raised = findErrorOutput(cell.model.outputs.toJSON());
+    if (!raised) {
+      return;
+    }
+    const connector = this._connectors.get(panel.id);
+    if (!connector) {
+      console.error('No kernel connector found');
+      return;
+    }
+
+    const cellId = cell.model.id;
+    this._fixes.get(cellId)?.abort();
+    const promptModel = new PromptModel();
+    this._fixes.set(cellId, promptModel);
+    const view = this._showFixPanel(panel, cell, mode, promptModel);
+
+    const source = cell.model.sharedModel.getSource();
+    const [errorOutput] = extractTextOutputs([raised], panel.content.widgets.indexOf(cell));
+    const traceback = errorOutput?.text ?? `${raised.ename}: ${raised.evalue}`;
+
+    const onOutputChanged = (_: IPromptModel, output: string) => {
+      view.text.textContent = output;
+    };
+    promptModel.outputChanged.connect(onOutputChanged);
+
+    try {
+      // Send the values of the kernel variables the cell uses
+      const names = relevantVariables(
+        source,
+        traceback,
+        this._namespaces.get(panel.id)?.entries ?? []
+      );
+      const introspection = await connector.introspect({ variables: names, functions: [] });
+      const languageInfo = await connector.getLanguageInfo();
+      const language = languageInfo?.name ?? 'python';
+      const context: IPromptContext = {
+        preceding_code: '',
+        variables: introspection.variables,
+        functions: {},
+        language
+      };
+      const defaultModel = getDefaultModel(this._settings, this._models);
+
+      await promptModel.executePrompt(buildFixPrompt(mode, source, traceback, language), context, {
+        model: defaultModel,
+        maxSteps: 1,
+        provider: getProviderConfig(this._settings)
+      });
+
+      if (mode === 'fix' && !promptModel.interrupted) {
+        const { explanation, code } = extractProposedCode(promptModel.output);
+        view.text.textContent = explanation;
+        if (code !== null) {
+          view.proposal.textContent = code;
+          view.proposal.hidden = false;
+          view.accept.hidden = false;
+          view.acceptAndRun.hidden = false;
+          // The fix is not written from a prompt cell
+          const provenance: IProvenance = {
+            model: defaultModel,
+            generatedAt: new Date().toISOString(),
+            promptCellId: null,
+            contextHash: await hashContext(context),
+            toolCalls: []
+          };
+          view.accept.onclick = () => {
+            this._applyFix(cell, code, provenance);
+            view.node.remove();
+          };
+          view.acceptAndRun.onclick = () => {
+            this._applyFix(cell, code, provenance);
+            view.node.remove();
+            const index = panel.content.widgets.indexOf(cell);
+            if (index >= 0) {
+              panel.content.activeCellIndex = index;
+              panel.content.deselectAll();
+              void NotebookActions.run(panel.content, panel.sessionContext);
+            }
+          };
+        }
+      }
+    } catch (error: unknown) {
+      view.text.textContent = `Error: ${error instanceof Error ? error.message : String(error)}`;
+    } finally {
+      promptModel.outputChanged.disconnect(onOutputChanged);
+      if (this._fixes.get(cellId) === promptModel) {
+        this._fixes.delete(cellId);
+      }
+      view.stop.hidden = true;
+      promptModel.dispose();
+    }
+  }
+
+  /**
+   * Replace the source of a code cell with an accepted fix and record how
+   * the fix was generated, in one undoable step.
+   */
+  private _applyFix(cell: Cell, code: string, provenance: IProvenance): void {
+    const metadata = (cell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as PromptMetadata;
+    cell.model.sharedModel.transact(() => {
+      cell.model.sharedModel.setSource(code);
+      cell.model.setMetadata(PROMPT_METADATA_KEY, { ...metadata, provenance });
+    });
+    this._updateProvenanceBadge(cell);
+  }
+
+  /**
+   * Show the explain/fix panel below a code cell, replacing an earlier one.
+   */
+  private _showFixPanel(
+    panel: NotebookPanel,
+    cell: Cell,
+    mode: CellFixMode,
+    promptModel: PromptModel
+  ): {
+    node: HTMLElement;
+    text: HTMLElement;
+    proposal: HTMLElement;
+    stop: HTMLButtonElement;
+    accept: HTMLButtonElement;
+    acceptAndRun: HTMLButtonElement;
+  } {
+    cell.node.querySelector('.ai-jup-fix-panel')?.remove();
+
+    const node = document.createElement('div');
+    node.className = 'ai-jup-fix-panel';
+
+    const header = document.createElement('div');
+    header.className = 'ai-jup-fix-header';
+    const title = document.createElement('span');
+    title.className = 'ai-jup-fix-title';
+    title.textContent = mode === 'fix' ? 'AI fix' : 'AI explanation';
+    header.appendChild(title);
+
+    const text = document.createElement('div');
+    text.className = 'ai-jup-fix-text';
+    text.textContent = mode === 'fix' ? 'Looking for a fix...' : 'Explaining the error...';
+
+    const proposal = document.createElement('pre');
+    proposal.className = 'ai-jup-fix-proposal';
+    proposal.hidden = true;
+
+    const makeButton = (label: string, title: string, className: string) => {
+      const button = document.createElement('button');
+      button.className = `jp-mod-styled ${className}`;
+      button.textContent = label;
+      button.title = title;
+      return button;
+    };
+    const stop = makeButton('Stop', 'Stop generating', 'ai-jup-fix-stop');
+    stop.addEventListener('click', () => promptModel.abort());
+    const accept = makeButton(
+      'Accept',
+      'Replace the cell source with the proposed fix',
+      'ai-jup-fix-accept'
+    );
+    accept.hidden = true;
+    const acceptAndRun = makeButton(
+      'Accept and Run',
+      'Replace the cell source with the proposed fix and run the cell',
+      'ai-jup-fix-accept-run'
+    );
+    acceptAndRun.hidden = true;
+    const dismiss = makeButton('Dismiss', 'Close without changing the cell', 'ai-jup-fix-dismiss');
+    dismiss.addEventListener('click', () => {
+      promptModel.abort();
+      node.remove();
+    });
+
+    const actions = document.createElement('div');
+    actions.className = 'ai-jup-fix-actions';
+    actions.append(stop, accept, acceptAndRun, dismiss);
+
+    node.append(header, text, proposal, actions);
+    cell.node.appendChild(node);
+    return { node, text, proposal, stop, accept, acceptAndRun };
+  }
+
+  /**
+   * Find the prompt cell an index belongs to: the cell itself if it is a
+   * prompt cell, or the prompt above a run of output cells. Returns -1 if none.
+   */
+  private _findPromptIndex(panel: NotebookPanel, index: number): number {
+    const model = panel.content.model;
+    if (!model) {
+      return -1;
+    }
+    for (let i = index; i >= 0; i--) {
+      const cellModel = model.cells.get(i);
+      if (this._isPromptCellModel(cellModel)) {
+        return i;
+      }
+      if (!this._isOutputCellModel(cellModel)) {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Find the last output cell directly following a prompt cell, or -1.
+   */
+  private _findLastOutputIndex(panel: NotebookPanel, promptIndex: number): number {
+    const model = panel.content.model;
+    if (!model) {
+      return -1;
+    }
+    let outputIndex = -1;
+    for (let i = promptIndex + 1; i < model.cells.length; i++) {
+      if (!this._isOutputCellModel(model.cells.get(i))) {
+        break;
+      }
+      outputIndex = i;
+    }
+    return outputIndex;
+  }
+
+  /**
+   * Stop the streaming response for the active prompt or output cell.
+   */
+  stopPromptCell(panel: NotebookPanel): boolean {
+    const activeId = panel.content.activeCell?.model.id;
+    const inPanel = [...this._running.entries()].filter(
+      ([, run]) => run.panelId === panel.id
+    );
+    const forActive = inPanel.filter(
+      ([outputId, run]) => outputId === activeId || run.promptCellId === activeId
+    );
+    const toStop = forActive.length > 0 ? forActive : inPanel;
+
+    for (const [, run] of toStop) {
+      run.model.abort();
+    }
+    return toStop.length > 0;
+  }
+
+  /**
+   * Gather context for the prompt including preceding code and referenced
+   * items, trimmed to the context token budget. The conversation defaults
+   * to the prompt cells above `promptIndex`. Throws if items are referenced
+   * but there is no kernel to resolve them.
    */
   private async _gatherContext(
     panel: NotebookPanel,
     connector: IKernelConnector,
-    parsed: ReturnType<typeof parsePrompt>
-  ): Promise<IPromptContext> {
+    parsed: ReturnType<typeof parsePrompt>,
+    promptIndex: number,
+    editMode = false,
+    history?: IConversationTurn[]
+  ): Promise<IGatheredContext> {
     const notebook = panel.content;
     const model = notebook.model;
-    const activeIndex = notebook.activeCellIndex;
 
-    // Get preceding code cells and extract images/chart specs from outputs
-    const precedingCode: string[] = [];
+    // Get preceding code cells and extract text, images and chart specs from outputs
+    const codeCells: IContextCell[] = [];
+    const outputs: ICellOutput[] = [];
     const images: IImageContext[] = [];
     const chartSpecs: IChartSpec[] = [];
 
     // Iterate over the model (not widgets) for robustness under windowing
     if (model) {
-      for (let i = 0; i < activeIndex; i++) {
+      for (let i = 0; i < promptIndex; i++) {
         const cellModel = model.cells.get(i);
         if (!cellModel) {
           continue;
         }
 
         if (cellModel.type === 'code') {
-          precedingCode.push(cellModel.sharedModel.getSource());
-          // Extract images and chart specs from code cell outputs
+          codeCells.push({ index: i, source: cellModel.sharedModel.getSource() });
+          // Extract text, images and chart specs from code cell outputs
           if (isCodeCellModel(cellModel)) {
+            outputs.push(...extractTextOutputs(cellModel.outputs.toJSON(), i));
             this._extractImagesFromCodeCell(cellModel, i, images);
             this._extractChartSpecsFromCodeCell(cellModel, i, chartSpecs);
           }
@@ -255,35 +964,102 @@ export class PromptCellManager implements IPromptCellManager {
       }
     }
 
-    // Get referenced variables
-    const variables: Record<string, IVariableInfo> = {};
-    for (const varName of parsed.variables) {
-      const info = await connector.getVariable(varName);
-      if (info) {
-        variables[varName] = info;
-      }
+    // Without a kernel every reference would fail, so nothing is sent
+    if ((parsed.variables.length > 0 || parsed.functions.length > 0) && !connector.kernelAvailable) {
+      throw new Error(
+        'No kernel is available to evaluate the referenced variables and functions. Start a kernel and try again.'
+      );
     }
 
-    // Get referenced functions
-    const functions: Record<string, IFunctionInfo> = {};
-    for (const funcName of parsed.functions) {
-      const info = await connector.getFunction(funcName);
-      if (info) {
-        functions[funcName] = info;
-      }
+    // Resolve referenced variables and functions in one kernel round-trip.
+    // Variables that failed to evaluate are kept so the error reaches the model.
+    const introspection = await connector.introspect({
+      variables: parsed.variables,
+      functions: parsed.functions
+    });
+    const variables = this._introspectedVariables(introspection);
+    for (const [name, error] of Object.entries(introspection.errors.functions)) {
+      console.warn(`Error getting function ${name}:`, error);
     }
-
-    const conversationHistory = this._gatherConversationHistory(panel, activeIndex);
-
-    return {
-      preceding_code: precedingCode.join('\n\n'),
+    const functions: Record<string, IFunctionInfo> = introspection.functions;
+
+    const conversationHistory =
+      history ?? this._gatherConversationHistory(panel, promptIndex);
+    const languageInfo = await connector.getLanguageInfo();
+    const language = languageInfo?.name;
+
+    // Trim preceding material to the token budget; referenced variables,
+    // functions and the conversation are always sent
+    const referencedNames = [...parsed.variables, ...parsed.functions]
+      .map(getReferenceRoot)
+      .filter((name): name is string => name !== null);
+    const budgeted = applyContextBudget(
+      {
+        cells: codeCells,
+        outputs,
+        images,
+        chartSpecs,
+        referencedNames,
+        reservedTokens: estimateTokens(
+          JSON.stringify([variables, functions, conversationHistory])
+        )
+      },
+      this._settings?.contextTokenBudget ?? 0,
+      language
+    );
+
+    // In edit mode, cells sent in full are listed with their ids so that
+    // edits can target them; only summaries stay in the preceding code
+    const editableCells =
+      editMode && model
+        ? budgeted.cells
+            .filter(cell => !cell.summarized)
+            .map(cell => ({ id: model.cells.get(cell.index).id, source: cell.source }))
+        : undefined;
+    const precedingCells = editableCells
+      ? budgeted.cells.filter(cell => cell.summarized)
+      : budgeted.cells;
+
+    const context: IPromptContext = {
+      preceding_code: formatPrecedingCode(precedingCells, budgeted.dropped, language),
+      editableCells,
       variables,
       functions,
-      images: images.length > 0 ? images : undefined,
-      chartSpecs: chartSpecs.length > 0 ? chartSpecs : undefined,
+      outputs: budgeted.outputs.length > 0 ? budgeted.outputs : undefined,
+      images: budgeted.images.length > 0 ? budgeted.images : undefined,
+      chartSpecs: budgeted.chartSpecs.length > 0 ? budgeted.chartSpecs : undefined,
       conversationHistory:
-        conversationHistory.length > 0 ? conversationHistory : undefined
+        conversationHistory.length > 0 ? conversationHistory : undefined,
+      language
     };
+    return { context, dropped: budgeted.dropped };
+  }
+
+  /**
+   * Get the variables of an introspection, including those that failed to
+   * evaluate with their error.
+   */
+  private _introspectedVariables(introspection: IIntrospectionResult): Record<string, IVariableInfo> {
+    const variables: Record<string, IVariableInfo> = { ...introspection.variables };
+    for (const [name, error] of Object.entries(introspection.errors.variables)) {
+      variables[name] = { name, type: 'error', repr: '', error };
+    }
+    return variables;
+  }
+
+  /**
+   * Get the ids and sources of the code cells above a cell.
+   */
+  private _precedingCodeCells(panel: NotebookPanel, index: number): { id: string; source: string }[] {
+    const model = panel.content.model;
+    const cells: { id: string; source: string }[] = [];
+    for (let i = 0; model && i < index; i++) {
+      const cellModel = model.cells.get(i);
+      if (cellModel.type === 'code') {
+        cells.push({ id: cellModel.id, source: cellModel.sharedModel.getSource() });
+      }
+    }
+    return cells;
   }
 
   /**
@@ -329,7 +1105,7 @@ export class PromptCellManager implements IPromptCellManager {
             nextModel &&
             nextWidget.hasClass(PROMPT_OUTPUT_CLASS)
           ) {
-            const responseText = nextModel.sharedModel.getSource();
+            const responseText = this._getResponseText(nextModel);
             history.push({
               prompt: promptText,
               response: responseText
@@ -345,6 +1121,16 @@ export class PromptCellManager implements IPromptCellManager {
     return history;
   }
 
+  /**
+   * Get the text of the selected response variant of an output cell,
+   * falling back to the cell source for cells without variants.
+   */
+  private _getResponseText(cellModel: ICellModel): string {
+    const metadata = cellModel.getMetadata(PROMPT_METADATA_KEY) as PromptMetadata | undefined;
+    const variant = metadata ? getSelectedVariant(metadata) : undefined;
+    return variant ? variant.content : cellModel.sharedModel.getSource();
+  }
+
   /**
    * Extract images from code cell outputs.
    */
@@ -479,27 +1265,19 @@ export class PromptCellManager implements IPromptCellManager {
       }
     }
 
-    // Insert new markdown cell after the last output (or after prompt if none)
-    notebook.activeCellIndex = insertAfterIndex;
-    NotebookActions.insertBelow(notebook);
-
+    // Insert a markdown cell after the last output (or after prompt if none),
+    // marked as output cell for persistence across reload, in one step
     const outputIndex = insertAfterIndex + 1;
-    const outputCell = notebook.widgets[outputIndex];
-
-    // Set up as output cell
-    if (notebook.model) {
-      const cellData = outputCell.model.toJSON();
-      cellData.cell_type = 'markdown';
-      cellData.source = '<div class="ai-jup-loading">Generating response...</div>';
-      notebook.model.sharedModel.deleteCell(outputIndex);
-      notebook.model.sharedModel.insertCell(outputIndex, cellData);
-    }
+    notebook.model?.sharedModel.insertCell(outputIndex, {
+      cell_type: 'markdown',
+      source: '<div class="ai-jup-loading">Generating response...</div>',
+      metadata: { [PROMPT_METADATA_KEY]: { isOutputCell: true } }
+    });
+    notebook.deselectAll();
+    notebook.activeCellIndex = outputIndex;
 
     const newOutputCell = notebook.widgets[outputIndex];
     newOutputCell.addClass(PROMPT_OUTPUT_CLASS);
-    
-    // Mark as output cell in metadata for persistence across reload
-    newOutputCell.model.setMetadata(PROMPT_METADATA_KEY, { isOutputCell: true });
 
     return newOutputCell;
   }
@@ -509,12 +1287,14 @@ export class PromptCellManager implements IPromptCellManager {
    */
   private async _callAI(
     panel: NotebookPanel,
+    promptCell: Cell,
     prompt: string,
     context: IPromptContext,
+    fingerprint: IContextFingerprint,
     outputCell: Cell,
     model: string,
     kernelId: string | undefined
-  ): Promise<void> {
+  ): Promise<PromptOutcome> {
     // Create or get a PromptModel for this execution
     const promptModel = new PromptModel();
 
@@ -530,15 +1310,63 @@ export class PromptCellManager implements IPromptCellManager {
     const abortOnDispose = () => promptModel.abort();
     outputCell.disposed.connect(abortOnDispose);
 
+    // Track the execution so it can be stopped from the UI
+    const outputId = outputCell.model.id;
+    this._running.set(outputId, {
+      panelId: panel.id,
+      promptCellId: promptCell.model.id,
+      model: promptModel
+    });
+    const stopButton = this._addStopButton(outputCell, promptModel);
+    const approvals = attachToolApprovals(promptModel, outputCell.node);
+    const toolOutputs = this._getToolOutputs(outputCell);
+    toolOutputs?.clear();
+    const toolCalls: IToolCallRecord[] = [];
+    // Errors reported by the server are shown in the response
+    let reportedError = false;
+    const onStreamEvent = (_: IPromptModel, event: IStreamEvent) => {
+      if (event.type === 'error') {
+        reportedError = true;
+      }
+      if (event.type !== 'tool_result' || !event.toolResult) {
+        return;
+      }
+      const { name, result } = event.toolResult;
+      toolCalls.push({ name, status: toolCallStatus(result) });
+      const bundle = toolResultBundle(result);
+      if (bundle) {
+        toolOutputs?.add(name, bundle);
+      }
+    };
+    promptModel.streamEvent.connect(onStreamEvent);
+    this._setResponseControlsHidden(outputCell, true);
+    this._setStale(panel, outputCell, []);
+    outputCell.removeClass(INTERRUPTED_CLASS);
+
     try {
       const maxSteps = this._settings?.maxToolSteps ?? 5;
+      const contextHash = await hashContext(context);
       
       await promptModel.executePrompt(prompt, context, {
         model,
         kernelId,
-        maxSteps
+        maxSteps,
+        provider: getProviderConfig(this._settings),
+        toolApproval: getToolApprovalConfig(this._settings),
+        toolExecutor: this.getToolExecutor(panel, context.language) ?? undefined
       });
 
+      if (promptModel.interrupted) {
+        this._markInterrupted(outputCell, promptModel.output);
+      }
+      this._recordVariant(outputCell, promptModel.interrupted, {
+        model,
+        generatedAt: new Date().toISOString(),
+        promptCellId: promptCell.model.id,
+        contextHash,
+        toolCalls
+      }, fingerprint);
+
       // Render markdown and add convert button
       if (!outputCell.isDisposed && outputCell instanceof MarkdownCell) {
         outputCell.rendered = true;
@@ -547,9 +1375,13 @@ export class PromptCellManager implements IPromptCellManager {
           this._addConvertButton(panel, outputCell, promptModel.output);
         }
       }
+      if (promptModel.interrupted) {
+        return 'interrupted';
+      }
+      return reportedError ? 'failed' : 'completed';
     } catch (error: unknown) {
       if (error instanceof Error && error.name === 'AbortError') {
-        return;
+        return 'interrupted';
       }
       if (!outputCell.isDisposed) {
         outputCell.model.sharedModel.setSource(
@@ -559,13 +1391,396 @@ export class PromptCellManager implements IPromptCellManager {
           outputCell.rendered = true;
         }
       }
+      return 'failed';
     } finally {
+      this._running.delete(outputId);
+      stopButton.remove();
+      approvals.dispose();
+      if (!outputCell.isDisposed) {
+        this._addResponseControls(panel, outputCell);
+      }
       promptModel.outputChanged.disconnect(onOutputChanged);
+      promptModel.streamEvent.disconnect(onStreamEvent);
       outputCell.disposed.disconnect(abortOnDispose);
       (promptModel as PromptModel).dispose();
     }
   }
 
+  /**
+   * Get the rich tool result area of an output cell, or null when no
+   * renderers are available.
+   */
+  private _getToolOutputs(outputCell: Cell): ToolOutputArea | null {
+    if (!this._rendermime) {
+      return null;
+    }
+    const outputId = outputCell.model.id;
+    let area = this._toolOutputs.get(outputId);
+    if (!area) {
+      const created = new ToolOutputArea(this._rendermime, outputCell.node);
+      this._toolOutputs.set(outputId, created);
+      outputCell.disposed.connect(() => {
+        created.clear();
+        this._toolOutputs.delete(outputId);
+      });
+      area = created;
+    }
+    return area;
+  }
+
+  /**
+   * Add a "Stop" button to an output cell that is shown while the
+   * response is being generated.
+   */
+  private _addStopButton(cell: Cell, promptModel: IPromptModel): HTMLElement {
+    const buttonContainer = document.createElement('div');
+    buttonContainer.className = 'ai-jup-stop-button-container';
+
+    const button = document.createElement('button');
+    button.className = 'jp-mod-styled ai-jup-stop-button';
+    button.textContent = 'Stop';
+    button.title = 'Stop generating this response (Cmd/Ctrl+Shift+.)';
+    button.addEventListener('click', () => promptModel.abort());
+    buttonContainer.appendChild(button);
+
+    const updateVisibility = (_: IPromptModel, state: IPromptModel.ExecutionState) => {
+      buttonContainer.hidden = state !== 'executing' && state !== 'streaming';
+    };
+    updateVisibility(promptModel, promptModel.state);
+    promptModel.stateChanged.connect(updateVisibility);
+
+    cell.node.appendChild(buttonContainer);
+    return buttonContainer;
+  }
+
+  /**
+   * Show a model picker on a prompt cell, or remove it from other cells.
+   * "Default" leaves the cell on the configured default model. The options
+   * are rebuilt only when the model list, default or selection changes.
+   */
+  private _updateModelPicker(cell: Cell, isPrompt: boolean): void {
+    const existing = cell.node.querySelector('.ai-jup-model-picker') as HTMLSelectElement | null;
+    if (!isPrompt) {
+      existing?.remove();
+      return;
+    }
+
+    const metadata = (cell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as PromptMetadata;
+    const selected = metadata.model ?? '';
+    const defaultModel = getDefaultModel(this._settings, this._models);
+    const models = this._models?.models ?? [];
+    const key = JSON.stringify([selected, defaultModel, models]);
+    if (existing?.dataset.models === key) {
+      return;
+    }
+
+    const picker = existing ?? document.createElement('select');
+    if (!existing) {
+      picker.className = 'ai-jup-model-picker';
+      picker.title = 'Model for this prompt';
+      // Keep keys pressed in the picker away from notebook shortcuts
+      picker.addEventListener('keydown', event => event.stopPropagation());
+      picker.addEventListener('change', () => {
+        const { model: _previous, ...rest } = (cell.model.getMetadata(PROMPT_METADATA_KEY) ??
+          {}) as PromptMetadata;
+        cell.model.setMetadata(
+          PROMPT_METADATA_KEY,
+          (picker.value ? { ...rest, model: picker.value } : rest) as PromptMetadata
+        );
+        this._updateModelPicker(cell, true);
+      });
+      cell.node.appendChild(picker);
+    }
+    picker.dataset.models = key;
+
+    const displayName = (id: string) => this._models?.displayName(id) ?? id;
+    const options = [{ value: '', label: `Default (${displayName(defaultModel)})` }];
+    for (const model of models) {
+      options.push({ value: model.id, label: model.name });
+    }
+    // Keep a model the server no longer lists selectable
+    if (selected && !models.some(model => model.id === selected)) {
+      options.push({ value: selected, label: selected });
+    }
+    picker.replaceChildren(
+      ...options.map(({ value, label }) => {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = label;
+        return option;
+      })
+    );
+    picker.value = selected;
+  }
+
+  /**
+   * Record the context left out of a request on its output cell and show
+   * the note listing it.
+   */
+  private _setDroppedContext(outputCell: Cell, dropped: IDroppedContextItem[]): void {
+    if (outputCell.isDisposed) {
+      return;
+    }
+    const { droppedContext: _previous, ...rest } = (outputCell.model.getMetadata(
+      PROMPT_METADATA_KEY
+    ) ?? {}) as PromptMetadata;
+    outputCell.model.setMetadata(
+      PROMPT_METADATA_KEY,
+      (dropped.length > 0 ? { ...rest, droppedContext: dropped } : rest) as PromptMetadata
+    );
+    this._updateContextNote(outputCell);
+  }
+
+  /**
+   * Show a collapsible note listing the context that was left out of the
+   * request, or remove it when nothing was dropped. An up-to-date note is
+   * left alone so that it stays expanded.
+   */
+  private _updateContextNote(cell: Cell): void {
+    const metadata = (cell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as PromptMetadata;
+    const dropped = metadata.droppedContext ?? [];
+    const key = JSON.stringify(dropped);
+    const existing = cell.node.querySelector('.ai-jup-context-note') as HTMLElement | null;
+    if (existing?.dataset.dropped === key) {
+      return;
+    }
+    existing?.remove();
+    if (dropped.length === 0) {
+      return;
+    }
+
+    const { summary, items } = describeDroppedContext(dropped);
+    const note = document.createElement('details');
+    note.className = 'ai-jup-context-note';
+    note.dataset.dropped = key;
+    const summaryElement = document.createElement('summary');
+    summaryElement.textContent = summary;
+    const list = document.createElement('ul');
+    for (const item of items) {
+      const entry = document.createElement('li');
+      entry.textContent = item;
+      list.appendChild(entry);
+    }
+    note.append(summaryElement, list);
+    cell.node.appendChild(note);
+  }
+
+  /**
+   * Keep the partial output of a stopped response and flag it as interrupted.
+   */
+  private _markInterrupted(outputCell: Cell, output: string): void {
+    if (outputCell.isDisposed) {
+      return;
+    }
+    if (!output.trim()) {
+      // Replace the loading indicator when nothing was streamed yet
+      outputCell.model.sharedModel.setSource('*Response interrupted.*');
+    }
+    outputCell.addClass(INTERRUPTED_CLASS);
+  }
+
+  /**
+   * Store the response now shown in an output cell as a new variant and
+   * select it.
+   */
+  private _recordVariant(
+    outputCell: Cell,
+    interrupted: boolean,
+    provenance: IProvenance,
+    fingerprint: IContextFingerprint
+  ): void {
+    if (outputCell.isDisposed) {
+      return;
+    }
+    const metadata = (outputCell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as PromptMetadata;
+    const content = outputCell.model.sharedModel.getSource();
+    const variant = { content, provenance, fingerprint };
+    const updated = addVariant(
+      { ...metadata, provenance, fingerprint },
+      interrupted ? { ...variant, interrupted } : variant
+    );
+    this._setOutputMetadata(outputCell.model, updated, interrupted);
+    this._updateProvenanceBadge(outputCell);
+  }
+
+  /**
+   * Keep the response shown in an output cell without variants as its first
+   * variant, so that regenerating does not lose it.
+   */
+  private _seedVariant(outputCell: Cell): void {
+    const metadata = (outputCell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as PromptMetadata;
+    const content = outputCell.model.sharedModel.getSource();
+    if (!content.trim() || content.includes('class="ai-jup-loading"')) {
+      return;
+    }
+    const updated = seedVariant(
+      metadata,
+      metadata.interrupted ? { content, interrupted: true } : { content }
+    );
+    if (updated !== metadata) {
+      outputCell.model.setMetadata(PROMPT_METADATA_KEY, updated);
+    }
+  }
+
+  /**
+   * Show a previously generated response variant in an output cell.
+   */
+  private _selectVariant(cell: Cell, index: number): void {
+    const metadata = (cell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as PromptMetadata;
+    const selected = selectVariant(metadata, index);
+    const variant = getSelectedVariant(selected);
+    if (!variant) {
+      return;
+    }
+    // Variants from before provenance and fingerprints were recorded have none
+    const { provenance: _provenance, fingerprint: _fingerprint, ...rest } = selected;
+    const updated: PromptMetadata = { ...rest };
+    if (variant.provenance) {
+      updated.provenance = variant.provenance;
+    }
+    if (variant.fingerprint) {
+      updated.fingerprint = variant.fingerprint;
+    }
+
+    cell.model.sharedModel.setSource(variant.content);
+    // Rich tool results are only kept for the latest response
+    this._toolOutputs.get(cell.model.id)?.clear();
+    if (cell.model.getMetadata('ai_jup_content') !== undefined) {
+      cell.model.setMetadata('ai_jup_content', variant.content);
+    }
+    this._setOutputMetadata(cell.model, updated, variant.interrupted === true);
+    cell.toggleClass(INTERRUPTED_CLASS, variant.interrupted === true);
+    this._updateProvenanceBadge(cell);
+    if (cell instanceof MarkdownCell) {
+      cell.rendered = true;
+    }
+    this._updateResponseControls(cell);
+  }
+
+  /**
+   * Write output cell metadata, keeping the `interrupted` flag in sync
+   * with the shown response.
+   */
+  private _setOutputMetadata(
+    model: ICellModel,
+    metadata: PromptMetadata,
+    interrupted: boolean
+  ): void {
+    const { interrupted: _previous, ...rest } = metadata;
+    model.setMetadata(
+      PROMPT_METADATA_KEY,
+      (interrupted ? { ...rest, interrupted: true } : rest) as PromptMetadata
+    );
+  }
+
+  /**
+   * Add the response controls (variant switcher and "Regenerate") to an
+   * output cell. Safe to call repeatedly; existing controls are refreshed.
+   */
+  private _addResponseControls(panel: NotebookPanel, cell: Cell): void {
+    if (!cell.node.querySelector('.ai-jup-response-controls')) {
+      const container = document.createElement('div');
+      container.className = 'ai-jup-response-controls';
+
+      const prevButton = document.createElement('button');
+      prevButton.className = 'jp-mod-styled ai-jup-variant-prev';
+      prevButton.textContent = '‹';
+      prevButton.title = 'Show previous response';
+
+      const label = document.createElement('span');
+      label.className = 'ai-jup-variant-label';
+
+      const nextButton = document.createElement('button');
+      nextButton.className = 'jp-mod-styled ai-jup-variant-next';
+      nextButton.textContent = '›';
+      nextButton.title = 'Show next response';
+
+      const switcher = document.createElement('span');
+      switcher.className = 'ai-jup-variant-switcher';
+      switcher.append(prevButton, label, nextButton);
+
+      const regenerateButton = document.createElement('button');
+      regenerateButton.className = 'jp-mod-styled ai-jup-regenerate-button';
+      regenerateButton.textContent = 'Regenerate';
+      regenerateButton.title = 'Replace this response with a new one (previous responses are kept)';
+
+      const step = (delta: number) => {
+        const metadata = (cell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as PromptMetadata;
+        const count = metadata.variants?.length ?? 0;
+        const current = metadata.selectedVariant ?? count - 1;
+        this._selectVariant(cell, current + delta);
+      };
+      prevButton.addEventListener('click', () => step(-1));
+      nextButton.addEventListener('click', () => step(1));
+      regenerateButton.addEventListener('click', () => {
+        const index = panel.content.widgets.indexOf(cell);
+        if (index < 0) {
+          return;
+        }
+        panel.content.activeCellIndex = index;
+        void this.regeneratePromptCell(panel);
+      });
+
+      container.append(switcher, regenerateButton);
+      cell.node.appendChild(container);
+    }
+    this._setResponseControlsHidden(cell, false);
+    this._updateResponseControls(cell);
+  }
+
+  /**
+   * Refresh the variant switcher label and button states.
+   */
+  private _updateResponseControls(cell: Cell): void {
+    const container = cell.node.querySelector('.ai-jup-response-controls');
+    if (!container) {
+      return;
+    }
+    const metadata = (cell.model.getMetadata(PROMPT_METADATA_KEY) ?? {}) as PromptMetadata;
+    const count = metadata.variants?.length ?? 0;
+    const current = metadata.selectedVariant ?? count - 1;
+
+    const switcher = container.querySelector('.ai-jup-variant-switcher') as HTMLElement;
+    switcher.hidden = count < 2;
+    (container.querySelector('.ai-jup-variant-label') as HTMLElement).textContent =
+      formatVariantLabel(metadata);
+    (container.querySelector('.ai-jup-variant-prev') as HTMLButtonElement).disabled = current <= 0;
+    (container.querySelector('.ai-jup-variant-next') as HTMLButtonElement).disabled =
+      current >= count - 1;
+  }
+
+  /**
+   * Hide or show the response controls while a response is streaming.
+   */
+  private _setResponseControlsHidden(cell: Cell, hidden: boolean): void {
+    const container = cell.node.querySelector('.ai-jup-response-controls') as HTMLElement | null;
+    if (container) {
+      container.hidden = hidden;
+    }
+  }
+
+  /**
+   * Get the kernel namespace cache for a notebook.
+   */
+  getNamespace(panel: NotebookPanel): IKernelNamespace | null {
+    return this._namespaces.get(panel.id) ?? null;
+  }
+
+  /**
+   * Get the executor that runs tool calls in a notebook's kernel session,
+   * or null when tools run on the server, which only runs Python tools.
+   */
+  getToolExecutor(panel: NotebookPanel, language = 'python'): IToolExecutor | null {
+    const connector = this._connectors.get(panel.id);
+    if (!connector) {
+      return null;
+    }
+    if (this._settings?.toolExecution !== 'client' && language.toLowerCase() === 'python') {
+      return null;
+    }
+    return new KernelToolExecutor(connector);
+  }
+
   /**
    * Check if a cell is a prompt cell.
    */
@@ -581,6 +1796,150 @@ export class PromptCellManager implements IPromptCellManager {
     return metadata?.isPromptCell === true;
   }
 
+  /**
+   * Show an "AI" badge on AI-generated cells, with their provenance as its
+   * tooltip, and remove it from other cells.
+   */
+  private _updateProvenanceBadge(cell: Cell): void {
+    if (cell.isDisposed) {
+      return;
+    }
+    const metadata = cell.model.getMetadata(PROMPT_METADATA_KEY);
+    let badge = cell.node.querySelector(`.${PROVENANCE_BADGE_CLASS}`) as HTMLElement | null;
+    const generated = isAIGenerated(metadata);
+    cell.toggleClass(AI_GENERATED_CLASS, generated);
+    if (!generated) {
+      badge?.remove();
+      return;
+    }
+    if (!badge) {
+      badge = document.createElement('span');
+      badge.className = PROVENANCE_BADGE_CLASS;
+      badge.textContent = 'AI';
+      cell.node.appendChild(badge);
+    }
+    badge.title = describeProvenance(readProvenance(metadata));
+  }
+
+  /**
+   * Check the responses of a notebook for staleness once it has not changed
+   * for a moment. `refreshVariables` re-reads the referenced variables from
+   * the kernel; otherwise their last known values are used.
+   */
+  private _scheduleStaleCheck(panel: NotebookPanel, refreshVariables: boolean): void {
+    const pending = this._staleChecks.get(panel.id);
+    window.clearTimeout(pending?.timer);
+    const refresh = refreshVariables || pending?.refreshVariables === true;
+    const timer = window.setTimeout(() => {
+      this._staleChecks.delete(panel.id);
+      void this._checkStale(panel, refresh);
+    }, STALE_CHECK_DELAY);
+    this._staleChecks.set(panel.id, { timer, refreshVariables: refresh });
+  }
+
+  /**
+   * Compare the fingerprint of each response with the notebook and mark
+   * the responses whose code cells, variables or kernel have changed.
+   */
+  private async _checkStale(panel: NotebookPanel, refreshVariables: boolean): Promise<void> {
+    if (panel.isDisposed) {
+      return;
+    }
+    const responses: { cell: Cell; promptIndex: number; fingerprint: IContextFingerprint }[] = [];
+    panel.content.widgets.forEach((cell, index) => {
+      if (!this._isOutputCellModel(cell.model) || this._running.has(cell.model.id)) {
+        return;
+      }
+      const fingerprint = readFingerprint(cell.model.getMetadata(PROMPT_METADATA_KEY));
+      const promptIndex = this._findPromptIndex(panel, index);
+      if (fingerprint && promptIndex >= 0) {
+        responses.push({ cell, promptIndex, fingerprint });
+      } else {
+        this._setStale(panel, cell, []);
+      }
+    });
+    if (responses.length === 0) {
+      return;
+    }
+
+    const connector = this._connectors.get(panel.id);
+    const names = this._responseVariables(panel);
+    if (refreshVariables && connector && names.length > 0) {
+      try {
+        const introspection = await connector.introspect({ variables: names, functions: [] });
+        this._variableHashes.set(
+          panel.id,
+          await fingerprintVariables(this._introspectedVariables(introspection))
+        );
+      } catch (error) {
+        console.warn('[ai-jup] Failed to check referenced variables:', error);
+      }
+    }
+
+    // Hash every code cell once; each response compares those above it
+    const model = panel.content.model;
+    const codeIndices: number[] = [];
+    const codeCells: { id: string; source: string }[] = [];
+    for (let i = 0; model && i < model.cells.length; i++) {
+      const cellModel = model.cells.get(i);
+      if (cellModel.type === 'code') {
+        codeIndices.push(i);
+        codeCells.push({ id: cellModel.id, source: cellModel.sharedModel.getSource() });
+      }
+    }
+    const cellHashes = await fingerprintCells(codeCells);
+
+    const variables = this._variableHashes.get(panel.id) ?? {};
+    const kernelId = panel.sessionContext.session?.kernel?.id ?? null;
+    for (const { cell, promptIndex, fingerprint } of responses) {
+      const cells = cellHashes.filter((_, i) => codeIndices[i] < promptIndex);
+      if (!cell.isDisposed && !this._running.has(cell.model.id)) {
+        this._setStale(panel, cell, staleReasons(fingerprint, { kernelId, cells, variables }));
+      }
+    }
+  }
+
+  /**
+   * Get the variables referenced by the responses of a notebook.
+   */
+  private _responseVariables(panel: NotebookPanel): string[] {
+    const names = new Set<string>();
+    const model = panel.content.model;
+    for (let i = 0; model && i < model.cells.length; i++) {
+      const fingerprint = readFingerprint(model.cells.get(i).getMetadata(PROMPT_METADATA_KEY));
+      Object.keys(fingerprint?.variables ?? {}).forEach(name => names.add(name));
+    }
+    return [...names];
+  }
+
+  /**
+   * Mark a response as stale with a badge that regenerates it, listing
+   * `reasons` in its tooltip, or clear the mark if there are none.
+   */
+  private _setStale(panel: NotebookPanel, cell: Cell, reasons: string[]): void {
+    cell.toggleClass(STALE_CLASS, reasons.length > 0);
+    let badge = cell.node.querySelector('.ai-jup-stale-badge') as HTMLButtonElement | null;
+    if (reasons.length === 0) {
+      badge?.remove();
+      return;
+    }
+    if (!badge) {
+      badge = document.createElement('button');
+      badge.className = 'jp-mod-styled ai-jup-stale-badge';
+      badge.textContent = '↻ Outdated';
+      badge.addEventListener('click', () => {
+        const index = panel.content.widgets.indexOf(cell);
+        if (index < 0) {
+          return;
+        }
+        panel.content.activeCellIndex = index;
+        void this.regeneratePromptCell(panel);
+      });
+      cell.node.appendChild(badge);
+    }
+    badge.title = `This response may be out of date:\n${reasons.join('\n')}\nClick to regenerate it.`;
+  }
+
   /**
    * Check if a cell model is an AI output cell.
    */
@@ -614,7 +1973,10 @@ export class PromptCellManager implements IPromptCellManager {
 
     button.addEventListener('click', () => {
       const storedContent = cell.model.getMetadata('ai_jup_content') as string || content;
-      this._convertToCells(panel, cell, storedContent);
+      this._convertToCells(panel, cell, storedContent).catch((error: unknown) => {
+        console.error('[ai-jup] Failed to convert the response to cells:', error);
+        void showErrorMessage('Convert to Cells Failed', error instanceof Error ? error : String(error));
+      });
     });
 
     buttonContainer.appendChild(button);
@@ -624,99 +1986,132 @@ export class PromptCellManager implements IPromptCellManager {
   }
 
   /**
-   * Convert an AI response cell into native code and markdown cells.
+   * Convert an AI response cell into native code and markdown cells, after
+   * the user has reviewed the proposed cells.
    */
-  private _convertToCells(panel: NotebookPanel, responseCell: Cell, content: string): void {
-    const notebook = panel.content;
-    const cellIndex = notebook.widgets.indexOf(responseCell);
-    
-    if (cellIndex < 0 || !notebook.model) {
-      console.log('[ai-jup] Convert: invalid cell index or no model');
+  private async _convertToCells(panel: NotebookPanel, responseCell: Cell, content: string): Promise<void> {
+    const language = (await this._connectors.get(panel.id)?.getLanguageInfo())?.name ?? 'python';
+    // Tool call transcripts are not part of the answer
+    const cells = planCells(stripToolTranscripts(content), language);
+    if (cells.length === 0) {
       return;
     }
 
-    console.log('[ai-jup] Converting content:', content.substring(0, 200) + '...');
+    const selected = await showConvertPreview(cells);
+    if (!selected || selected.length === 0) {
+      return;
+    }
 
-    // Parse the content into blocks
-    const blocks = this._parseContentBlocks(content);
-    
-    console.log('[ai-jup] Parsed blocks:', blocks.length, blocks.map(b => ({ type: b.type, len: b.content.length })));
-    
-    if (blocks.length === 0) {
-      console.log('[ai-jup] No blocks parsed, keeping original cell');
+    // The notebook may have changed while the preview was open
+    const notebook = panel.content;
+    const model = notebook.model;
+    const cellIndex = notebook.widgets.indexOf(responseCell);
+    if (cellIndex < 0 || !model) {
       return;
     }
 
-    // Remove the response cell
-    notebook.model.sharedModel.deleteCell(cellIndex);
+    // Replace the response cell in one undoable step. The new cells point
+    // back to the response, which is kept in the notebook metadata so that
+    // the conversion can be reverted.
+    const responseId = responseCell.model.id;
+    const response = responseCell.model.toJSON();
+    const provenance = readProvenance(responseCell.model.getMetadata(PROMPT_METADATA_KEY));
+    this._pruneConversions(panel);
+    model.sharedModel.transact(() => {
+      model.sharedModel.deleteCell(cellIndex);
+      model.sharedModel.insertCells(
+        cellIndex,
+        selected.map(cell => ({
+          cell_type: cell.cellType,
+          source: cell.source,
+          metadata: {
+            [PROMPT_METADATA_KEY]: provenance ? { convertedFrom: responseId, provenance } : { convertedFrom: responseId }
+          }
+        }))
+      );
+      model.setMetadata(
+        PROMPT_METADATA_KEY,
+        recordConversion(model.getMetadata(PROMPT_METADATA_KEY), responseId, response)
+      );
+    });
+  }
 
-    // Insert new cells in reverse order (so they end up in correct order)
-    for (let i = blocks.length - 1; i >= 0; i--) {
-      const block = blocks[i];
-      const cellData = {
-        cell_type: block.type === 'code' ? 'code' : 'markdown',
-        source: block.content,
-        metadata: {}
-      };
-      notebook.model.sharedModel.insertCell(cellIndex, cellData);
+  /**
+   * Drop the converted responses that no cell points back to any more, e.g.
+   * after the cells were deleted or the conversion undone, from the notebook
+   * metadata.
+   */
+  private _pruneConversions(panel: NotebookPanel): void {
+    const model = panel.content.model;
+    const metadata = model?.getMetadata(PROMPT_METADATA_KEY);
+    if (!model || !metadata) {
+      return;
+    }
+    const cellMetadata = panel.content.widgets.map(cell => cell.model.getMetadata(PROMPT_METADATA_KEY));
+    const pruned = pruneConversions(metadata, cellMetadata);
+    if (pruned !== metadata) {
+      model.setMetadata(PROMPT_METADATA_KEY, pruned);
     }
-    
-    console.log('[ai-jup] Inserted', blocks.length, 'cells');
   }
 
   /**
-   * Parse markdown content into code and text blocks.
+   * Select all AI-generated cells of a notebook, making the first one
+   * active. Returns the number of selected cells.
    */
-  private _parseContentBlocks(content: string): Array<{ type: 'code' | 'markdown'; content: string; language?: string }> {
-    const blocks: Array<{ type: 'code' | 'markdown'; content: string; language?: string }> = [];
-    
-    // Normalize line endings
-    const normalizedContent = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-    
-    // Regex to match fenced code blocks - handles:
-    // - Optional language specifier
-    // - Optional whitespace after language
-    // - Code content (non-greedy)
-    // - Closing ``` (may be preceded by newline or not)
-    const codeBlockRegex = /```(\w*)[ \t]*\n?([\s\S]*?)\n?```/g;
-    
-    let lastIndex = 0;
-    let match;
-
-    console.log('[ai-jup] Parsing content, length:', normalizedContent.length);
-    console.log('[ai-jup] Content starts with:', JSON.stringify(normalizedContent.substring(0, 100)));
-
-    while ((match = codeBlockRegex.exec(normalizedContent)) !== null) {
-      console.log('[ai-jup] Found code block match at', match.index, 'language:', match[1], 'code length:', match[2].length);
-      
-      // Add any text before this code block
-      const textBefore = normalizedContent.slice(lastIndex, match.index).trim();
-      if (textBefore) {
-        blocks.push({ type: 'markdown', content: textBefore });
-      }
-
-      // Add the code block
-      const language = match[1] || 'python';
-      const code = match[2].trim();
-      if (code) {
-        blocks.push({ type: 'code', content: code, language });
+  selectAIGenerated(panel: NotebookPanel): number {
+    const notebook = panel.content;
+    const indices: number[] = [];
+    notebook.widgets.forEach((cell, index) => {
+      if (isAIGenerated(cell.model.getMetadata(PROMPT_METADATA_KEY))) {
+        indices.push(index);
       }
-
-      lastIndex = match.index + match[0].length;
+    });
+    if (indices.length === 0) {
+      return 0;
     }
-
-    // Add any remaining text after the last code block
-    const remainingText = normalizedContent.slice(lastIndex).trim();
-    if (remainingText) {
-      blocks.push({ type: 'markdown', content: remainingText });
+    notebook.activeCellIndex = indices[0];
+    notebook.deselectAll();
+    for (const index of indices) {
+      notebook.select(notebook.widgets[index]);
     }
+    return indices.length;
+  }
 
-    // If no code blocks found but content exists, return as single markdown block
-    if (blocks.length === 0 && normalizedContent.trim()) {
-      console.log('[ai-jup] No code blocks found, returning as single markdown');
-      blocks.push({ type: 'markdown', content: normalizedContent.trim() });
+  /**
+   * Replace the block of converted cells around the active cell with the
+   * original response cell, in one undoable step. Copies of converted cells
+   * elsewhere in the notebook are left alone.
+   */
+  revertConversion(panel: NotebookPanel): boolean {
+    const notebook = panel.content;
+    const model = notebook.model;
+    const cellMetadata = notebook.widgets.map(cell => cell.model.getMetadata(PROMPT_METADATA_KEY));
+    const block = findConvertedBlock(cellMetadata, notebook.activeCellIndex);
+    if (!model || !block) {
+      void showErrorMessage('Revert Conversion Failed', 'The active cell was not converted from an AI response.');
+      return false;
+    }
+    const { responseId, start, end } = block;
+    const response = readConversion(model.getMetadata(PROMPT_METADATA_KEY), responseId);
+    if (!response) {
+      void showErrorMessage(
+        'Revert Conversion Failed',
+        'The response these cells were converted from is no longer recorded in the notebook.'
+      );
+      return false;
     }
 
-    return blocks;
+    model.sharedModel.transact(() => {
+      model.sharedModel.deleteCellRange(start, end);
+      model.sharedModel.insertCell(start, response);
+      // Copies of the converted cells elsewhere keep the response recorded
+      const remaining = [...cellMetadata.slice(0, start), ...cellMetadata.slice(end)];
+      model.setMetadata(
+        PROMPT_METADATA_KEY,
+        pruneConversions(model.getMetadata(PROMPT_METADATA_KEY), remaining)
+      );
+    });
+    notebook.activeCellIndex = start;
+    return true;
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * Tests for reference completion in prompt cells.
+ */
+
+import { getReferenceQuery, describeEntry, buildCompletionItems } from './promptCompleter';
+import type { INamespaceEntry } from './tokens';
+
+const ENTRIES: INamespaceEntry[] = [
+  { name: 'df', type: 'DataFrame', callable: false, shape: [100, 5] },
+  { name: 'arr', type: 'ndarray', callable: false, shape: [3] },
+  { name: 'np', type: 'module', callable: false },
+  { name: 'load', type: 'function', callable: true, signature: "(path, sep=',')" },
+  { name: 'helper', type: 'function', callable: true }
+];
+
+describe('getReferenceQuery', () => {
+  it('should detect an opened variable reference', () => {
+    const text = 'Describe $`d';
+    expect(getReferenceQuery(text, text.length)).toEqual({
+      sigil: '$',
+      prefix: 'd',
+      start: text.length - 1
+    });
+  });
+
+  it('should detect an empty function reference', () => {
+    const text = 'Use &`';
+    expect(getReferenceQuery(text, text.length)).toEqual({
+      sigil: '&',
+      prefix: '',
+      start: text.length
+    });
+  });
+
+  it('should use the cursor offset rather than the end of the text', () => {
+    const text = 'A $`df` and B';
+    expect(getReferenceQuery(text, 6)).toEqual({ sigil: '$', prefix: 'df', start: 4 });
+  });
+
+  it('should ignore text outside references', () => {
+    expect(getReferenceQuery('plain text', 10)).toBeNull();
+    expect(getReferenceQuery('price $5', 8)).toBeNull();
+  });
+
+  it('should ignore the closing backtick of a finished reference', () => {
+    const text = 'See $`df` and &`';
+    expect(getReferenceQuery(text, 9)).toBeNull();
+    expect(getReferenceQuery(text, text.length)?.sigil).toBe('&');
+  });
+});
+
+describe('describeEntry', () => {
+  it('should include the shape of array-like values', () => {
+    expect(describeEntry(ENTRIES[0])).toBe('DataFrame (100, 5)');
+  });
+
+  it('should include the signature of callables', () => {
+    expect(describeEntry(ENTRIES[3])).toBe("load(path, sep=',')");
+    expect(describeEntry(ENTRIES[4])).toBe('helper(...)');
+  });
+});
+
+describe('buildCompletionItems', () => {
+  it('should list values for $` references, without modules', () => {
+    const items = buildCompletionItems({ sigil: '$', prefix: '', start: 0 }, ENTRIES, '');
+    expect(items.map(item => item.label)).toEqual(['arr', 'df']);
+    expect(items[1]).toEqual({
+      label: 'df',
+      insertText: 'df`',
+      type: 'DataFrame',
+      documentation: 'DataFrame (100, 5)'
+    });
+  });
+
+  it('should list callables for &` references', () => {
+    const items = buildCompletionItems({ sigil: '&', prefix: '', start: 0 }, ENTRIES, '');
+    expect(items.map(item => item.label)).toEqual(['helper', 'load']);
+  });
+
+  it('should not add a closing backtick when one follows the cursor', () => {
+    const items = buildCompletionItems({ sigil: '$', prefix: '', start: 0 }, ENTRIES, '`');
+    expect(items[0].insertText).toBe('arr');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Kernel-aware completion for $`variable` and &`function` references
+ * inside prompt cells.
+ *
+ * Registered with JupyterLab's completion provider manager; only applies
+ * when the active notebook cell is a prompt cell.
+ */
+
+import { Extension } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import type {
+  CompletionHandler,
+  ICompletionContext,
+  ICompletionProvider
+} from '@jupyterlab/completer';
+import type { INotebookTracker } from '@jupyterlab/notebook';
+import type { INamespaceEntry, IPromptCellManager } from './tokens';
+
+/** Source change passed to `shouldShowContinuousHint` */
+type SourceChange = Parameters<NonNullable<ICompletionProvider['shouldShowContinuousHint']>>[1];
+
+/**
+ * A reference being typed at the cursor, e.g. `$\`df` or `&\`lo`.
+ */
+export interface IReferenceQuery {
+  sigil: '$' | '&';
+  /** Text typed after the opening backtick */
+  prefix: string;
+  /** Offset of the first character after the opening backtick */
+  start: number;
+}
+
+/**
+ * Find the reference being typed just before `offset`, if any.
+ */
+export function getReferenceQuery(text: string, offset: number): IReferenceQuery | null {
+  const before = text.slice(0, offset);
+  const match = /([$&])`([a-zA-Z0-9_]*)$/.exec(before);
+  if (!match) {
+    return null;
+  }
+  // An even number of backticks before the sigil means we are not inside
+  // an earlier reference's backticks (e.g. the closing one of $`a`)
+  const backticksBefore = (before.slice(0, match.index).match(/`/g) ?? []).length;
+  if (backticksBefore % 2 !== 0) {
+    return null;
+  }
+  return {
+    sigil: match[1] as IReferenceQuery['sigil'],
+    prefix: match[2],
+    start: offset - match[2].length
+  };
+}
+
+/**
+ * Describe a namespace entry for the completer, e.g. "DataFrame (100, 5)"
+ * or "load(path, sep=',')".
+ */
+export function describeEntry(entry: INamespaceEntry): string {
+  if (entry.callable) {
+    return `${entry.name}${entry.signature ?? '(...)'}`;
+  }
+  return entry.shape ? `${entry.type} (${entry.shape.join(', ')})` : entry.type;
+}
+
+/**
+ * Build completion items for a reference query from kernel namespace entries.
+ * $` lists non-callable values, &` lists callables.
+ */
+export function buildCompletionItems(
+  query: IReferenceQuery,
+  entries: ReadonlyArray<INamespaceEntry>,
+  nextChar: string
+): CompletionHandler.ICompletionItem[] {
+  const wantCallables = query.sigil === '&';
+  const closing = nextChar === '`' ? '' : '`';
+
+  return entries
+    .filter(entry => entry.callable === wantCallables && entry.type !== 'module')
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(entry => ({
+      label: entry.name,
+      insertText: entry.name + closing,
+      type: entry.type,
+      documentation: describeEntry(entry)
+    }));
+}
+
+/**
+ * Completion provider for references in prompt cells.
+ */
+export class PromptCompletionProvider implements ICompletionProvider {
+  readonly identifier = 'ai-jup:prompt-references';
+  readonly rank = 1000;
+  readonly renderer = null;
+
+  private _tracker: INotebookTracker;
+  private _manager: IPromptCellManager;
+
+  constructor(tracker: INotebookTracker, manager: IPromptCellManager) {
+    this._tracker = tracker;
+    this._manager = manager;
+  }
+
+  /**
+   * Only applicable to the active cell of a notebook when it is a prompt cell.
+   */
+  async isApplicable(context: ICompletionContext): Promise<boolean> {
+    const panel = this._tracker.currentWidget;
+    const activeCell = panel?.content.activeCell;
+    return (
+      !!panel &&
+      panel.id === context.widget.id &&
+      !!activeCell &&
+      this._manager.isPromptCell(activeCell)
+    );
+  }
+
+  /**
+   * List kernel names matching the reference at the cursor.
+   */
+  async fetch(
+    request: CompletionHandler.IRequest,
+    context: ICompletionContext
+  ): Promise<CompletionHandler.ICompletionItemsReply> {
+    const query = getReferenceQuery(request.text, request.offset);
+    const panel = this._tracker.currentWidget;
+    const namespace = panel ? this._manager.getNamespace(panel) : null;
+    if (!query || !namespace || panel?.id !== context.widget.id) {
+      return { start: request.offset, end: request.offset, items: [] };
+    }
+
+    if (!namespace.loaded) {
+      await namespace.refresh();
+    }
+
+    return {
+      start: query.start,
+      end: request.offset,
+      items: buildCompletionItems(
+        query,
+        namespace.entries,
+        request.text.charAt(request.offset)
+      )
+    };
+  }
+
+  /**
+   * Show completions as soon as a reference is opened with $` or &`
+   * (when continuous hinting is enabled).
+   */
+  shouldShowContinuousHint(completerIsVisible: boolean, changed: SourceChange): boolean {
+    if (completerIsVisible) {
+      return true;
+    }
+    const inserted = (changed.sourceChange ?? [])
+      .map(delta => delta.insert ?? '')
+      .join('');
+    return inserted === '`';
+  }
+}
+
+/**
+ * Editor extension that calls `open` when a reference is opened by typing
+ * the backtick of $` or &` in a prompt cell, so completions appear without
+ * pressing Tab.
+ */
+export function referenceOpenTrigger(
+  isPromptCell: () => boolean,
+  open: () => void
+): Extension {
+  return EditorView.updateListener.of(update => {
+    if (
+      !update.docChanged ||
+      !update.transactions.some(tr => tr.isUserEvent('input')) ||
+      !isPromptCell()
+    ) {
+      return;
+    }
+    let opened = false;
+    update.changes.iterChanges((_fromA, _toA, _fromB, toB, inserted) => {
+      if (
+        inserted.toString() === '`' &&
+        /[$&]`$/.test(update.state.doc.sliceString(Math.max(0, toB - 2), toB))
+      ) {
+        opened = true;
+      }
+    });
+    if (opened) {
+      // Defer so the completer sees the updated editor state
+      requestAnimationFrame(open);
+    }
+  });
+}
@@ -0,0 +1,143 @@
+/**
+ * CodeMirror extension that highlights $`variable` and &`function`
+ * references in prompt cells.
+ *
+ * References defined in the kernel use the regular reference colours,
+ * unresolved references and parse errors are flagged in a warning colour.
+ */
+
+import { Extension, Range, StateEffect } from '@codemirror/state';
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  ViewPlugin,
+  ViewUpdate
+} from '@codemirror/view';
+import type { ISignal } from '@lumino/signaling';
+import type { IKernelNamespace } from './tokens';
+import { tokenizePrompt } from './promptParser';
+import { isTokenResolved } from './kernelNamespace';
+
+const VARIABLE_REF_CLASS = 'ai-jup-variable-ref';
+const FUNCTION_REF_CLASS = 'ai-jup-function-ref';
+const UNRESOLVED_REF_CLASS = 'ai-jup-ref-unresolved';
+const ERROR_REF_CLASS = 'ai-jup-ref-error';
+
+/**
+ * Options for the prompt highlighter.
+ */
+export interface IPromptHighlighterOptions {
+  /** Whether the edited cell is currently a prompt cell */
+  isPromptCell: () => boolean;
+  /** Signal emitted when the cell may have become or stopped being a prompt cell */
+  promptCellChanged?: ISignal<unknown, unknown>;
+  /** Kernel namespace used to resolve references, if available */
+  getNamespace: () => IKernelNamespace | null;
+  /** Whether expression references are allowed */
+  allowExpressions: () => boolean;
+}
+
+/** Effect dispatched to rebuild decorations when the namespace or cell changes */
+const refreshEffect = StateEffect.define<null>();
+
+/**
+ * Create the prompt reference highlighting extension.
+ */
+export function promptHighlighter(options: IPromptHighlighterOptions): Extension {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+      private _view: EditorView;
+      private _namespace: IKernelNamespace | null = null;
+      private _isPromptCell = false;
+
+      constructor(view: EditorView) {
+        this._view = view;
+        this.decorations = this._build();
+        options.promptCellChanged?.connect(this._onPromptCellChanged, this);
+      }
+
+      update(update: ViewUpdate): void {
+        const refreshed = update.transactions.some(tr =>
+          tr.effects.some(effect => effect.is(refreshEffect))
+        );
+        if (update.docChanged || refreshed) {
+          this.decorations = this._build();
+        }
+      }
+
+      destroy(): void {
+        this._watch(null);
+        options.promptCellChanged?.disconnect(this._onPromptCellChanged, this);
+      }
+
+      private _onNamespaceChanged(): void {
+        this._view.dispatch({ effects: refreshEffect.of(null) });
+      }
+
+      private _onPromptCellChanged(): void {
+        if (options.isPromptCell() !== this._isPromptCell) {
+          this._view.dispatch({ effects: refreshEffect.of(null) });
+        }
+      }
+
+      /**
+       * Follow changes of the namespace used for resolution.
+       */
+      private _watch(namespace: IKernelNamespace | null): void {
+        if (namespace === this._namespace) {
+          return;
+        }
+        this._namespace?.changed.disconnect(this._onNamespaceChanged, this);
+        this._namespace = namespace;
+        this._namespace?.changed.connect(this._onNamespaceChanged, this);
+      }
+
+      private _build(): DecorationSet {
+        this._isPromptCell = options.isPromptCell();
+        if (!this._isPromptCell) {
+          return Decoration.none;
+        }
+
+        const namespace = options.getNamespace();
+        this._watch(namespace);
+
+        const text = this._view.state.doc.toString();
+        const { tokens, errors } = tokenizePrompt(text, {
+          allowExpressions: options.allowExpressions()
+        });
+
+        const ranges: Range<Decoration>[] = [];
+        for (const token of tokens) {
+          const resolved = isTokenResolved(token, namespace);
+          const classes = [token.type === 'variable' ? VARIABLE_REF_CLASS : FUNCTION_REF_CLASS];
+          if (!resolved) {
+            classes.push(UNRESOLVED_REF_CLASS);
+          }
+          ranges.push(
+            Decoration.mark({
+              class: classes.join(' '),
+              attributes: resolved
+                ? {}
+                : { title: `\`${token.name}\` is not defined in the kernel` }
+            }).range(token.start, token.end)
+          );
+        }
+        for (const error of errors) {
+          ranges.push(
+            Decoration.mark({
+              class: ERROR_REF_CLASS,
+              attributes: { title: error.message }
+            }).range(error.start, error.end)
+          );
+        }
+
+        return Decoration.set(ranges, true);
+      }
+    },
+    {
+      decorations: plugin => plugin.decorations
+    }
+  );
+}
@@ -2,7 +2,7 @@
  * Tests for PromptModel signal-based streaming.
  */
 
-import { PromptModel, PromptModelFactory } from './promptModel';
+import { PromptModel, PromptModelFactory, toStreamEvent } from './promptModel';
 import type { IStreamEvent, IPromptContext } from './tokens';
 
 describe('PromptModel', () => {
@@ -58,6 +58,41 @@ describe('PromptModel', () => {
       model.abort();
       expect(model.state).toBe('idle');
     });
+
+    it('should mark execution as interrupted when aborted mid-request', async () => {
+      const g = global as unknown as Record<string, unknown>;
+      const originalFetch = g.fetch;
+      g.document = { cookie: '' };
+      g.fetch = jest.fn(
+        (_url: string, init: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () => {
+              const error = new Error('The operation was aborted');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          })
+      );
+
+      try {
+        const context: IPromptContext = { preceding_code: '', variables: {}, functions: {} };
+        const execution = model.executePrompt('hi', context, { model: 'test' });
+        expect(model.state).toBe('executing');
+
+        model.abort();
+        await execution;
+
+        expect(model.interrupted).toBe(true);
+        expect(model.state).toBe('idle');
+      } finally {
+        g.fetch = originalFetch;
+        delete g.document;
+      }
+    });
+
+    it('should not be interrupted initially', () => {
+      expect(model.interrupted).toBe(false);
+    });
   });
   
   describe('reset', () => {
@@ -86,6 +121,281 @@ describe('PromptModel', () => {
   });
 });
 
+describe('executePrompt request', () => {
+  const originalFetch = global.fetch;
+  const globals = global as unknown as { document?: { cookie: string } };
+
+  beforeEach(() => {
+    globals.document = { cookie: '' };
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    delete globals.document;
+  });
+
+  it('should send the provider and base URL', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 500,
+      statusText: 'Server Error',
+      json: async () => ({ error: 'openai package not installed' })
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const model = new PromptModel();
+
+    await expect(
+      model.executePrompt(
+        'hi',
+        { preceding_code: '', variables: {}, functions: {} },
+        { model: 'llama3', provider: { id: 'local', baseUrl: 'http://localhost:8000/v1' } }
+      )
+    ).rejects.toThrow('openai package not installed');
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.model).toBe('llama3');
+    expect(body.provider).toBe('local');
+    expect(body.base_url).toBe('http://localhost:8000/v1');
+    expect(model.state).toBe('error');
+    model.dispose();
+  });
+
+  it('should send the tool approval mode', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 500,
+      statusText: 'Server Error',
+      json: async () => ({})
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const model = new PromptModel();
+
+    await expect(
+      model.executePrompt(
+        'hi',
+        { preceding_code: '', variables: {}, functions: {} },
+        { model: 'm', toolApproval: { mode: 'unlisted', approvedTools: ['load'] } }
+      )
+    ).rejects.toThrow('HTTP 500');
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.tool_approval).toBe('unlisted');
+    expect(body.approved_tools).toEqual(['load']);
+    expect(body.tool_execution).toBe('server');
+    model.dispose();
+  });
+
+  it('should run tool calls with the executor and post the results', async () => {
+    const encoder = new TextEncoder();
+    let resultPosted: () => void = () => undefined;
+    const posted = new Promise<void>(resolve => (resultPosted = resolve));
+    const chunks = [
+      'data: {"tool_execute": {"id": "r1", "tool_id": "t1", "name": "add", "input": {"x": 1}}}\n\n',
+      'data: {"done": true}\n\n'
+    ];
+    // The server only continues the stream once it has the tool result
+    const reader = {
+      read: jest.fn(async () => {
+        if (reader.read.mock.calls.length === 2) {
+          await posted;
+        }
+        const chunk = chunks.shift();
+        return chunk ? { done: false, value: encoder.encode(chunk) } : { done: true, value: undefined };
+      }),
+      releaseLock: jest.fn()
+    };
+    const fetchMock = jest.fn(async (url: string, _init: RequestInit) => {
+      if (url.endsWith('ai-jup/tool-result')) {
+        resultPosted();
+        return { ok: true };
+      }
+      return { ok: true, body: { getReader: () => reader } };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const toolExecutor = {
+      execute: jest.fn(async () => ({
+        status: 'success' as const,
+        result: { type: 'text' as const, content: '2' }
+      }))
+    };
+    const model = new PromptModel();
+
+    await model.executePrompt(
+      'hi',
+      {
+        preceding_code: '',
+        variables: {},
+        functions: {
+          add: {
+            name: 'add',
+            signature: '(x, y=1)',
+            docstring: '',
+            parameters: { x: { type: 'int', description: '' }, y: { type: 'int', description: '' } }
+          }
+        }
+      },
+      { model: 'm', toolExecutor }
+    );
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).tool_execution).toBe('client');
+    expect(toolExecutor.execute).toHaveBeenCalledWith('add', { x: 1 }, ['x', 'y']);
+    expect(fetchMock.mock.calls[1][0]).toBe('http://localhost:8888/ai-jup/tool-result');
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({
+      id: 'r1',
+      result: { status: 'success', result: { type: 'text', content: '2' } }
+    });
+    model.dispose();
+  });
+
+  it('should show tool calls as collapsed transcripts around the text', async () => {
+    const encoder = new TextEncoder();
+    const chunks = [
+      'data: {"text": "Checking."}\n\n',
+      'data: {"tool_call": {"name": "add", "id": "t1"}}\n\n',
+      'data: {"tool_input": "{\\"x\\": 1}"}\n\n',
+      'data: {"tool_result": {"id": "t1", "name": "add", "input": {"x": 1}, "duration": 0.5, ' +
+        '"result": {"status": "success", "result": {"type": "text", "content": "2"}}}}\n\n',
+      'data: {"text": "The answer is 2."}\n\n',
+      'data: {"tool_call": {"name": "add", "id": "t2"}}\n\n',
+      'data: {"done": true}\n\n'
+    ];
+    const reader = {
+      read: jest.fn(async () => {
+        const chunk = chunks.shift();
+        return chunk ? { done: false, value: encoder.encode(chunk) } : { done: true, value: undefined };
+      }),
+      releaseLock: jest.fn()
+    };
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      body: { getReader: () => reader }
+    })) as unknown as typeof fetch;
+    const model = new PromptModel();
+
+    await model.executePrompt('hi', { preceding_code: '', variables: {}, functions: {} }, { model: 'm' });
+
+    const blocks = model.output.split('<details class="ai-jup-tool-call">');
+    expect(blocks).toHaveLength(3);
+    expect(blocks[0].trim()).toBe('Checking.');
+    expect(blocks[1]).toContain('<summary>🔧 <code>add</code> · done · 500 ms</summary>');
+    expect(blocks[1]).toContain('```json\n{\n  "x": 1\n}\n```');
+    expect(blocks[1]).toContain('**Tool Result:**\n```\n2\n```');
+    expect(blocks[1].split('</details>')[1].trim()).toBe('The answer is 2.');
+    expect(blocks[2]).toContain('<summary>🔧 <code>add</code> · not run</summary>');
+    model.dispose();
+  });
+
+  it('should let a failed approval answer be retried', async () => {
+    const encoder = new TextEncoder();
+    let approved: () => void = () => undefined;
+    const answered = new Promise<void>(resolve => (approved = resolve));
+    const chunks = [
+      'data: {"tool_approval": {"id": "a1", "tool_id": "t1", "name": "add", "input": {"x": 1}}}\n\n',
+      'data: {"done": true}\n\n'
+    ];
+    const reader = {
+      read: jest.fn(async () => {
+        if (reader.read.mock.calls.length === 2) {
+          await answered;
+        }
+        const chunk = chunks.shift();
+        return chunk ? { done: false, value: encoder.encode(chunk) } : { done: true, value: undefined };
+      }),
+      releaseLock: jest.fn()
+    };
+    let approvalPosts = 0;
+    const fetchMock = jest.fn(async (url: string) => {
+      if (url.endsWith('ai-jup/tool-approval')) {
+        approvalPosts++;
+        return approvalPosts === 1 ? { ok: false, status: 502, statusText: 'Bad Gateway' } : { ok: true };
+      }
+      return { ok: true, body: { getReader: () => reader } };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const model = new PromptModel();
+    model.streamEvent.connect((_, event) => {
+      if (event.type !== 'tool_approval') {
+        return;
+      }
+      void (async () => {
+        await expect(model.respondToToolApproval('a1', { decision: 'approve' })).rejects.toThrow('HTTP 502');
+        await model.respondToToolApproval('a1', { decision: 'approve' });
+        approved();
+      })();
+    });
+
+    await model.executePrompt('hi', { preceding_code: '', variables: {}, functions: {} }, { model: 'm' });
+
+    expect(approvalPosts).toBe(2);
+    model.dispose();
+  });
+
+  it('should ignore answers to unknown approval requests', async () => {
+    const fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const model = new PromptModel();
+
+    await model.respondToToolApproval('a1', { decision: 'approve' });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    model.dispose();
+  });
+});
+
+describe('toStreamEvent', () => {
+  it('should convert server events', () => {
+    expect(toStreamEvent({ text: 'Hi' })).toEqual({ type: 'text', text: 'Hi' });
+    expect(toStreamEvent({ error: 'Boom' })).toEqual({ type: 'error', error: 'Boom' });
+    expect(toStreamEvent({ tool_call: { name: 'add', id: 't1' } })).toEqual({
+      type: 'tool_call',
+      toolCall: { name: 'add', id: 't1' }
+    });
+    expect(toStreamEvent({ tool_input: '{"x": 1}' })).toEqual({
+      type: 'tool_input',
+      toolInput: '{"x": 1}'
+    });
+    expect(
+      toStreamEvent({ tool_result: { id: 't1', name: 'add', result: { status: 'success' } } })
+    ).toEqual({
+      type: 'tool_result',
+      toolResult: { id: 't1', name: 'add', result: { status: 'success' } }
+    });
+    expect(
+      toStreamEvent({
+        tool_result: { id: 't1', name: 'add', input: { x: 2 }, duration: 0.25, result: { status: 'success' } }
+      })
+    ).toEqual({
+      type: 'tool_result',
+      toolResult: { id: 't1', name: 'add', input: { x: 2 }, duration: 0.25, result: { status: 'success' } }
+    });
+  });
+
+  it('should convert tool approval requests', () => {
+    expect(
+      toStreamEvent({
+        tool_approval: { id: 'a1', tool_id: 't1', name: 'save', input: { path: 'x.csv' } }
+      })
+    ).toEqual({
+      type: 'tool_approval',
+      toolApproval: { id: 'a1', toolId: 't1', name: 'save', input: { path: 'x.csv' } }
+    });
+  });
+
+  it('should convert requests to run tools in the kernel', () => {
+    expect(
+      toStreamEvent({ tool_execute: { id: 'r1', tool_id: 't1', name: 'add', input: { x: 1 } } })
+    ).toEqual({
+      type: 'tool_execute',
+      toolExecute: { id: 'r1', toolId: 't1', name: 'add', input: { x: 1 } }
+    });
+  });
+
+  it('should ignore events without content', () => {
+    expect(toStreamEvent({ done: true })).toBeNull();
+    expect(toStreamEvent({})).toBeNull();
+  });
+});
+
 describe('PromptModelFactory', () => {
   it('should create new PromptModel instances', () => {
     const factory = new PromptModelFactory();
@@ -9,9 +9,92 @@ import { PageConfig } from '@jupyterlab/coreutils';
 import type {
   IPromptModel,
   IStreamEvent,
-  IPromptContext
+  IPromptContext,
+  IToolCallResult,
+  IToolExecuteRequest,
+  IToolExecutor,
+  ToolApprovalDecision
 } from './tokens';
-import { renderToolResult } from './toolResultRenderer';
+import { IToolTranscript, renderToolTranscript, toolCallStatus } from './toolTranscript';
+
+/**
+ * Convert a server-sent event to a stream event. The server sends the same
+ * event shapes whichever provider produced the response. Returns null for
+ * events that carry nothing to show, such as `done`.
+ */
+export function toStreamEvent(event: Record<string, unknown>): IStreamEvent | null {
+  if (event.text) {
+    return { type: 'text', text: event.text as string };
+  }
+  if (event.error) {
+    return { type: 'error', error: event.error as string };
+  }
+  if (event.tool_call) {
+    const toolCall = event.tool_call as { name: string; id: string };
+    return { type: 'tool_call', toolCall: { name: toolCall.name, id: toolCall.id } };
+  }
+  if (event.tool_input) {
+    return { type: 'tool_input', toolInput: event.tool_input as string };
+  }
+  if (event.tool_result) {
+    const tr = event.tool_result as {
+      id: string;
+      name: string;
+      result: unknown;
+      input?: Record<string, unknown>;
+      duration?: number;
+    };
+    return {
+      type: 'tool_result',
+      toolResult: {
+        id: tr.id,
+        name: tr.name,
+        result: tr.result,
+        ...(tr.input && typeof tr.input === 'object' && { input: tr.input }),
+        ...(typeof tr.duration === 'number' && { duration: tr.duration })
+      }
+    };
+  }
+  if (event.tool_approval) {
+    const ta = event.tool_approval as {
+      id: string;
+      tool_id: string;
+      name: string;
+      input: Record<string, unknown>;
+    };
+    return {
+      type: 'tool_approval',
+      toolApproval: { id: ta.id, toolId: ta.tool_id, name: ta.name, input: ta.input ?? {} }
+    };
+  }
+  if (event.tool_execute) {
+    const te = event.tool_execute as {
+      id: string;
+      tool_id: string;
+      name: string;
+      input: Record<string, unknown>;
+    };
+    return {
+      type: 'tool_execute',
+      toolExecute: { id: te.id, toolId: te.tool_id, name: te.name, input: te.input ?? {} }
+    };
+  }
+  return null;
+}
+
+/**
+ * Headers for a JSON request to the server, with the XSRF token.
+ */
+function jsonHeaders(): Record<string, string> {
+  const xsrfToken = document.cookie
+    .split('; ')
+    .find(row => row.startsWith('_xsrf='))
+    ?.split('=')[1];
+  return {
+    'Content-Type': 'application/json',
+    ...(xsrfToken && { 'X-XSRFToken': xsrfToken })
+  };
+}
 
 /**
  * Implementation of IPromptModel with signal-based streaming.
@@ -19,7 +102,16 @@ import { renderToolResult } from './toolResultRenderer';
 export class PromptModel implements IPromptModel {
   private _state: IPromptModel.ExecutionState = 'idle';
   private _output = '';
+  /** Text and tool calls of the response, in order */
+  private _parts: Array<string | IToolTranscript> = [];
+  /** Tool call whose arguments are streaming */
+  private _streamingToolCall: IToolTranscript | null = null;
+  private _interrupted = false;
   private _abortController: AbortController | null = null;
+  private _pendingApprovals = new Set<string>();
+  private _pendingToolCalls = new Set<string>();
+  private _toolExecutor: IToolExecutor | null = null;
+  private _context: IPromptContext | null = null;
 
   private _streamEvent = new Signal<this, IStreamEvent>(this);
   private _outputChanged = new Signal<this, string>(this);
@@ -60,6 +152,13 @@ export class PromptModel implements IPromptModel {
     return this._output;
   }
 
+  /**
+   * Whether the last execution was stopped before it completed.
+   */
+  get interrupted(): boolean {
+    return this._interrupted;
+  }
+
   /**
    * Execute a prompt and stream the response.
    */
@@ -70,7 +169,12 @@ export class PromptModel implements IPromptModel {
   ): Promise<void> {
     this._setState('executing');
     this._output = '';
+    this._parts = [];
+    this._streamingToolCall = null;
+    this._interrupted = false;
     this._abortController = new AbortController();
+    this._toolExecutor = options.toolExecutor ?? null;
+    this._context = context;
 
     this._emitEvent({ type: 'start' });
 
@@ -79,23 +183,20 @@ export class PromptModel implements IPromptModel {
       prompt,
       context,
       model: options.model,
+      provider: options.provider?.id,
+      base_url: options.provider?.baseUrl,
+      tool_approval: options.toolApproval?.mode,
+      approved_tools: options.toolApproval?.approvedTools,
+      tool_execution: options.toolExecutor ? 'client' : 'server',
       kernel_id: options.kernelId,
       max_steps: options.maxSteps ?? 1
     };
 
     try {
-      const xsrfToken = document.cookie
-        .split('; ')
-        .find(row => row.startsWith('_xsrf='))
-        ?.split('=')[1];
-
       const response = await fetch(`${baseUrl}ai-jup/prompt`, {
         method: 'POST',
         credentials: 'same-origin',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(xsrfToken && { 'X-XSRFToken': xsrfToken })
-        },
+        headers: jsonHeaders(),
         body: JSON.stringify(body),
         signal: this._abortController.signal
       });
@@ -118,6 +219,7 @@ export class PromptModel implements IPromptModel {
       this._setState('idle');
     } catch (error: unknown) {
       if (error instanceof Error && error.name === 'AbortError') {
+        this._interrupted = true;
         this._setState('idle');
         return;
       }
@@ -128,10 +230,76 @@ export class PromptModel implements IPromptModel {
       this._setState('error');
       throw error;
     } finally {
+      this._cancelRunningToolCalls();
       this._abortController = null;
+      this._pendingApprovals.clear();
+      this._pendingToolCalls.clear();
+      this._toolExecutor = null;
+      this._context = null;
+    }
+  }
+
+  /**
+   * Answer a tool approval request. The server waits for the answer before
+   * running the tool or telling the model it was denied.
+   */
+  async respondToToolApproval(id: string, decision: ToolApprovalDecision): Promise<void> {
+    if (!this._pendingApprovals.has(id)) {
+      return;
+    }
+    const response = await fetch(`${PageConfig.getBaseUrl()}ai-jup/tool-approval`, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: jsonHeaders(),
+      body: JSON.stringify({ id, ...decision })
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    // Only forget the call once the server has it, so that a failed post
+    // can be retried
+    this._pendingApprovals.delete(id);
+  }
+
+  /**
+   * Run a tool call the server asked the frontend to run and post the
+   * result back, so that the server can continue the tool loop.
+   */
+  private async _runToolCall(request: IToolExecuteRequest): Promise<void> {
+    const executor = this._toolExecutor;
+    const parameters = this._context?.functions[request.name]?.parameters ?? {};
+    let result: IToolCallResult;
+    if (!executor) {
+      result = { status: 'error', error: 'No kernel session to run the tool in' };
+    } else {
+      result = await executor.execute(request.name, request.input, Object.keys(parameters));
+    }
+    try {
+      await this._postToolResult(request.id, result);
+    } catch (error) {
+      console.warn('[ai-jup] Failed to send tool result:', error);
     }
   }
 
+  /**
+   * Post the result of a tool call run in the notebook's kernel.
+   */
+  private async _postToolResult(id: string, result: IToolCallResult): Promise<void> {
+    if (!this._pendingToolCalls.has(id)) {
+      return;
+    }
+    const response = await fetch(`${PageConfig.getBaseUrl()}ai-jup/tool-result`, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: jsonHeaders(),
+      body: JSON.stringify({ id, result })
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    this._pendingToolCalls.delete(id);
+  }
+
   /**
    * Process the SSE stream from the server.
    */
@@ -143,7 +311,6 @@ export class PromptModel implements IPromptModel {
 
     const decoder = new TextDecoder();
     let buffer = '';
-    let currentToolCall: { name: string; id: string; input: string } | null = null;
 
     try {
       while (true) {
@@ -161,21 +328,7 @@ export class PromptModel implements IPromptModel {
 
           const data = line.slice(6);
           try {
-            const event = JSON.parse(data);
-            this._handleServerEvent(event, currentToolCall);
-
-            // Track tool call state
-            if (event.tool_call) {
-              currentToolCall = {
-                name: event.tool_call.name,
-                id: event.tool_call.id,
-                input: ''
-              };
-            } else if (event.tool_input && currentToolCall) {
-              currentToolCall.input += event.tool_input;
-            } else if (event.tool_result) {
-              currentToolCall = null;
-            }
+            this._handleServerEvent(JSON.parse(data));
           } catch {
             // Ignore invalid JSON
           }
@@ -191,50 +344,136 @@ export class PromptModel implements IPromptModel {
   /**
    * Handle a server-sent event.
    */
-  private _handleServerEvent(
-    event: Record<string, unknown>,
-    currentToolCall: { name: string; id: string; input: string } | null
-  ): void {
-    if (event.text) {
-      const text = event.text as string;
-      this._appendOutput(text);
-      this._emitEvent({ type: 'text', text });
-    } else if (event.error) {
-      const error = event.error as string;
-      this._appendOutput(`\n\n**Error:** ${error}\n`);
-      this._emitEvent({ type: 'error', error });
-    } else if (event.tool_call) {
-      const toolCall = event.tool_call as { name: string; id: string };
-      this._appendOutput(`\n\n🔧 *Calling tool: \`${toolCall.name}\`...*\n`);
-      this._emitEvent({
-        type: 'tool_call',
-        toolCall: { name: toolCall.name, id: toolCall.id }
-      });
-    } else if (event.tool_input) {
-      this._emitEvent({ type: 'tool_input', toolInput: event.tool_input as string });
-    } else if (event.tool_result) {
-      const tr = event.tool_result as { id: string; name: string; result: unknown };
-      const rendered = renderToolResult(tr.result);
-      this._appendOutput(rendered);
-      this._emitEvent({
-        type: 'tool_result',
-        toolResult: { id: tr.id, name: tr.name, result: tr.result }
-      });
+  private _handleServerEvent(event: Record<string, unknown>): void {
+    const streamEvent = toStreamEvent(event);
+    if (!streamEvent) {
+      return;
     }
+    switch (streamEvent.type) {
+      case 'text':
+        this._appendOutput(streamEvent.text ?? '');
+        break;
+      case 'error':
+        this._appendOutput(`\n\n**Error:** ${streamEvent.error}\n`);
+        break;
+      case 'tool_call':
+        if (streamEvent.toolCall) {
+          this._startToolCall(streamEvent.toolCall.id, streamEvent.toolCall.name);
+        }
+        break;
+      case 'tool_input':
+        if (this._streamingToolCall) {
+          this._streamingToolCall.input += streamEvent.toolInput ?? '';
+          this._renderOutput();
+        }
+        break;
+      case 'tool_result':
+        if (streamEvent.toolResult) {
+          this._finishToolCall(streamEvent.toolResult);
+        }
+        break;
+      case 'tool_approval':
+        if (streamEvent.toolApproval) {
+          this._pendingApprovals.add(streamEvent.toolApproval.id);
+        }
+        break;
+      case 'tool_execute':
+        if (streamEvent.toolExecute) {
+          this._pendingToolCalls.add(streamEvent.toolExecute.id);
+          void this._runToolCall(streamEvent.toolExecute);
+        }
+        break;
+    }
+    this._emitEvent(streamEvent);
   }
 
   /**
    * Append text to output and emit change signal.
    */
   private _appendOutput(text: string): void {
-    this._output += text;
+    const last = this._parts.length - 1;
+    if (typeof this._parts[last] === 'string') {
+      this._parts[last] += text;
+    } else {
+      this._parts.push(text);
+    }
+    this._renderOutput();
+  }
+
+  /**
+   * Add a tool call announced by the model to the output.
+   */
+  private _startToolCall(id: string, name: string): void {
+    const call: IToolTranscript = { id, name, input: '', status: 'running' };
+    this._parts.push(call);
+    this._streamingToolCall = call;
+    this._renderOutput();
+  }
+
+  /**
+   * Show the result of a tool call in its transcript.
+   */
+  private _finishToolCall(toolResult: NonNullable<IStreamEvent['toolResult']>): void {
+    let call = this._parts.find(
+      (part): part is IToolTranscript => typeof part !== 'string' && part.id === toolResult.id
+    );
+    if (!call) {
+      call = { id: toolResult.id, name: toolResult.name, input: '', status: 'running' };
+      this._parts.push(call);
+    }
+    if (call === this._streamingToolCall) {
+      this._streamingToolCall = null;
+    }
+    call.status = toolCallStatus(toolResult.result);
+    call.result = toolResult.result;
+    call.args = toolResult.input ?? call.args;
+    call.duration = toolResult.duration;
+    this._renderOutput();
+  }
+
+  /**
+   * Mark tool calls that never got a result as not run.
+   */
+  private _cancelRunningToolCalls(): void {
+    let changed = false;
+    for (const part of this._parts) {
+      if (typeof part !== 'string' && part.status === 'running') {
+        part.status = 'cancelled';
+        changed = true;
+      }
+    }
+    this._streamingToolCall = null;
+    if (changed) {
+      this._renderOutput();
+    }
+  }
+
+  /**
+   * Rebuild the output from its parts and emit change signal.
+   */
+  private _renderOutput(): void {
+    this._output = this._parts
+      .map(part => (typeof part === 'string' ? part : renderToolTranscript(part)))
+      .join('');
     this._outputChanged.emit(this._output);
   }
 
   /**
-   * Abort the current execution.
+   * Abort the current execution. Tool calls waiting for approval are
+   * denied, and tool calls running in the kernel are reported as stopped,
+   * so that the server stops waiting.
    */
   abort(): void {
+    for (const id of [...this._pendingApprovals]) {
+      this.respondToToolApproval(id, { decision: 'deny' }).catch(error =>
+        console.warn('[ai-jup] Failed to deny tool call:', error)
+      );
+    }
+    for (const id of [...this._pendingToolCalls]) {
+      this._postToolResult(id, { status: 'error', error: 'Stopped by the user' }).catch(error =>
+        console.warn('[ai-jup] Failed to send tool result:', error)
+      );
+    }
     if (this._abortController) {
       this._abortController.abort();
       this._abortController = null;
@@ -247,6 +486,8 @@ export class PromptModel implements IPromptModel {
   reset(): void {
     this.abort();
     this._output = '';
+    this._parts = [];
+    this._interrupted = false;
     this._setState('idle');
     this._outputChanged.emit(this._output);
   }
@@ -4,6 +4,9 @@
 
 import {
   parsePrompt,
+  getReferenceKind,
+  getReferenceRoot,
+  tokenizePrompt,
   substituteVariables,
   removeFunctionReferences,
   processPrompt
@@ -146,6 +149,140 @@ describe('parsePrompt', () => {
   });
 });
 
+describe('expression references', () => {
+  describe('getReferenceKind', () => {
+    it('should classify bare names', () => {
+      expect(getReferenceKind('df')).toBe('name');
+    });
+
+    it('should classify dotted attributes as paths', () => {
+      expect(getReferenceKind('model.coef_')).toBe('path');
+    });
+
+    it('should classify literal subscripts as paths', () => {
+      expect(getReferenceKind('results["auc"]')).toBe('path');
+      expect(getReferenceKind("results['auc']")).toBe('path');
+      expect(getReferenceKind('items[0]')).toBe('path');
+      expect(getReferenceKind('items[-1].name')).toBe('path');
+    });
+
+    it('should classify calls and operators as expressions', () => {
+      expect(getReferenceKind('df.head(20)')).toBe('expression');
+      expect(getReferenceKind('df[df.a > 1]')).toBe('expression');
+      expect(getReferenceKind('a + b')).toBe('expression');
+      expect(getReferenceKind('123')).toBe('expression');
+    });
+  });
+
+  it('should accept attribute and subscript paths by default', () => {
+    const result = parsePrompt('Compare $`model.coef_` with $`results["auc"]`');
+    expect(result.variables).toEqual(['model.coef_', 'results["auc"]']);
+  });
+
+  it('should ignore expressions unless enabled', () => {
+    const result = parsePrompt('Summarize $`df.describe()`');
+    expect(result.variables).toEqual([]);
+  });
+
+  it('should accept expressions when enabled', () => {
+    const result = parsePrompt('Summarize $`df.describe()` and $`df.head(20)`', {
+      allowExpressions: true
+    });
+    expect(result.variables).toEqual(['df.describe()', 'df.head(20)']);
+  });
+
+  it('should trim whitespace inside backticks', () => {
+    const result = parsePrompt('Check $` df.shape `');
+    expect(result.variables).toEqual(['df.shape']);
+  });
+
+  it('should substitute expression references literally', () => {
+    const result = substituteVariables('AUC: $`results["auc"]`, shape: $`df.shape`', {
+      'results["auc"]': '0.91',
+      'df.shape': '(10, 3)'
+    });
+    expect(result).toBe('AUC: 0.91, shape: (10, 3)');
+  });
+
+  it('should not treat regex characters in references as patterns', () => {
+    const result = substituteVariables('$`a.b` and $`aXb`', { 'a.b': '1' });
+    expect(result).toBe('1 and $`aXb`');
+  });
+});
+
+describe('tokenizePrompt', () => {
+  it('should return tokens with source ranges', () => {
+    const text = 'Use $`df` with &`plot`';
+    const { tokens, errors } = tokenizePrompt(text);
+
+    expect(errors).toEqual([]);
+    expect(tokens).toEqual([
+      { type: 'variable', name: 'df', kind: 'name', start: 4, end: 9 },
+      { type: 'function', name: 'plot', kind: 'name', start: 15, end: 22 }
+    ]);
+    expect(text.slice(tokens[0].start, tokens[0].end)).toBe('$`df`');
+    expect(text.slice(tokens[1].start, tokens[1].end)).toBe('&`plot`');
+  });
+
+  it('should report unclosed backticks', () => {
+    const text = 'Look at $`df and more';
+    const { tokens, errors } = tokenizePrompt(text);
+
+    expect(tokens).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toMatch(/Unclosed backtick/);
+    expect(errors[0].start).toBe(8);
+    expect(errors[0].end).toBe(text.length);
+  });
+
+  it('should stop an unclosed reference at the end of the line', () => {
+    const text = 'A $`x\nB $`y`';
+    const { tokens, errors } = tokenizePrompt(text);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].end).toBe(5);
+    expect(tokens.map(t => t.name)).toEqual(['y']);
+  });
+
+  it('should report function references that are not names', () => {
+    const { tokens, errors } = tokenizePrompt('Call &`obj.method`');
+    expect(tokens).toEqual([]);
+    expect(errors[0].message).toMatch(/function name/);
+  });
+
+  it('should report disabled expressions but accept them when enabled', () => {
+    expect(tokenizePrompt('$`df.describe()`').errors).toHaveLength(1);
+
+    const { tokens, errors } = tokenizePrompt('$`df.describe()`', { allowExpressions: true });
+    expect(errors).toEqual([]);
+    expect(tokens[0].kind).toBe('expression');
+  });
+
+  it('should report empty references', () => {
+    expect(tokenizePrompt('$``').errors[0].message).toMatch(/Empty/);
+  });
+
+  it('should be exposed through parsePrompt', () => {
+    const result = parsePrompt('$`a` $`a` $`b');
+    expect(result.variables).toEqual(['a']);
+    expect(result.tokens).toHaveLength(2);
+    expect(result.errors).toHaveLength(1);
+  });
+});
+
+describe('getReferenceRoot', () => {
+  it('should return the leading identifier', () => {
+    expect(getReferenceRoot('df')).toBe('df');
+    expect(getReferenceRoot('df["a"].mean()')).toBe('df');
+    expect(getReferenceRoot('model.coef_')).toBe('model');
+  });
+
+  it('should return null without a leading identifier', () => {
+    expect(getReferenceRoot('(a + b)')).toBeNull();
+    expect(getReferenceRoot('123')).toBeNull();
+  });
+});
+
 describe('substituteVariables', () => {
   it('should substitute single variable', () => {
     const result = substituteVariables('Value is $`x`', { x: '42' });
@@ -218,6 +355,11 @@ describe('removeFunctionReferences', () => {
     const result = removeFunctionReferences('Use &`func`, please');
     expect(result).toBe('Use , please');
   });
+
+  it('should keep line breaks and indentation', () => {
+    const result = removeFunctionReferences('Call &`func`\n  then\tthis\n&`other` last');
+    expect(result).toBe('Call\n  then\tthis\nlast');
+  });
 });
 
 describe('processPrompt', () => {
@@ -253,6 +395,12 @@ describe('processPrompt', () => {
     const result = processPrompt('Use &`helper` and &`analyzer`', {});
     expect(result).toBe('Use and');
   });
+
+  it('should keep multi-line variable summaries intact', () => {
+    const summary = 'DataFrame: 2 rows x 2 columns\nColumns:\n  a    int64\n  b    object';
+    const result = processPrompt('Describe $`df`\nusing &`plot` please', { df: summary });
+    expect(result).toBe(`Describe ${summary}\nusing please`);
+  });
 });
 
 describe('edge cases', () => {
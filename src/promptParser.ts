@@ -5,76 +5,206 @@
 export interface ParsedPrompt {
   variables: string[];
   functions: string[];
+  /** Accepted references in source order, with their positions */
+  tokens: PromptToken[];
+  /** Malformed or disallowed references */
+  errors: PromptParseError[];
+}
+
+/**
+ * A $`...` or &`...` reference with its source range.
+ * `start` is the offset of the sigil and `end` is the offset just past the
+ * closing backtick.
+ */
+export interface PromptToken {
+  type: 'variable' | 'function';
+  /** Reference text inside the backticks, trimmed */
+  name: string;
+  /** Kind of variable reference ('name' for functions) */
+  kind: ReferenceKind;
+  start: number;
+  end: number;
+}
+
+/**
+ * A parse problem with the source range it applies to.
+ */
+export interface PromptParseError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParseOptions {
+  /**
+   * Accept arbitrary expressions such as $`df.describe()`.
+   * When false, only names and attribute/subscript paths are accepted.
+   */
+  allowExpressions?: boolean;
+}
+
+/**
+ * Kind of a $`...` reference.
+ *
+ * - 'name': a bare identifier, e.g. $`df`
+ * - 'path': dotted attributes and literal subscripts, e.g. $`model.coef_` or $`results["auc"]`
+ * - 'expression': anything else, e.g. $`df.head(20)`
+ */
+export type ReferenceKind = 'name' | 'path' | 'expression';
+
+const IDENTIFIER = '[a-zA-Z_][a-zA-Z0-9_]*';
+const LITERAL_SUBSCRIPT =
+  '\\[\\s*(?:-?\\d+|"(?:[^"\\\\\\n]|\\\\.)*"|\'(?:[^\'\\\\\\n]|\\\\.)*\')\\s*\\]';
+const NAME_PATTERN = new RegExp(`^${IDENTIFIER}$`);
+const PATH_PATTERN = new RegExp(`^${IDENTIFIER}(?:\\.${IDENTIFIER}|${LITERAL_SUBSCRIPT})*$`);
+
+/** Match $`...` (anything but backticks and newlines inside the backticks) */
+const VARIABLE_REFERENCE_PATTERN = /\$`([^`\n]+)`/g;
+
+/**
+ * Classify the contents of a $`...` reference.
+ */
+export function getReferenceKind(reference: string): ReferenceKind {
+  const trimmed = reference.trim();
+  if (NAME_PATTERN.test(trimmed)) {
+    return 'name';
+  }
+  if (PATH_PATTERN.test(trimmed)) {
+    return 'path';
+  }
+  return 'expression';
+}
+
+/** Match a sigil and backtick, the reference text and the closing backtick if present */
+const REFERENCE_TOKEN_PATTERN = /([$&])`([^`\n]*)(`?)/g;
+
+/**
+ * Tokenize a prompt into references with source ranges.
+ *
+ * Unclosed backticks, function references that are not plain names, and
+ * expression references (unless `allowExpressions`) are reported as errors.
+ */
+export function tokenizePrompt(
+  text: string,
+  options: ParseOptions = {}
+): Pick<ParsedPrompt, 'tokens' | 'errors'> {
+  const pattern = new RegExp(REFERENCE_TOKEN_PATTERN.source, 'g');
+  const tokens: PromptToken[] = [];
+  const errors: PromptParseError[] = [];
+
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const [raw, sigil, content, closing] = match;
+    const start = match.index;
+    const end = start + raw.length;
+    const type = sigil === '$' ? 'variable' : 'function';
+
+    if (!closing) {
+      errors.push({ message: 'Unclosed backtick in reference', start, end });
+      continue;
+    }
+
+    const name = content.trim();
+    if (!name) {
+      errors.push({ message: 'Empty reference', start, end });
+      continue;
+    }
+
+    const kind = getReferenceKind(name);
+    if (type === 'function' && kind !== 'name') {
+      errors.push({ message: 'Function references must be a function name', start, end });
+      continue;
+    }
+    if (kind === 'expression' && !options.allowExpressions) {
+      errors.push({
+        message: 'Expression references are disabled (enable "Allow Expression References")',
+        start,
+        end
+      });
+      continue;
+    }
+
+    tokens.push({ type, name, kind, start, end });
+  }
+
+  return { tokens, errors };
 }
 
 /**
  * Parse a prompt to extract variable and function references.
  * 
  * - $`variableName` references a kernel variable
+ * - $`obj.attr` / $`obj["key"]` references an attribute or item
+ * - $`expr` references any expression (only with `allowExpressions`)
  * - &`functionName` makes a function available as an AI tool
  */
-export function parsePrompt(text: string): ParsedPrompt {
-  // Match $`variableName` (word characters inside backticks after $)
-  const variablePattern = /\$`([a-zA-Z_][a-zA-Z0-9_]*)`/g;
-  
-  // Match &`functionName` (word characters inside backticks after &)
-  const functionPattern = /&`([a-zA-Z_][a-zA-Z0-9_]*)`/g;
+export function parsePrompt(text: string, options: ParseOptions = {}): ParsedPrompt {
+  const { tokens, errors } = tokenizePrompt(text, options);
 
   const variables: string[] = [];
   const functions: string[] = [];
 
-  let match;
-
-  // Find all variable references
-  while ((match = variablePattern.exec(text)) !== null) {
-    const varName = match[1];
-    if (!variables.includes(varName)) {
-      variables.push(varName);
-    }
-  }
-
-  // Find all function references
-  while ((match = functionPattern.exec(text)) !== null) {
-    const funcName = match[1];
-    if (!functions.includes(funcName)) {
-      functions.push(funcName);
+  for (const token of tokens) {
+    const names = token.type === 'variable' ? variables : functions;
+    if (!names.includes(token.name)) {
+      names.push(token.name);
     }
   }
 
   return {
     variables,
-    functions
+    functions,
+    tokens,
+    errors
   };
 }
 
+/**
+ * Get the leading identifier of a reference, e.g. `df` for `df["a"].mean()`.
+ * Returns null if the reference does not start with an identifier.
+ */
+export function getReferenceRoot(reference: string): string | null {
+  const match = /^\s*([a-zA-Z_][a-zA-Z0-9_]*)/.exec(reference);
+  return match ? match[1] : null;
+}
+
 /**
  * Replace variable references in prompt with their values.
- * Uses a replacer function to safely handle $ and other special chars in values.
+ * Values are keyed by the (trimmed) reference text, so expressions such as
+ * $`df["a"]` are matched literally. References without a value are left as is.
  */
 export function substituteVariables(
   text: string,
   variableValues: Record<string, string>
 ): string {
-  let result = text;
-  
-  for (const [name, value] of Object.entries(variableValues)) {
-    const pattern = new RegExp(`\\$\`${name}\``, 'g');
-    // Use replacer function to avoid interpreting $& etc. in value
-    result = result.replace(pattern, () => value);
-  }
-  
-  return result;
+  const pattern = new RegExp(VARIABLE_REFERENCE_PATTERN.source, 'g');
+  // Use replacer function to avoid interpreting $& etc. in value
+  return text.replace(pattern, (match: string, reference: string) => {
+    const key = reference.trim();
+    return Object.prototype.hasOwnProperty.call(variableValues, key)
+      ? variableValues[key]
+      : match;
+  });
 }
 
 /**
  * Remove function references from the prompt text.
  * (They're used for tool definitions, not prompt content)
- * Also normalizes whitespace to avoid double spaces.
+ * Only the spaces around each reference are squeezed, so line breaks and
+ * the layout of multi-line variable summaries are kept.
  */
 export function removeFunctionReferences(text: string): string {
   return text
-    .replace(/&`([a-zA-Z_][a-zA-Z0-9_]*)`/g, '')
-    .replace(/\s+/g, ' ')
+    .replace(
+      /[ \t]*&`[a-zA-Z_][a-zA-Z0-9_]*`[ \t]*/g,
+      (match: string, offset: number, whole: string) => {
+        const before = whole[offset - 1];
+        const after = whole[offset + match.length];
+        const atLineEdge =
+          before === undefined || before === '\n' || after === undefined || after === '\n';
+        return atLineEdge ? '' : ' ';
+      }
+    )
     .trim();
 }
 
@@ -0,0 +1,87 @@
+/**
+ * Tests for AI provenance metadata.
+ */
+
+import { IProvenance, describeProvenance, hashContext, isAIGenerated, readProvenance } from './provenance';
+
+const provenance: IProvenance = {
+  model: 'claude-sonnet-4-20250514',
+  generatedAt: '2026-01-02T03:04:05.000Z',
+  promptCellId: 'p1',
+  contextHash: 'sha256:0123456789abcdef0123456789abcdef',
+  toolCalls: [{ name: 'load_data', status: 'success' }]
+};
+
+describe('hashContext', () => {
+  it('should return a sha256 hex digest', async () => {
+    expect(await hashContext({ preceding_code: 'x = 1' })).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+
+  it('should not depend on key order', async () => {
+    const a = await hashContext({ preceding_code: 'x = 1', variables: { x: { type: 'int', repr: '1' } } });
+    const b = await hashContext({ variables: { x: { repr: '1', type: 'int' } }, preceding_code: 'x = 1' });
+    expect(a).toBe(b);
+  });
+
+  it('should change with the context', async () => {
+    const a = await hashContext({ preceding_code: 'x = 1' });
+    const b = await hashContext({ preceding_code: 'x = 2' });
+    expect(a).not.toBe(b);
+  });
+
+  it('should ignore undefined keys', async () => {
+    expect(await hashContext({ a: 1, b: undefined })).toBe(await hashContext({ a: 1 }));
+  });
+});
+
+describe('readProvenance', () => {
+  it('should read provenance from cell metadata', () => {
+    expect(readProvenance({ isOutputCell: true, provenance })).toEqual(provenance);
+  });
+
+  it('should return null without valid provenance', () => {
+    expect(readProvenance(undefined)).toBeNull();
+    expect(readProvenance({ isOutputCell: true })).toBeNull();
+    expect(readProvenance({ provenance: { model: 'm' } })).toBeNull();
+  });
+
+  it('should fill in missing optional fields', () => {
+    const { promptCellId: _id, toolCalls: _calls, ...rest } = provenance;
+    expect(readProvenance({ provenance: rest })).toEqual({ ...rest, promptCellId: null, toolCalls: [] });
+  });
+
+  it('should drop malformed tool calls', () => {
+    const toolCalls = [{ name: 'a', status: 'error' }, { name: 1 }, null];
+    expect(readProvenance({ provenance: { ...provenance, toolCalls } })?.toolCalls).toEqual([
+      { name: 'a', status: 'error' }
+    ]);
+  });
+});
+
+describe('isAIGenerated', () => {
+  it('should recognize AI-generated cells', () => {
+    expect(isAIGenerated({ provenance })).toBe(true);
+    expect(isAIGenerated({ isOutputCell: true })).toBe(true);
+    expect(isAIGenerated({ convertedFrom: 'r1' })).toBe(true);
+  });
+
+  it('should not flag other cells', () => {
+    expect(isAIGenerated(undefined)).toBe(false);
+    expect(isAIGenerated({ isPromptCell: true })).toBe(false);
+  });
+});
+
+describe('describeProvenance', () => {
+  it('should describe the model, time, tools and context', () => {
+    expect(describeProvenance(provenance)).toBe(
+      'Generated by claude-sonnet-4-20250514\n' +
+        'at 2026-01-02T03:04:05.000Z\n' +
+        'Tool calls: load_data (success)\n' +
+        'Context sha256:0123456789ab…'
+    );
+  });
+
+  it('should fall back without provenance', () => {
+    expect(describeProvenance(null)).toBe('Generated by AI');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Provenance of AI-generated cells.
+ *
+ * Response cells, cells converted from a response, cells inserted from
+ * proposed edits and accepted fixes record under the `provenance` key of
+ * their `ai_jup` metadata which model wrote them, when, from which prompt
+ * cell, a hash of the context that was sent and the tool calls made.
+ */
+
+import type { PartialJSONObject } from '@lumino/coreutils';
+
+/**
+ * A tool call made while generating a response.
+ */
+export interface IToolCallRecord extends PartialJSONObject {
+  name: string;
+  /** `success`, `error`, `denied` or `cancelled` */
+  status: string;
+}
+
+/**
+ * Provenance stored on an AI-generated cell.
+ */
+export interface IProvenance extends PartialJSONObject {
+  /** Model that generated the content */
+  model: string;
+  /** ISO 8601 time the response completed */
+  generatedAt: string;
+  /** Id of the prompt cell, or null for content not written from a prompt cell */
+  promptCellId: string | null;
+  /** `sha256:` hash of the context sent with the prompt */
+  contextHash: string;
+  toolCalls: IToolCallRecord[];
+}
+
+/**
+ * JSON with object keys sorted, so that equal values hash the same.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hash the context of a prompt as `sha256:<hex>`. Where Web Crypto is not
+ * available (pages served over plain HTTP from another host), a 32-bit
+ * FNV-1a hash is used instead, as `fnv1a:<hex>`.
+ */
+export async function hashContext(context: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(stableStringify(context));
+  if (!globalThis.crypto?.subtle) {
+    let hash = 0x811c9dc5;
+    for (const byte of bytes) {
+      hash = Math.imul(hash ^ byte, 0x01000193);
+    }
+    return `fnv1a:${(hash >>> 0).toString(16).padStart(8, '0')}`;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `sha256:${hex}`;
+}
+
+/**
+ * Read the provenance from a cell's `ai_jup` metadata, or null if it has
+ * none or it is malformed.
+ */
+export function readProvenance(cellMetadata: unknown): IProvenance | null {
+  const provenance = (cellMetadata as { provenance?: unknown } | null | undefined)?.provenance;
+  if (!provenance || typeof provenance !== 'object') {
+    return null;
+  }
+  const { model, generatedAt, promptCellId, contextHash, toolCalls } = provenance as Partial<IProvenance>;
+  if (typeof model !== 'string' || typeof generatedAt !== 'string' || typeof contextHash !== 'string') {
+    return null;
+  }
+  return {
+    model,
+    generatedAt,
+    promptCellId: typeof promptCellId === 'string' ? promptCellId : null,
+    contextHash,
+    toolCalls: Array.isArray(toolCalls)
+      ? toolCalls.filter(call => !!call && typeof call.name === 'string' && typeof call.status === 'string')
+      : []
+  };
+}
+
+/**
+ * Whether a cell's `ai_jup` metadata marks it as written by the AI: it has
+ * provenance, is a response cell, or was converted from one.
+ */
+export function isAIGenerated(cellMetadata: unknown): boolean {
+  const metadata = cellMetadata as { isOutputCell?: unknown; convertedFrom?: unknown } | null | undefined;
+  return readProvenance(metadata) !== null || metadata?.isOutputCell === true || !!metadata?.convertedFrom;
+}
+
+/**
+ * Describe provenance for the badge tooltip.
+ */
+export function describeProvenance(provenance: IProvenance | null): string {
+  if (!provenance) {
+    return 'Generated by AI';
+  }
+  const lines = [`Generated by ${provenance.model}`, `at ${provenance.generatedAt}`];
+  if (provenance.toolCalls.length > 0) {
+    lines.push(`Tool calls: ${provenance.toolCalls.map(call => `${call.name} (${call.status})`).join(', ')}`);
+  }
+  lines.push(`Context ${provenance.contextHash.slice(0, 19)}…`);
+  return lines.join('\n');
+}
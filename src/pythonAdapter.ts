@@ -0,0 +1,258 @@
+/**
+ * Language adapter for Python (IPython) kernels.
+ */
+
+import {
+  IIntrospectionRequest,
+  ILanguageAdapter,
+  IVariableSummarizer
+} from './tokens';
+import { buildSummarizeFunction } from './variableSummarizers';
+import { COMM_TARGET } from './introspectionComm';
+
+/**
+ * Python helpers for batched introspection. Defines `_ai_jup_introspect`,
+ * which takes a request dict and returns an IIntrospectionResult dict.
+ * `_ai_jup_summarize` is appended separately from the summarizer registry.
+ */
+const INTROSPECTION_CODE = `
+import json as _json_mod
+import inspect as _inspect_mod
+import re as _re_mod
+def _ai_jup_variable_info(_expr):
+    _var = eval(_expr, globals())
+    _result = {
+        "name": _expr,
+        "type": type(_var).__name__,
+        "repr": repr(_var)[:500]
+    }
+    try:
+        _summary = _ai_jup_summarize(_var)
+        if _summary:
+            _json_mod.dumps(_summary, allow_nan=False)
+            _result["summary"] = _summary
+    except Exception:
+        pass
+    return _result
+def _ai_jup_function_info(_name):
+    _func = eval(_name, globals())
+    if not callable(_func):
+        raise TypeError(_name + " is not callable")
+    _sig = str(_inspect_mod.signature(_func))
+    _doc = _inspect_mod.getdoc(_func) or "No documentation"
+    
+    # Parse docstring for parameter descriptions (numpy/Google style)
+    _param_docs = {}
+    try:
+        _lines = _doc.splitlines()
+        _in_params_section = False
+        _current_param = None
+        _current_desc = []
+        
+        for _line in _lines:
+            _stripped = _line.strip()
+            _lower = _stripped.lower()
+            
+            # Detect section headers
+            if _lower in ('parameters', 'args', 'arguments', 'params'):
+                _in_params_section = True
+                continue
+            elif _lower in ('returns', 'return', 'raises', 'examples', 'notes', 'see also', 'attributes'):
+                # End of parameters section
+                if _current_param and _current_desc:
+                    _param_docs[_current_param] = ' '.join(_current_desc).strip()
+                _in_params_section = False
+                _current_param = None
+                _current_desc = []
+                continue
+            
+            if not _in_params_section:
+                continue
+            
+            # Skip section underlines (numpy style)
+            if _stripped and all(c == '-' for c in _stripped):
+                continue
+            
+            # Check if this is a new parameter line
+            # Numpy style: "param : type" or "param: type"
+            # Google style: "param (type): description" or "param: description"
+            _param_match = _re_mod.match(r'^(\\w+)\\s*(?:\\(.*?\\))?\\s*:(.*)$', _stripped)
+            if _param_match and not _line.startswith(' ' * 4) or (_param_match and _line and _line[0] not in ' \\t'):
+                # Save previous param
+                if _current_param and _current_desc:
+                    _param_docs[_current_param] = ' '.join(_current_desc).strip()
+                
+                _current_param = _param_match.group(1)
+                _rest = _param_match.group(2).strip()
+                _current_desc = [_rest] if _rest else []
+            elif _current_param and _stripped:
+                # Continuation line
+                _current_desc.append(_stripped)
+        
+        # Save last param
+        if _current_param and _current_desc:
+            _param_docs[_current_param] = ' '.join(_current_desc).strip()
+    except (AttributeError, TypeError, ValueError) as _parse_err:
+        # Docstring parsing is best-effort; fall back to empty on parse failures
+        _param_docs = {}
+    
+    _params = {}
+    for _pname, _param in _inspect_mod.signature(_func).parameters.items():
+        # Use parsed docstring description if available, otherwise use param name
+        _desc = _param_docs.get(_pname, _pname)
+        _pinfo = {"type": "string", "description": _desc}
+        if _param.annotation != _inspect_mod.Parameter.empty:
+            _ann = _param.annotation
+            if hasattr(_ann, '__name__'):
+                _pinfo["type"] = _ann.__name__
+            elif hasattr(_ann, '__origin__'):
+                _pinfo["type"] = str(_ann)
+        if _param.default != _inspect_mod.Parameter.empty:
+            _pinfo["default"] = repr(_param.default)
+        _params[_pname] = _pinfo
+    # Extract return type annotation
+    _return_type = None
+    _ret_ann = _inspect_mod.signature(_func).return_annotation
+    if _ret_ann != _inspect_mod.Parameter.empty:
+        if hasattr(_ret_ann, '__name__'):
+            _return_type = _ret_ann.__name__
+        elif hasattr(_ret_ann, '__origin__'):
+            _return_type = str(_ret_ann)
+        else:
+            _return_type = str(_ret_ann)
+    
+    # Append return type to docstring (like toolslm pattern)
+    _full_doc = _doc[:500]
+    if _return_type:
+        _full_doc += f"\\n\\nReturns:\\n- type: {_return_type}"
+    
+    _result = {
+        "name": _name,
+        "signature": _sig,
+        "docstring": _full_doc,
+        "parameters": _params,
+        "return_type": _return_type
+    }
+    return _result
+def _ai_jup_introspect(_request):
+    _reply = {"variables": {}, "functions": {}, "errors": {"variables": {}, "functions": {}}}
+    for _kind, _info in (("variables", _ai_jup_variable_info), ("functions", _ai_jup_function_info)):
+        for _ref in _request[_kind]:
+            try:
+                _reply[_kind][_ref] = _info(_ref)
+            except Exception as _e:
+                _reply["errors"][_kind][_ref] = type(_e).__name__ + ": " + str(_e)
+    return _reply`;
+
+/**
+ * Python helper defining `_ai_jup_list_namespace`, which returns the
+ * user-defined top-level names as INamespaceEntry dicts.
+ */
+const NAMESPACE_CODE = `
+import json as _json_mod
+import inspect as _inspect_mod
+def _ai_jup_list_namespace():
+    _skip = {"In", "Out", "exit", "quit", "get_ipython"}
+    _entries = []
+    for _n, _v in list(globals().items()):
+        if _n.startswith("_") or _n in _skip:
+            continue
+        _entry = {"name": _n, "type": type(_v).__name__, "callable": callable(_v)}
+        try:
+            if callable(_v):
+                _entry["signature"] = str(_inspect_mod.signature(_v))
+            elif isinstance(getattr(_v, "shape", None), tuple):
+                _entry["shape"] = [int(_d) for _d in _v.shape]
+        except Exception:
+            pass
+        _entries.append(_entry)
+    return _entries`;
+
+/**
+ * Python handler for comm requests, dispatching to the helpers above.
+ */
+const COMM_HANDLER_CODE = `
+def _on_msg(_comm, _msg):
+    _data = _msg["content"]["data"]
+    try:
+        if _data["method"] == "introspect":
+            _result = _ai_jup_introspect(_data["params"])
+        elif _data["method"] == "list_namespace":
+            _result = _ai_jup_list_namespace()
+        else:
+            raise ValueError("Unknown method: " + str(_data["method"]))
+        _comm.send({"id": _data["id"], "result": _result})
+    except Exception as _e:
+        _comm.send({"id": _data["id"], "error": type(_e).__name__ + ": " + str(_e)})
+def _on_open(_comm, _open_msg):
+    _comm.on_msg(lambda _msg: _on_msg(_comm, _msg))
+try:
+    _manager = get_ipython().kernel.comm_manager
+except AttributeError:
+    from comm import get_comm_manager
+    _manager = get_comm_manager()
+_manager.register_target("${COMM_TARGET}", _on_open)`;
+
+/**
+ * Python adapter. Introspection runs over the `ai_jup` comm when it can be
+ * registered, and as silent code printing JSON otherwise.
+ */
+export const pythonAdapter: ILanguageAdapter = {
+  id: 'python',
+  languages: ['python'],
+  silent: true,
+  fenceLanguages: ['python', 'python3', 'py', 'ipython', 'ipython3'],
+  shellCellMagic: '%%bash',
+
+  introspectionCode(
+    request: IIntrospectionRequest,
+    summarizers: ReadonlyArray<IVariableSummarizer>
+  ): string {
+    return `${INTROSPECTION_CODE}
+${buildSummarizeFunction(summarizers)}
+try:
+    print(_json_mod.dumps(_ai_jup_introspect(_json_mod.loads(${JSON.stringify(JSON.stringify(request))}))))
+finally:
+    del _ai_jup_introspect, _ai_jup_variable_info, _ai_jup_function_info, _ai_jup_summarize
+`;
+  },
+
+  /**
+   * A single expression, so nothing is left in the user namespace.
+   */
+  toolCallCode(name: string, args: Record<string, unknown>): string {
+    return `(lambda _fn, _args: _fn(**_args))(globals()[${JSON.stringify(name)}], __import__("json").loads(${JSON.stringify(JSON.stringify(args))}))`;
+  },
+
+  namespaceCode(): string {
+    return `${NAMESPACE_CODE}
+try:
+    print(_json_mod.dumps(_ai_jup_list_namespace()))
+finally:
+    del _ai_jup_list_namespace
+`;
+  },
+
+  /**
+   * The kernel-side handler reuses the stdout helpers. Their source runs
+   * unchanged in a private namespace, so they stay out of the user namespace
+   * while `globals()` still returns it.
+   */
+  commRegistrationCode(summarizers: ReadonlyArray<IVariableSummarizer>): string {
+    const helpers = [
+      INTROSPECTION_CODE,
+      buildSummarizeFunction(summarizers),
+      NAMESPACE_CODE,
+      COMM_HANDLER_CODE
+    ].join('\n');
+    return `
+def _ai_jup_register_comm(_source):
+    exec(_source, {"globals": (lambda _user_ns: lambda: _user_ns)(globals()), "get_ipython": get_ipython})
+try:
+    _ai_jup_register_comm(${JSON.stringify(helpers)})
+    print("ok")
+finally:
+    del _ai_jup_register_comm
+`;
+  }
+};
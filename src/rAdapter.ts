@@ -0,0 +1,158 @@
+/**
+ * Language adapter for R (IRkernel) kernels.
+ *
+ * Output is encoded with jsonlite, which IRkernel itself depends on. All
+ * helpers are defined inside `local()` so nothing is left in the global
+ * environment.
+ */
+
+import { IIntrospectionRequest, ILanguageAdapter } from './tokens';
+
+/**
+ * R helpers shared by the introspection and namespace code.
+ */
+const R_HELPERS = `
+.named <- function(x) if (length(x)) as.list(x) else setNames(list(), character(0))
+.signature <- function(f) {
+  .args <- formals(args(f))
+  .parts <- vapply(names(.args), function(p) {
+    if (identical(.args[[p]], quote(expr = ))) p
+    else paste(p, "=", paste(deparse(.args[[p]]), collapse = " "))
+  }, character(1))
+  paste0("(", paste(.parts, collapse = ", "), ")")
+}
+.to_json <- function(x) {
+  jsonlite::toJSON(x, auto_unbox = TRUE, null = "null", na = "null", digits = NA, force = TRUE)
+}
+.range <- function(s, v) {
+  if (is.numeric(v) && any(is.finite(v))) {
+    s$min <- min(v[is.finite(v)])
+    s$max <- max(v[is.finite(v)])
+  }
+  s
+}
+.summarize <- function(v) {
+  if (is.data.frame(v)) {
+    .nulls <- colSums(is.na(v))
+    list(
+      kind = "dataframe",
+      shape = as.list(dim(v)),
+      dtypes = .named(vapply(v, function(col) class(col)[1], character(1))),
+      null_counts = .named(.nulls[.nulls > 0]),
+      head = paste(utils::capture.output(print(utils::head(v, 5))), collapse = "\\n"),
+      memory_usage = as.numeric(utils::object.size(v))
+    )
+  } else if (is.array(v)) {
+    .range(list(kind = "array", shape = as.list(dim(v)), dtype = typeof(v),
+                memory_usage = as.numeric(utils::object.size(v))), v)
+  } else if (is.atomic(v) && length(v) > 1) {
+    .range(list(kind = "vector", shape = list(length(v)), dtype = typeof(v),
+                null_counts = sum(is.na(v)), memory_usage = as.numeric(utils::object.size(v))), v)
+  } else {
+    NULL
+  }
+}`;
+
+/**
+ * R introspection, mirroring the Python helpers: variables are evaluated
+ * in the global environment and functions are described by their formals.
+ * R has no docstrings, so the function source is sent instead.
+ */
+const R_INTROSPECTION = `
+.variable_info <- function(expr) {
+  v <- eval(parse(text = expr), envir = globalenv())
+  info <- list(
+    name = expr,
+    type = class(v)[1],
+    repr = substr(paste(utils::capture.output(print(v)), collapse = "\\n"), 1, 500)
+  )
+  s <- tryCatch(.summarize(v), error = function(e) NULL)
+  if (!is.null(s)) info$summary <- s
+  info
+}
+.function_info <- function(name) {
+  f <- get(name, envir = globalenv())
+  if (!is.function(f)) stop(paste(name, "is not a function"))
+  .args <- formals(args(f))
+  params <- setNames(list(), character(0))
+  for (p in names(.args)) {
+    if (p == "...") next
+    pinfo <- list(type = "string", description = p)
+    if (!identical(.args[[p]], quote(expr = ))) {
+      pinfo$default <- paste(deparse(.args[[p]]), collapse = " ")
+    }
+    params[[p]] <- pinfo
+  }
+  list(
+    name = name,
+    signature = .signature(f),
+    docstring = substr(paste(deparse(f), collapse = "\\n"), 1, 500),
+    parameters = params,
+    return_type = NULL
+  )
+}
+.introspect <- function(request) {
+  reply <- list(
+    variables = .named(NULL), functions = .named(NULL),
+    errors = list(variables = .named(NULL), functions = .named(NULL))
+  )
+  for (kind in c("variables", "functions")) {
+    info <- if (kind == "variables") .variable_info else .function_info
+    for (ref in request[[kind]]) {
+      tryCatch(
+        reply[[kind]][[ref]] <- info(ref),
+        error = function(e) reply$errors[[kind]][[ref]] <<- paste("Error:", conditionMessage(e))
+      )
+    }
+  }
+  reply
+}`;
+
+/**
+ * Quote a string as an R string literal.
+ */
+function rString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * R adapter. IRkernel drops output of silent requests, so code is run
+ * non-silently (still outside of the history).
+ */
+export const rAdapter: ILanguageAdapter = {
+  id: 'r',
+  languages: ['r'],
+  silent: false,
+  fenceLanguages: ['r'],
+  shellCellMagic: null,
+
+  introspectionCode(request: IIntrospectionRequest): string {
+    return `local({
+${R_HELPERS}
+${R_INTROSPECTION}
+.request <- jsonlite::fromJSON(${rString(JSON.stringify(request))}, simplifyVector = TRUE)
+cat(.to_json(.introspect(.request)))
+})`;
+  },
+
+  toolCallCode(name: string, args: Record<string, unknown>): string {
+    return `do.call(get(${rString(name)}, envir = globalenv(), mode = "function"), as.list(jsonlite::fromJSON(${rString(JSON.stringify(args))}, simplifyVector = TRUE)))`;
+  },
+
+  namespaceCode(): string {
+    return `local({
+${R_HELPERS}
+.entries <- lapply(ls(envir = globalenv()), function(n) {
+  v <- get(n, envir = globalenv())
+  entry <- list(name = n, type = class(v)[1], callable = is.function(v))
+  if (is.function(v)) {
+    entry$signature <- tryCatch(.signature(v), error = function(e) NULL)
+  } else if (!is.null(dim(v))) {
+    entry$shape <- as.list(dim(v))
+  }
+  entry
+})
+cat(.to_json(.entries))
+})`;
+  }
+};
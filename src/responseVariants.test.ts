@@ -0,0 +1,100 @@
+/**
+ * Tests for response variant helpers.
+ */
+
+import {
+  addVariant,
+  seedVariant,
+  selectVariant,
+  getSelectedVariant,
+  formatVariantLabel,
+  IVariantState
+} from './responseVariants';
+
+describe('addVariant', () => {
+  it('should create the variant list on first use', () => {
+    const state = addVariant({}, { content: 'first' });
+    expect(state.variants).toEqual([{ content: 'first' }]);
+    expect(state.selectedVariant).toBe(0);
+  });
+
+  it('should append and select the new variant', () => {
+    let state: IVariantState = addVariant({}, { content: 'first' });
+    state = addVariant(state, { content: 'second', interrupted: true });
+    expect(state.variants).toHaveLength(2);
+    expect(state.selectedVariant).toBe(1);
+    expect(getSelectedVariant(state)).toEqual({ content: 'second', interrupted: true });
+  });
+
+  it('should preserve other metadata fields', () => {
+    const state = addVariant({ isOutputCell: true } as IVariantState & { isOutputCell: boolean }, {
+      content: 'x'
+    });
+    expect(state.isOutputCell).toBe(true);
+  });
+
+  it('should not mutate the input state', () => {
+    const original: IVariantState = { variants: [{ content: 'a' }], selectedVariant: 0 };
+    addVariant(original, { content: 'b' });
+    expect(original.variants).toHaveLength(1);
+  });
+});
+
+describe('seedVariant', () => {
+  it('should keep the shown response as the first variant', () => {
+    const state = seedVariant({}, { content: 'old', interrupted: true });
+    expect(state.variants).toEqual([{ content: 'old', interrupted: true }]);
+    expect(state.selectedVariant).toBe(0);
+  });
+
+  it('should leave existing variants unchanged', () => {
+    const original: IVariantState = { variants: [{ content: 'a' }], selectedVariant: 0 };
+    expect(seedVariant(original, { content: 'b' })).toBe(original);
+  });
+});
+
+describe('selectVariant', () => {
+  const state: IVariantState = {
+    variants: [{ content: 'a' }, { content: 'b' }, { content: 'c' }],
+    selectedVariant: 2
+  };
+
+  it('should select a variant by index', () => {
+    expect(getSelectedVariant(selectVariant(state, 0))?.content).toBe('a');
+  });
+
+  it('should clamp out-of-range indices', () => {
+    expect(selectVariant(state, -1).selectedVariant).toBe(0);
+    expect(selectVariant(state, 10).selectedVariant).toBe(2);
+  });
+
+  it('should leave state without variants unchanged', () => {
+    const empty: IVariantState = {};
+    expect(selectVariant(empty, 1)).toBe(empty);
+  });
+});
+
+describe('getSelectedVariant', () => {
+  it('should return undefined without variants', () => {
+    expect(getSelectedVariant({})).toBeUndefined();
+  });
+
+  it('should default to the last variant when nothing is selected', () => {
+    const state: IVariantState = { variants: [{ content: 'a' }, { content: 'b' }] };
+    expect(getSelectedVariant(state)?.content).toBe('b');
+  });
+});
+
+describe('formatVariantLabel', () => {
+  it('should format the selected position and count', () => {
+    const state: IVariantState = {
+      variants: [{ content: 'a' }, { content: 'b' }, { content: 'c' }],
+      selectedVariant: 1
+    };
+    expect(formatVariantLabel(state)).toBe('2/3');
+  });
+
+  it('should handle empty state', () => {
+    expect(formatVariantLabel({})).toBe('0/0');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Helpers for the response variants stored on AI output cells.
+ *
+ * Each run of a prompt into the same output cell is kept as a variant so
+ * that earlier responses can be restored after regenerating.
+ */
+
+import type { IProvenance } from './provenance';
+import type { IContextFingerprint } from './staleness';
+
+/**
+ * A single generated response.
+ */
+export interface IResponseVariant {
+  /** Markdown content of the response */
+  content: string;
+  /** Whether generation was stopped before it completed */
+  interrupted?: boolean;
+  /** How the response was generated */
+  provenance?: IProvenance;
+  /** What the response was generated from */
+  fingerprint?: IContextFingerprint;
+}
+
+/**
+ * Variant state persisted in output cell metadata.
+ */
+export interface IVariantState {
+  variants?: IResponseVariant[];
+  selectedVariant?: number;
+}
+
+/**
+ * Append a variant and select it.
+ */
+export function addVariant<T extends IVariantState>(
+  state: T,
+  variant: IResponseVariant
+): T & IVariantState {
+  const variants = [...(state.variants ?? []), variant];
+  return { ...state, variants, selectedVariant: variants.length - 1 };
+}
+
+/**
+ * Keep the response shown in a cell without variants, e.g. one written
+ * before variants were recorded, as its first variant.
+ */
+export function seedVariant<T extends IVariantState>(
+  state: T,
+  variant: IResponseVariant
+): T & IVariantState {
+  return state.variants && state.variants.length > 0 ? state : addVariant(state, variant);
+}
+
+/**
+ * Select the variant at `index`, clamped to the available range.
+ */
+export function selectVariant<T extends IVariantState>(state: T, index: number): T {
+  const count = state.variants?.length ?? 0;
+  if (count === 0) {
+    return state;
+  }
+  const selectedVariant = Math.min(Math.max(index, 0), count - 1);
+  return { ...state, selectedVariant };
+}
+
+/**
+ * Get the currently selected variant, if any.
+ */
+export function getSelectedVariant(state: IVariantState): IResponseVariant | undefined {
+  const variants = state.variants ?? [];
+  if (variants.length === 0) {
+    return undefined;
+  }
+  const index = state.selectedVariant ?? variants.length - 1;
+  return variants[Math.min(Math.max(index, 0), variants.length - 1)];
+}
+
+/**
+ * Format the switcher label, e.g. "2/3".
+ */
+export function formatVariantLabel(state: IVariantState): string {
+  const count = state.variants?.length ?? 0;
+  if (count === 0) {
+    return '0/0';
+  }
+  const index = Math.min(Math.max(state.selectedVariant ?? count - 1, 0), count - 1);
+  return `${index + 1}/${count}`;
+}
@@ -2,7 +2,13 @@
  * Tests for SettingsManager.
  */
 
-import { SettingsManager } from './settings';
+import {
+  DEFAULT_MODEL,
+  SettingsManager,
+  getDefaultModel,
+  getProviderConfig,
+  getToolApprovalConfig
+} from './settings';
 
 describe('SettingsManager', () => {
   let settings: SettingsManager;
@@ -20,6 +26,20 @@ describe('SettingsManager', () => {
       expect(settings.defaultModel).toBe('claude-sonnet-4-20250514');
     });
     
+    it('should default to the Anthropic provider', () => {
+      expect(settings.provider).toBe('anthropic');
+      expect(settings.providerBaseUrl).toBe('');
+    });
+
+    it('should run tools without approval by default', () => {
+      expect(settings.toolApproval).toBe('auto');
+      expect(settings.approvedTools).toEqual([]);
+    });
+
+    it('should run tools on the server by default', () => {
+      expect(settings.toolExecution).toBe('server');
+    });
+
     it('should have default maxToolSteps', () => {
       expect(settings.maxToolSteps).toBe(5);
     });
@@ -27,6 +47,18 @@ describe('SettingsManager', () => {
     it('should have default showConvertButton', () => {
       expect(settings.showConvertButton).toBe(true);
     });
+
+    it('should disallow expression references by default', () => {
+      expect(settings.allowExpressions).toBe(false);
+    });
+
+    it('should have a default context token budget', () => {
+      expect(settings.contextTokenBudget).toBe(50000);
+    });
+
+    it('should stop running all prompts on error by default', () => {
+      expect(settings.stopRunAllOnError).toBe(true);
+    });
   });
   
   describe('toJSON', () => {
@@ -35,8 +67,16 @@ describe('SettingsManager', () => {
       
       expect(json).toEqual({
         defaultModel: 'claude-sonnet-4-20250514',
+        provider: 'anthropic',
+        providerBaseUrl: '',
         maxToolSteps: 5,
-        showConvertButton: true
+        toolApproval: 'auto',
+        approvedTools: [],
+        toolExecution: 'server',
+        showConvertButton: true,
+        allowExpressions: false,
+        contextTokenBudget: 50000,
+        stopRunAllOnError: true
       });
     });
   });
@@ -59,6 +99,56 @@ describe('SettingsManager', () => {
   });
 });
 
+describe('getDefaultModel', () => {
+  const models = { models: [{ id: 'llama3', name: 'llama3' }] };
+
+  it('should use the first listed model instead of the built-in default for other providers', () => {
+    expect(getDefaultModel({ defaultModel: DEFAULT_MODEL, provider: 'local' }, models)).toBe('llama3');
+    expect(getDefaultModel({ defaultModel: DEFAULT_MODEL, provider: 'anthropic' }, models)).toBe(
+      DEFAULT_MODEL
+    );
+  });
+
+  it('should keep a configured default model', () => {
+    expect(getDefaultModel({ defaultModel: 'gpt-4o', provider: 'openai' }, models)).toBe('gpt-4o');
+  });
+
+  it('should fall back to the built-in default without a model list', () => {
+    expect(getDefaultModel({ defaultModel: DEFAULT_MODEL, provider: 'local' }, { models: [] })).toBe(
+      DEFAULT_MODEL
+    );
+    expect(getDefaultModel(null, null)).toBe(DEFAULT_MODEL);
+  });
+});
+
+describe('getProviderConfig', () => {
+  it('should include the base URL only when set', () => {
+    expect(getProviderConfig({ provider: 'anthropic', providerBaseUrl: '' })).toEqual({
+      id: 'anthropic'
+    });
+    expect(
+      getProviderConfig({ provider: 'local', providerBaseUrl: ' http://localhost:8000/v1 ' })
+    ).toEqual({ id: 'local', baseUrl: 'http://localhost:8000/v1' });
+  });
+
+  it('should leave the provider to the server without settings', () => {
+    expect(getProviderConfig(null)).toBeUndefined();
+  });
+});
+
+describe('getToolApprovalConfig', () => {
+  it('should copy the mode and approved functions', () => {
+    const approvedTools = ['load_data'];
+    const config = getToolApprovalConfig({ toolApproval: 'unlisted', approvedTools });
+    expect(config).toEqual({ mode: 'unlisted', approvedTools: ['load_data'] });
+    expect(config?.approvedTools).not.toBe(approvedTools);
+  });
+
+  it('should leave approval to the server without settings', () => {
+    expect(getToolApprovalConfig(null)).toBeUndefined();
+  });
+});
+
 describe('IExtensionSettings interface', () => {
   it('SettingsManager should implement IExtensionSettings', () => {
     const settings = new SettingsManager();
@@ -6,27 +6,99 @@
 
 import { ISettingRegistry } from '@jupyterlab/settingregistry';
 import { Signal, ISignal } from '@lumino/signaling';
-import { IExtensionSettings } from './tokens';
+import {
+  IExtensionSettings,
+  IModelsService,
+  IProviderConfig,
+  IToolApprovalConfig,
+  ProviderId,
+  ToolApprovalMode,
+  ToolExecutionMode
+} from './tokens';
 
 const PLUGIN_ID = 'ai-jup:plugin';
 
+/**
+ * Model used when no default model is configured.
+ */
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
 /**
  * Default settings values.
  */
 const DEFAULT_SETTINGS: IExtensionSettings = {
-  defaultModel: 'claude-sonnet-4-20250514',
+  defaultModel: DEFAULT_MODEL,
+  provider: 'anthropic',
+  providerBaseUrl: '',
   maxToolSteps: 5,
-  showConvertButton: true
+  toolApproval: 'auto',
+  approvedTools: [],
+  toolExecution: 'server',
+  showConvertButton: true,
+  allowExpressions: false,
+  contextTokenBudget: 50000,
+  stopRunAllOnError: true
 };
 
+/**
+ * Get the provider that prompts are sent to, or undefined (the server's
+ * default, Anthropic) when there are no settings.
+ */
+export function getProviderConfig(
+  settings: Pick<IExtensionSettings, 'provider' | 'providerBaseUrl'> | null
+): IProviderConfig | undefined {
+  if (!settings) {
+    return undefined;
+  }
+  const baseUrl = settings.providerBaseUrl.trim();
+  return baseUrl ? { id: settings.provider, baseUrl } : { id: settings.provider };
+}
+
+/**
+ * Get the model prompts use unless they pick one. The built-in default is
+ * an Anthropic model, so other providers use the first model they list
+ * instead; a configured default model is always kept.
+ */
+export function getDefaultModel(
+  settings: Pick<IExtensionSettings, 'defaultModel' | 'provider'> | null,
+  models: Pick<IModelsService, 'models'> | null
+): string {
+  const configured = settings?.defaultModel || DEFAULT_MODEL;
+  if (configured !== DEFAULT_MODEL || !settings || settings.provider === 'anthropic') {
+    return configured;
+  }
+  return models?.models[0]?.id ?? configured;
+}
+
+/**
+ * Get when tool calls need the user's approval, or undefined (run without
+ * asking) when there are no settings.
+ */
+export function getToolApprovalConfig(
+  settings: Pick<IExtensionSettings, 'toolApproval' | 'approvedTools'> | null
+): IToolApprovalConfig | undefined {
+  if (!settings) {
+    return undefined;
+  }
+  return { mode: settings.toolApproval, approvedTools: [...settings.approvedTools] };
+}
+
 /**
  * Settings manager that wraps ISettingRegistry.
  */
 export class SettingsManager implements IExtensionSettings {
   private _settings: ISettingRegistry.ISettings | null = null;
   private _defaultModel: string = DEFAULT_SETTINGS.defaultModel;
+  private _provider: ProviderId = DEFAULT_SETTINGS.provider;
+  private _providerBaseUrl: string = DEFAULT_SETTINGS.providerBaseUrl;
   private _maxToolSteps: number = DEFAULT_SETTINGS.maxToolSteps;
+  private _toolApproval: ToolApprovalMode = DEFAULT_SETTINGS.toolApproval;
+  private _approvedTools: string[] = DEFAULT_SETTINGS.approvedTools;
+  private _toolExecution: ToolExecutionMode = DEFAULT_SETTINGS.toolExecution;
   private _showConvertButton: boolean = DEFAULT_SETTINGS.showConvertButton;
+  private _allowExpressions: boolean = DEFAULT_SETTINGS.allowExpressions;
+  private _contextTokenBudget: number = DEFAULT_SETTINGS.contextTokenBudget;
+  private _stopRunAllOnError: boolean = DEFAULT_SETTINGS.stopRunAllOnError;
   private _settingsChanged = new Signal<this, void>(this);
 
   /**
@@ -40,14 +112,46 @@ export class SettingsManager implements IExtensionSettings {
     return this._defaultModel;
   }
 
+  get provider(): ProviderId {
+    return this._provider;
+  }
+
+  get providerBaseUrl(): string {
+    return this._providerBaseUrl;
+  }
+
   get maxToolSteps(): number {
     return this._maxToolSteps;
   }
 
+  get toolApproval(): ToolApprovalMode {
+    return this._toolApproval;
+  }
+
+  get approvedTools(): string[] {
+    return this._approvedTools;
+  }
+
+  get toolExecution(): ToolExecutionMode {
+    return this._toolExecution;
+  }
+
   get showConvertButton(): boolean {
     return this._showConvertButton;
   }
 
+  get allowExpressions(): boolean {
+    return this._allowExpressions;
+  }
+
+  get contextTokenBudget(): number {
+    return this._contextTokenBudget;
+  }
+
+  get stopRunAllOnError(): boolean {
+    return this._stopRunAllOnError;
+  }
+
   /**
    * Initialize settings from the registry.
    */
@@ -79,8 +183,16 @@ export class SettingsManager implements IExtensionSettings {
   toJSON(): IExtensionSettings {
     return {
       defaultModel: this._defaultModel,
+      provider: this._provider,
+      providerBaseUrl: this._providerBaseUrl,
       maxToolSteps: this._maxToolSteps,
-      showConvertButton: this._showConvertButton
+      toolApproval: this._toolApproval,
+      approvedTools: this._approvedTools,
+      toolExecution: this._toolExecution,
+      showConvertButton: this._showConvertButton,
+      allowExpressions: this._allowExpressions,
+      contextTokenBudget: this._contextTokenBudget,
+      stopRunAllOnError: this._stopRunAllOnError
     };
   }
 
@@ -96,10 +208,26 @@ export class SettingsManager implements IExtensionSettings {
     
     this._defaultModel =
       (composite['defaultModel'] as string) ?? DEFAULT_SETTINGS.defaultModel;
+    this._provider =
+      (composite['provider'] as ProviderId) ?? DEFAULT_SETTINGS.provider;
+    this._providerBaseUrl =
+      (composite['providerBaseUrl'] as string) ?? DEFAULT_SETTINGS.providerBaseUrl;
     this._maxToolSteps =
       (composite['maxToolSteps'] as number) ?? DEFAULT_SETTINGS.maxToolSteps;
+    this._toolApproval =
+      (composite['toolApproval'] as ToolApprovalMode) ?? DEFAULT_SETTINGS.toolApproval;
+    this._approvedTools =
+      (composite['approvedTools'] as string[]) ?? DEFAULT_SETTINGS.approvedTools;
+    this._toolExecution =
+      (composite['toolExecution'] as ToolExecutionMode) ?? DEFAULT_SETTINGS.toolExecution;
     this._showConvertButton =
       (composite['showConvertButton'] as boolean) ?? DEFAULT_SETTINGS.showConvertButton;
+    this._allowExpressions =
+      (composite['allowExpressions'] as boolean) ?? DEFAULT_SETTINGS.allowExpressions;
+    this._contextTokenBudget =
+      (composite['contextTokenBudget'] as number) ?? DEFAULT_SETTINGS.contextTokenBudget;
+    this._stopRunAllOnError =
+      (composite['stopRunAllOnError'] as boolean) ?? DEFAULT_SETTINGS.stopRunAllOnError;
   }
 
   /**
@@ -0,0 +1,138 @@
+/**
+ * Tests for stale response detection.
+ */
+
+import {
+  IContextFingerprint,
+  fingerprintCells,
+  fingerprintContext,
+  fingerprintVariables,
+  mayChangeVariables,
+  readFingerprint,
+  staleReasons
+} from './staleness';
+
+const cells = [
+  { id: 'c1', source: 'import pandas as pd' },
+  { id: 'c2', source: 'df = pd.read_csv("data.csv")' }
+];
+const variables = { df: { type: 'DataFrame', repr: '   a\n0  1' } };
+
+describe('fingerprintContext', () => {
+  it('should hash cells in order, variables by name and keep the kernel', async () => {
+    const fingerprint = await fingerprintContext(cells, variables, 'k1');
+    expect(fingerprint.kernelId).toBe('k1');
+    expect(fingerprint.cells.map(cell => cell.id)).toEqual(['c1', 'c2']);
+    expect(fingerprint.cells[0].hash).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(Object.keys(fingerprint.variables)).toEqual(['df']);
+  });
+
+  it('should hash equal values the same', async () => {
+    expect(await fingerprintContext(cells, variables, null)).toEqual(
+      await fingerprintContext(cells, variables, null)
+    );
+  });
+});
+
+describe('fingerprintCells', () => {
+  it('should hash the same as the context fingerprint', async () => {
+    const fingerprint = await fingerprintContext(cells, {}, null);
+    expect(await fingerprintCells(cells)).toEqual(fingerprint.cells);
+  });
+});
+
+describe('mayChangeVariables', () => {
+  it('should find sources that mention a referenced root name', () => {
+    expect(mayChangeVariables('df = df.dropna()', ['df["a"]'])).toBe(true);
+    expect(mayChangeVariables('model.fit(X, y)', ['model.coef_'])).toBe(true);
+  });
+
+  it('should ignore sources that do not mention one', () => {
+    expect(mayChangeVariables('df2 = load()\nprint(my_df)', ['df'])).toBe(false);
+    expect(mayChangeVariables('x = 1', [])).toBe(false);
+  });
+});
+
+describe('fingerprintVariables', () => {
+  it('should change with the repr or error', async () => {
+    const [a, b, c] = await Promise.all([
+      fingerprintVariables({ x: { type: 'int', repr: '1' } }),
+      fingerprintVariables({ x: { type: 'int', repr: '2' } }),
+      fingerprintVariables({ x: { type: 'error', repr: '', error: "NameError: name 'x' is not defined" } })
+    ]);
+    expect(a.x).not.toBe(b.x);
+    expect(a.x).not.toBe(c.x);
+  });
+});
+
+describe('readFingerprint', () => {
+  it('should read the fingerprint from cell metadata', async () => {
+    const fingerprint = await fingerprintContext(cells, variables, 'k1');
+    expect(readFingerprint({ isOutputCell: true, fingerprint })).toEqual(fingerprint);
+  });
+
+  it('should return null without a valid fingerprint', () => {
+    expect(readFingerprint(undefined)).toBeNull();
+    expect(readFingerprint({ isOutputCell: true })).toBeNull();
+    expect(readFingerprint({ fingerprint: { kernelId: 'k1' } })).toBeNull();
+  });
+
+  it('should drop malformed cells', () => {
+    const fingerprint = { kernelId: 3, cells: [{ id: 'c1', hash: 'h1' }, { id: 'c2' }], variables: {} };
+    expect(readFingerprint({ fingerprint })).toEqual({
+      kernelId: null,
+      cells: [{ id: 'c1', hash: 'h1' }],
+      variables: {}
+    });
+  });
+});
+
+describe('staleReasons', () => {
+  const stored: IContextFingerprint = {
+    kernelId: 'k1',
+    cells: [
+      { id: 'c1', hash: 'h1' },
+      { id: 'c2', hash: 'h2' }
+    ],
+    variables: { df: 'v1', model: 'v2' }
+  };
+
+  it('should find nothing when the context is unchanged', () => {
+    expect(staleReasons(stored, stored)).toEqual([]);
+  });
+
+  it('should report a changed kernel', () => {
+    expect(staleReasons(stored, { ...stored, kernelId: 'k2' })).toEqual(['The kernel has changed']);
+  });
+
+  it('should not compare unknown kernels', () => {
+    expect(staleReasons(stored, { ...stored, kernelId: null })).toEqual([]);
+    expect(staleReasons({ ...stored, kernelId: null }, { ...stored, kernelId: 'k2' })).toEqual([]);
+  });
+
+  it('should report edited, added and removed cells', () => {
+    const current: IContextFingerprint = {
+      ...stored,
+      cells: [
+        { id: 'c1', hash: 'h1-edited' },
+        { id: 'c3', hash: 'h3' },
+        { id: 'c4', hash: 'h4' }
+      ]
+    };
+    expect(staleReasons(stored, current)).toEqual([
+      '1 cell above edited',
+      '2 cells above added',
+      '1 cell above removed'
+    ]);
+  });
+
+  it('should report changed variables', () => {
+    expect(staleReasons(stored, { ...stored, variables: { df: 'v1-changed', model: 'v2' } })).toEqual([
+      '`df` changed'
+    ]);
+  });
+
+  it('should not compare variables that have not been checked', () => {
+    expect(staleReasons(stored, { ...stored, variables: { model: 'v2' } })).toEqual([]);
+  });
+});
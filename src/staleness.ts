@@ -0,0 +1,161 @@
+/**
+ * Detection of responses that no longer match the notebook.
+ *
+ * Each response records under the `fingerprint` key of its output cell's
+ * `ai_jup` metadata what it was generated from: hashes of the code cells
+ * above its prompt, hashes of the referenced variables' values and the
+ * kernel's id. Comparing it with the notebook's current state tells which
+ * responses are stale and why.
+ */
+
+import type { PartialJSONObject } from '@lumino/coreutils';
+import type { IVariableInfo } from './tokens';
+import { hashContext } from './provenance';
+import { getReferenceRoot } from './promptParser';
+
+/**
+ * A code cell above the prompt.
+ */
+export interface ICellFingerprint extends PartialJSONObject {
+  id: string;
+  /** `sha256:` hash of the cell source */
+  hash: string;
+}
+
+/**
+ * What a response was generated from.
+ */
+export interface IContextFingerprint extends PartialJSONObject {
+  /** Kernel the response was generated with, or null if there was none */
+  kernelId: string | null;
+  /** The code cells above the prompt, in order */
+  cells: ICellFingerprint[];
+  /** `sha256:` hashes of the referenced variables' values by name */
+  variables: Record<string, string>;
+}
+
+/**
+ * Hash a variable's value as sent to the model.
+ */
+function hashVariable(info: Pick<IVariableInfo, 'type' | 'repr' | 'summary' | 'error'>): Promise<string> {
+  const { type, repr, summary, error } = info;
+  return hashContext({ type, repr, summary, error });
+}
+
+/**
+ * Hash the values of variables by name.
+ */
+export async function fingerprintVariables(
+  variables: Record<string, Pick<IVariableInfo, 'type' | 'repr' | 'summary' | 'error'>>
+): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const [name, info] of Object.entries(variables)) {
+    hashes[name] = await hashVariable(info);
+  }
+  return hashes;
+}
+
+/**
+ * Hash the sources of cells.
+ */
+export async function fingerprintCells(
+  cells: ReadonlyArray<{ id: string; source: string }>
+): Promise<ICellFingerprint[]> {
+  const hashes: ICellFingerprint[] = [];
+  for (const { id, source } of cells) {
+    hashes.push({ id, hash: await hashContext(source) });
+  }
+  return hashes;
+}
+
+/**
+ * Fingerprint the context of a prompt.
+ */
+export async function fingerprintContext(
+  cells: ReadonlyArray<{ id: string; source: string }>,
+  variables: Record<string, Pick<IVariableInfo, 'type' | 'repr' | 'summary' | 'error'>>,
+  kernelId: string | null
+): Promise<IContextFingerprint> {
+  return { kernelId, cells: await fingerprintCells(cells), variables: await fingerprintVariables(variables) };
+}
+
+/**
+ * Whether running `source` may change a referenced variable, i.e. the
+ * source mentions the variable's root name.
+ */
+export function mayChangeVariables(source: string, references: Iterable<string>): boolean {
+  for (const reference of references) {
+    const root = getReferenceRoot(reference);
+    if (root && new RegExp(`(?<![\\w$])${root}(?![\\w$])`).test(source)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Read the fingerprint from an output cell's `ai_jup` metadata, or null if
+ * it has none or it is malformed.
+ */
+export function readFingerprint(cellMetadata: unknown): IContextFingerprint | null {
+  const fingerprint = (cellMetadata as { fingerprint?: unknown } | null | undefined)?.fingerprint;
+  if (!fingerprint || typeof fingerprint !== 'object') {
+    return null;
+  }
+  const { kernelId, cells, variables } = fingerprint as Partial<IContextFingerprint>;
+  if (!Array.isArray(cells) || !variables || typeof variables !== 'object') {
+    return null;
+  }
+  return {
+    kernelId: typeof kernelId === 'string' ? kernelId : null,
+    cells: cells.filter(cell => !!cell && typeof cell.id === 'string' && typeof cell.hash === 'string'),
+    variables
+  };
+}
+
+function count(n: number, what: string): string {
+  return `${n} ${what}${n === 1 ? '' : 's'}`;
+}
+
+/**
+ * List why a response is stale, or return an empty list if it is not.
+ * Variables missing from `current` have not been checked yet and are not
+ * compared, and neither are kernels when either id is unknown.
+ */
+export function staleReasons(stored: IContextFingerprint, current: IContextFingerprint): string[] {
+  const reasons: string[] = [];
+  if (stored.kernelId && current.kernelId && stored.kernelId !== current.kernelId) {
+    reasons.push('The kernel has changed');
+  }
+
+  const storedCells = new Map(stored.cells.map(cell => [cell.id, cell.hash]));
+  const currentIds = new Set(current.cells.map(cell => cell.id));
+  let edited = 0;
+  let added = 0;
+  for (const { id, hash } of current.cells) {
+    const storedHash = storedCells.get(id);
+    if (storedHash === undefined) {
+      added++;
+    } else if (storedHash !== hash) {
+      edited++;
+    }
+  }
+  const removed = stored.cells.filter(cell => !currentIds.has(cell.id)).length;
+  if (edited > 0) {
+    reasons.push(`${count(edited, 'cell')} above edited`);
+  }
+  if (added > 0) {
+    reasons.push(`${count(added, 'cell')} above added`);
+  }
+  if (removed > 0) {
+    reasons.push(`${count(removed, 'cell')} above removed`);
+  }
+
+  for (const [name, hash] of Object.entries(stored.variables)) {
+    const currentHash = current.variables[name];
+    if (currentHash !== undefined && currentHash !== hash) {
+      reasons.push(`\`${name}\` changed`);
+    }
+  }
+  return reasons;
+}
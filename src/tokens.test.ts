@@ -6,6 +6,7 @@ import {
   IKernelConnectorFactory,
   IPromptCellManager,
   IPromptModelFactory,
+  IModelsService,
   IExtensionSettings
 } from './tokens';
 
@@ -40,6 +41,16 @@ describe('DI Tokens', () => {
     });
   });
   
+  describe('IModelsService token', () => {
+    it('should have correct id', () => {
+      expect(IModelsService.name).toBe('ai-jup:IModelsService');
+    });
+    
+    it('should have description', () => {
+      expect(IModelsService.description).toBe('Models offered by the server');
+    });
+  });
+  
   describe('IExtensionSettings token', () => {
     it('should have correct id', () => {
       expect(IExtensionSettings.name).toBe('ai-jup:IExtensionSettings');
@@ -57,6 +68,7 @@ describe('Token uniqueness', () => {
       IKernelConnectorFactory.name,
       IPromptCellManager.name,
       IPromptModelFactory.name,
+      IModelsService.name,
       IExtensionSettings.name
     ];
     
@@ -6,6 +6,7 @@
  */
 
 import { Token } from '@lumino/coreutils';
+import { IDisposable } from '@lumino/disposable';
 import { ISignal } from '@lumino/signaling';
 import { NotebookPanel } from '@jupyterlab/notebook';
 import { Cell } from '@jupyterlab/cells';
@@ -15,10 +16,56 @@ import { KernelMessage } from '@jupyterlab/services';
  * Variable information from kernel introspection.
  */
 export interface IVariableInfo {
+  /** Variable name or the referenced expression, e.g. `df["col"]` */
   name: string;
   type: string;
   repr: string;
   value?: unknown;
+  /** Set when the reference could not be evaluated in the kernel */
+  error?: string;
+  /** Structured summary from a type-specific summarizer, sent instead of `repr` */
+  summary?: IVariableSummary;
+}
+
+/**
+ * Structured summary of a value produced by a variable summarizer.
+ * Keys use the kernel's snake_case naming; all fields are optional.
+ */
+export interface IVariableSummary {
+  /** Kind of value, e.g. `dataframe`, `series`, `array` or `tensor` */
+  kind?: string;
+  shape?: number[];
+  dtype?: string;
+  /** Column dtypes of tabular values */
+  dtypes?: Record<string, string>;
+  /** Non-zero null counts per column (or a single count for 1-d values) */
+  null_counts?: Record<string, number> | number;
+  head?: string;
+  tail?: string;
+  /** Memory usage in bytes */
+  memory_usage?: number;
+  min?: number | string | boolean;
+  max?: number | string | boolean;
+  device?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A kernel-side summarizer for values of specific types.
+ */
+export interface IVariableSummarizer {
+  /**
+   * Fully qualified type names handled by this summarizer, matched against
+   * the value's class hierarchy. Either the defining module or the top-level
+   * package may be used, e.g. `pandas.core.frame.DataFrame` or `pandas.DataFrame`.
+   */
+  types: string[];
+
+  /**
+   * Python source for the body of a function taking `value` and returning a
+   * JSON-serialisable dict (see IVariableSummary), or None to fall back to repr.
+   */
+  code: string;
 }
 
 /**
@@ -41,6 +88,49 @@ export interface IFunctionInfo {
   return_type?: string;
 }
 
+/**
+ * A top-level name defined in the kernel namespace.
+ */
+export interface INamespaceEntry {
+  name: string;
+  type: string;
+  callable: boolean;
+  /** Shape of array-like values (DataFrames, ndarrays, tensors) */
+  shape?: number[];
+  /** Signature of callables, e.g. "(x, y=1)" */
+  signature?: string;
+}
+
+/**
+ * Cached view of the names defined in a notebook's kernel.
+ */
+export interface IKernelNamespace {
+  /**
+   * Signal emitted when the cached names change.
+   */
+  readonly changed: ISignal<IKernelNamespace, void>;
+
+  /**
+   * Whether names have been loaded from the kernel at least once.
+   */
+  readonly loaded: boolean;
+
+  /**
+   * All cached entries.
+   */
+  readonly entries: ReadonlyArray<INamespaceEntry>;
+
+  /**
+   * Look up a name.
+   */
+  get(name: string): INamespaceEntry | undefined;
+
+  /**
+   * Reload names from the kernel.
+   */
+  refresh(): Promise<void>;
+}
+
 /**
  * Interface for kernel connector.
  * Provides kernel introspection and code execution capabilities.
@@ -52,20 +142,27 @@ export interface IKernelConnector {
   readonly kernelAvailable: boolean;
 
   /**
-   * Execute code silently and capture output.
+   * Execute code outside of the execution history and capture output.
+   * Code is executed silently unless `silent` is false.
    */
   execute(
     code: string,
-    onOutput?: (msg: KernelMessage.IIOPubMessage) => void
+    onOutput?: (msg: KernelMessage.IIOPubMessage) => void,
+    silent?: boolean
   ): Promise<KernelMessage.IExecuteReplyMsg | null>;
 
   /**
    * Execute code and return stdout output as string.
    */
-  executeAndCapture(code: string): Promise<string>;
+  executeAndCapture(code: string, silent?: boolean): Promise<string>;
 
   /**
-   * Get information about a variable in the kernel.
+   * Get the kernel's language info, or null if there is no kernel.
+   */
+  getLanguageInfo(): Promise<KernelMessage.ILanguageInfo | null>;
+
+  /**
+   * Get information about a variable, attribute path or expression in the kernel.
    */
   getVariable(name: string): Promise<IVariableInfo | null>;
 
@@ -73,6 +170,94 @@ export interface IKernelConnector {
    * Get information about a function in the kernel.
    */
   getFunction(name: string): Promise<IFunctionInfo | null>;
+
+  /**
+   * List the user-defined top-level names in the kernel.
+   * Resolves to null when the kernel language cannot enumerate its names.
+   */
+  listNamespace(): Promise<INamespaceEntry[] | null>;
+
+  /**
+   * Resolve several variables and functions in a single kernel execution.
+   */
+  introspect(request: IIntrospectionRequest): Promise<IIntrospectionResult>;
+}
+
+/**
+ * Kernel-language specific introspection code, chosen from the kernel's
+ * `language_info`. The server only runs Python tool calls; tool calls of
+ * other languages always run in the notebook's kernel with `toolCallCode`.
+ */
+export interface ILanguageAdapter {
+  /** Adapter identifier, e.g. `python` */
+  readonly id: string;
+
+  /** Lower-case `language_info.name` values handled by this adapter */
+  readonly languages: ReadonlyArray<string>;
+
+  /** Whether the kernel emits output for silent execute requests */
+  readonly silent: boolean;
+
+  /** Lower-case languages of markdown code fences that run in this kernel */
+  readonly fenceLanguages: ReadonlyArray<string>;
+
+  /**
+   * Cell magic that runs shell code fences such as ```` ```bash ````, or
+   * null if the kernel has none.
+   */
+  readonly shellCellMagic: string | null;
+
+  /**
+   * Code that prints an IIntrospectionResult as JSON. Summarizers are
+   * Python snippets and only used by the Python adapter.
+   */
+  introspectionCode(
+    request: IIntrospectionRequest,
+    summarizers: ReadonlyArray<IVariableSummarizer>
+  ): string;
+
+  /**
+   * Code that prints the kernel's INamespaceEntry list as JSON, or null if
+   * the language cannot enumerate user-defined names.
+   */
+  namespaceCode(): string | null;
+
+  /**
+   * An expression calling the user's function `name` with `args`, run in
+   * the notebook's kernel so that its value and display output show as
+   * outputs. `parameterNames` gives the positional order for languages
+   * without keyword arguments.
+   */
+  toolCallCode(name: string, args: Record<string, unknown>, parameterNames: string[]): string;
+
+  /**
+   * Code that registers the `ai_jup` comm target and prints `ok`.
+   * Only for kernels that support comms.
+   */
+  commRegistrationCode?(summarizers: ReadonlyArray<IVariableSummarizer>): string;
+}
+
+/**
+ * References to resolve with IKernelConnector.introspect.
+ */
+export interface IIntrospectionRequest {
+  /** Variable names, attribute paths or expressions */
+  variables: string[];
+  /** Function names */
+  functions: string[];
+}
+
+/**
+ * Result of a batched introspection. A reference appears either in its
+ * info map or in the matching error map, keyed by the requested reference.
+ */
+export interface IIntrospectionResult {
+  variables: Record<string, IVariableInfo>;
+  functions: Record<string, IFunctionInfo>;
+  errors: {
+    variables: Record<string, string>;
+    functions: Record<string, string>;
+  };
 }
 
 /**
@@ -84,6 +269,8 @@ export type StreamEventType =
   | 'tool_call'
   | 'tool_input'
   | 'tool_result'
+  | 'tool_approval'
+  | 'tool_execute'
   | 'error'
   | 'done';
 
@@ -106,7 +293,15 @@ export interface IStreamEvent {
     id: string;
     name: string;
     result: unknown;
+    /** Arguments the tool ran with, after any edit in the approval prompt */
+    input?: Record<string, unknown>;
+    /** Execution time in seconds */
+    duration?: number;
   };
+  /** Tool call waiting for approval for 'tool_approval' events */
+  toolApproval?: IToolApprovalRequest;
+  /** Tool call to run in the notebook's kernel for 'tool_execute' events */
+  toolExecute?: IToolExecuteRequest;
   /** Error message for 'error' events */
   error?: string;
 }
@@ -138,6 +333,31 @@ export interface IChartSpec {
   cellIndex: number;
 }
 
+/**
+ * Text output of a preceding code cell: printed text, a result's text
+ * representation, or an error traceback.
+ */
+export interface ICellOutput {
+  /** nbformat output type */
+  outputType: 'stream' | 'execute_result' | 'error';
+  /** Stream name, for stream outputs */
+  name?: string;
+  /** Output text with ANSI escape sequences removed */
+  text: string;
+  /** Whether the text was shortened to the per-output limit */
+  truncated?: boolean;
+  /** Cell index where the output was found */
+  cellIndex: number;
+}
+
+/**
+ * A code cell the model may edit, identified by its cell id.
+ */
+export interface IEditableCell {
+  id: string;
+  source: string;
+}
+
 /**
  * A single turn in the conversation history.
  */
@@ -159,8 +379,23 @@ export interface IPromptContext {
   images?: IImageContext[];
   /** Chart specs from preceding cells (Vega-Lite, Plotly) */
   chartSpecs?: IChartSpec[];
+  /** Text outputs and errors from preceding code cells */
+  outputs?: ICellOutput[];
+  /** Cells that edits may target; set when the prompt asks for cell edits */
+  editableCells?: IEditableCell[];
   /** Previous prompt/response pairs for conversation continuity */
   conversationHistory?: IConversationTurn[];
+  /** Kernel language (`language_info.name`), used to label code and run tools */
+  language?: string;
+}
+
+/**
+ * A sidebar chat message ready to send: the message with variable values
+ * substituted, and the notebook context to send with it.
+ */
+export interface IChatRequest {
+  prompt: string;
+  context: IPromptContext;
 }
 
 /**
@@ -193,6 +428,11 @@ export interface IPromptModel {
    */
   readonly output: string;
 
+  /**
+   * Whether the last execution was aborted before it completed.
+   */
+  readonly interrupted: boolean;
+
   /**
    * Execute a prompt and stream the response.
    */
@@ -203,7 +443,12 @@ export interface IPromptModel {
   ): Promise<void>;
 
   /**
-   * Abort the current execution.
+   * Answer a tool approval request of the current execution.
+   */
+  respondToToolApproval(id: string, decision: ToolApprovalDecision): Promise<void>;
+
+  /**
+   * Abort the current execution, denying tool calls that wait for approval.
    */
   abort(): void;
 
@@ -220,9 +465,120 @@ export namespace IPromptModel {
     model: string;
     kernelId?: string;
     maxSteps?: number;
+    /** LLM provider to send the prompt to; the server defaults to Anthropic */
+    provider?: IProviderConfig;
+    /** When tool calls wait for approval; the server runs them without asking by default */
+    toolApproval?: IToolApprovalConfig;
+    /**
+     * Runs tool calls in the notebook's own kernel session. The server runs
+     * them on a kernel client of its own when unset.
+     */
+    toolExecutor?: IToolExecutor;
   }
 }
 
+/**
+ * LLM provider identifier: the Anthropic API, an OpenAI-compatible API, or a
+ * local OpenAI-compatible server (Ollama, vLLM, llama.cpp).
+ */
+export type ProviderId = 'anthropic' | 'openai' | 'local';
+
+/**
+ * LLM provider a prompt is sent to.
+ */
+export interface IProviderConfig {
+  id: ProviderId;
+  /** API base URL, e.g. `http://localhost:8000/v1`; the provider's default when unset */
+  baseUrl?: string;
+}
+
+/**
+ * When kernel tool calls wait for the user's approval: every call
+ * (`always`), calls of functions that are not in the approved list
+ * (`unlisted`), or never (`auto`).
+ */
+export type ToolApprovalMode = 'always' | 'unlisted' | 'auto';
+
+/**
+ * Tool approval settings sent with a prompt.
+ */
+export interface IToolApprovalConfig {
+  mode: ToolApprovalMode;
+  /** Functions that run without approval in the `unlisted` mode */
+  approvedTools: string[];
+}
+
+/**
+ * A tool call waiting for the user's approval.
+ */
+export interface IToolApprovalRequest {
+  /** Approval id to answer with */
+  id: string;
+  /** Id of the tool call */
+  toolId: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * A tool call for the frontend to run in the notebook's kernel.
+ */
+export interface IToolExecuteRequest {
+  /** Request id to post the result with */
+  id: string;
+  /** Id of the tool call */
+  toolId: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Result of a tool call, in the format of server-side tool execution.
+ */
+export interface IToolCallResult {
+  status: 'success' | 'error';
+  result?: {
+    type: 'text' | 'html' | 'image';
+    content: string;
+    /** Image format, e.g. `png` */
+    format?: string;
+  };
+  /** MIME bundle of the value, rendered by the frontend but not sent to the model */
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Runs tool calls in a notebook's kernel session.
+ */
+export interface IToolExecutor {
+  /**
+   * Call the user's function `name` with `args`. Failures are returned as
+   * error results. `parameterNames` gives the positional order for
+   * languages without keyword arguments.
+   */
+  execute(
+    name: string,
+    args: Record<string, unknown>,
+    parameterNames: string[]
+  ): Promise<IToolCallResult>;
+}
+
+/**
+ * Where tool calls run: on a kernel client of the server (`server`), or in
+ * the notebook's kernel session through the frontend (`client`).
+ */
+export type ToolExecutionMode = 'server' | 'client';
+
+/**
+ * The user's answer to a tool approval request. `edit` runs the tool with
+ * the given arguments instead of the model's.
+ */
+export type ToolApprovalDecision =
+  | { decision: 'approve' }
+  | { decision: 'edit'; args: Record<string, unknown> }
+  | { decision: 'deny' };
+
 /**
  * Interface for prompt cell manager.
  * Manages prompt cells within notebooks.
@@ -243,10 +599,84 @@ export interface IPromptCellManager {
    */
   executePromptCell(panel: NotebookPanel): Promise<void>;
 
+  /**
+   * Execute the current prompt cell, asking for edits to existing cells
+   * (replace, insert, delete) that are reviewed as inline diffs.
+   */
+  proposeCellEdits(panel: NotebookPanel): Promise<void>;
+
+  /**
+   * Regenerate the response of the active prompt or output cell in place,
+   * keeping earlier responses as selectable variants.
+   */
+  regeneratePromptCell(panel: NotebookPanel): Promise<void>;
+
+  /**
+   * Run the cells of a notebook in order, waiting for each prompt's
+   * response before moving on: `all` cells, the cells `above` the active
+   * cell, or the active cell and the cells `below` it. Each prompt replaces
+   * its latest response. Resolves to false if a cell failed or a response
+   * was stopped.
+   */
+  runPrompts(panel: NotebookPanel, scope: 'all' | 'above' | 'below'): Promise<boolean>;
+
+  /**
+   * Stop the streaming response for the active prompt or output cell.
+   * Stops every running prompt in the notebook if the active cell has none.
+   * Returns whether anything was stopped.
+   */
+  stopPromptCell(panel: NotebookPanel): boolean;
+
+  /**
+   * Ask the AI to explain the error raised by the active code cell
+   * (`explain`), or to propose a corrected cell source (`fix`).
+   */
+  fixCell(panel: NotebookPanel, mode: 'explain' | 'fix'): Promise<void>;
+
+  /**
+   * Replace the cells converted from a response, starting from the active
+   * cell, with the original response cell. Returns false if the active cell
+   * was not converted from a response that can be restored.
+   */
+  revertConversion(panel: NotebookPanel): boolean;
+
+  /**
+   * Select the AI-generated cells of a notebook: response cells, cells
+   * converted from them and cells carrying provenance metadata. Returns
+   * the number of selected cells.
+   */
+  selectAIGenerated(panel: NotebookPanel): number;
+
+  /**
+   * Build a sidebar chat request from the whole notebook, resolving the
+   * message's $`variable` and &`function` references. `history` is sent as
+   * the conversation instead of the notebook's prompt cells. Resolves to
+   * null when the notebook has not been set up, and rejects when variables
+   * or functions are referenced without a kernel to resolve them.
+   */
+  buildChatRequest(
+    panel: NotebookPanel,
+    message: string,
+    history: IConversationTurn[]
+  ): Promise<IChatRequest | null>;
+
+  /**
+   * Get the executor that runs tool calls in a notebook's kernel session,
+   * or null when tools run on the server or the notebook is not set up.
+   * Tools of kernels in a language other than Python always run in the
+   * kernel session.
+   */
+  getToolExecutor(panel: NotebookPanel, language?: string): IToolExecutor | null;
+
   /**
    * Check if a cell is a prompt cell.
    */
   isPromptCell(cell: Cell): boolean;
+
+  /**
+   * Get the kernel namespace cache for a notebook, if it has been set up.
+   */
+  getNamespace(panel: NotebookPanel): IKernelNamespace | null;
 }
 
 /**
@@ -258,15 +688,58 @@ export interface IExtensionSettings {
    */
   defaultModel: string;
 
+  /**
+   * LLM provider that prompts are sent to.
+   */
+  provider: ProviderId;
+
+  /**
+   * Base URL of the provider's API (empty for the provider's default).
+   */
+  providerBaseUrl: string;
+
   /**
    * Maximum tool execution steps.
    */
   maxToolSteps: number;
 
+  /**
+   * When kernel tool calls wait for the user's approval.
+   */
+  toolApproval: ToolApprovalMode;
+
+  /**
+   * Functions that run without approval in the `unlisted` mode.
+   */
+  approvedTools: string[];
+
+  /**
+   * Where kernel tool calls run.
+   */
+  toolExecution: ToolExecutionMode;
+
   /**
    * Whether to show the convert to cells button.
    */
   showConvertButton: boolean;
+
+  /**
+   * Whether $`...` references may contain arbitrary expressions
+   * (e.g. function calls) rather than only names and attribute/subscript paths.
+   */
+  allowExpressions: boolean;
+
+  /**
+   * Estimated token budget for the notebook context sent with a prompt
+   * (0 for no limit). Older material is summarized or dropped to fit.
+   */
+  contextTokenBudget: number;
+
+  /**
+   * Whether running all prompts (or those above/below) stops at the first
+   * cell that fails.
+   */
+  stopRunAllOnError: boolean;
 }
 
 /**
@@ -284,6 +757,27 @@ export interface IKernelConnectorFactory {
   create(sessionContext: unknown): IKernelConnector;
 }
 
+/**
+ * Token for the variable summarizer registry.
+ */
+export const IVariableSummarizerRegistry = new Token<IVariableSummarizerRegistry>(
+  'ai-jup:IVariableSummarizerRegistry',
+  'Registry of type-specific variable summarizers'
+);
+
+export interface IVariableSummarizerRegistry {
+  /**
+   * The registered summarizers, in registration order.
+   * Later registrations take precedence for the same type.
+   */
+  readonly summarizers: ReadonlyArray<IVariableSummarizer>;
+
+  /**
+   * Register a summarizer. Disposing the result unregisters it.
+   */
+  register(summarizer: IVariableSummarizer): IDisposable;
+}
+
 /**
  * Token for the prompt cell manager.
  */
@@ -307,6 +801,50 @@ export interface IPromptModelFactory {
   create(): IPromptModel;
 }
 
+/**
+ * A model offered by the server.
+ */
+export interface IModelInfo {
+  id: string;
+  /** Display name */
+  name: string;
+}
+
+/**
+ * Token for the models service.
+ */
+export const IModelsService = new Token<IModelsService>(
+  'ai-jup:IModelsService',
+  'Models offered by the server'
+);
+
+export interface IModelsService {
+  /**
+   * Signal emitted when the model list changes.
+   */
+  readonly changed: ISignal<IModelsService, void>;
+
+  /**
+   * Whether the list has been fetched successfully.
+   */
+  readonly loaded: boolean;
+
+  /**
+   * The cached models.
+   */
+  readonly models: ReadonlyArray<IModelInfo>;
+
+  /**
+   * Get the display name of a model, falling back to its id.
+   */
+  displayName(id: string): string;
+
+  /**
+   * Fetch the model list from the server.
+   */
+  refresh(): Promise<void>;
+}
+
 /**
  * Token for extension settings.
  */
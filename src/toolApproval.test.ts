@@ -0,0 +1,33 @@
+/**
+ * Tests for tool approval helpers.
+ */
+
+import { formatToolArgs, parseToolArgs } from './toolApproval';
+
+describe('formatToolArgs', () => {
+  it('should pretty-print arguments', () => {
+    expect(formatToolArgs({ path: 'data.csv', rows: 10 })).toBe(
+      '{\n  "path": "data.csv",\n  "rows": 10\n}'
+    );
+  });
+
+  it('should show missing arguments as an empty object', () => {
+    expect(formatToolArgs(undefined as unknown as Record<string, unknown>)).toBe('{}');
+  });
+});
+
+describe('parseToolArgs', () => {
+  it('should parse a JSON object', () => {
+    expect(parseToolArgs('{"path": "other.csv"}')).toEqual({ path: 'other.csv' });
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseToolArgs('{path: 1}')).toThrow(/^Invalid JSON/);
+  });
+
+  it('should reject values that are not objects', () => {
+    expect(() => parseToolArgs('[1, 2]')).toThrow('Arguments must be a JSON object');
+    expect(() => parseToolArgs('null')).toThrow('Arguments must be a JSON object');
+    expect(() => parseToolArgs('"a"')).toThrow('Arguments must be a JSON object');
+  });
+});
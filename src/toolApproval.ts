@@ -0,0 +1,158 @@
+/**
+ * Approval of kernel tool calls before they run.
+ *
+ * When approval is required, the server announces each tool call with its
+ * completed arguments and waits. The call is shown with Approve, Edit args
+ * and Deny buttons; the answer is sent back through the prompt model.
+ */
+
+import { DisposableDelegate, IDisposable } from '@lumino/disposable';
+import type {
+  IPromptModel,
+  IStreamEvent,
+  IToolApprovalRequest,
+  ToolApprovalDecision
+} from './tokens';
+
+/**
+ * Pretty-print tool arguments for review.
+ */
+export function formatToolArgs(input: Record<string, unknown>): string {
+  return JSON.stringify(input ?? {}, null, 2);
+}
+
+/**
+ * Parse edited tool arguments. Throws if the text is not a JSON object.
+ */
+export function parseToolArgs(text: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Arguments must be a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Show approval requests of a prompt model in `host` until the result is
+ * disposed. Unanswered requests are removed when the model stops.
+ */
+export function attachToolApprovals(promptModel: IPromptModel, host: HTMLElement): IDisposable {
+  const nodes = new Set<HTMLElement>();
+  const removeAll = () => {
+    for (const node of nodes) {
+      node.remove();
+    }
+    nodes.clear();
+  };
+  const onStreamEvent = (_: IPromptModel, event: IStreamEvent) => {
+    const request = event.toolApproval;
+    if (event.type === 'tool_approval' && request) {
+      const node = createApprovalNode(request, decision =>
+        promptModel.respondToToolApproval(request.id, decision)
+      );
+      nodes.add(node);
+      host.appendChild(node);
+    } else if (event.type === 'done' || event.type === 'error') {
+      removeAll();
+    }
+  };
+  promptModel.streamEvent.connect(onStreamEvent);
+  return new DisposableDelegate(() => {
+    promptModel.streamEvent.disconnect(onStreamEvent);
+    removeAll();
+  });
+}
+
+/**
+ * Build the approval prompt of one tool call. The node removes itself once
+ * the decision has been sent.
+ */
+function createApprovalNode(
+  request: IToolApprovalRequest,
+  respond: (decision: ToolApprovalDecision) => Promise<void>
+): HTMLElement {
+  const node = document.createElement('div');
+  node.className = 'ai-jup-tool-approval';
+
+  const title = document.createElement('div');
+  title.className = 'ai-jup-tool-approval-title';
+  title.append('Run ');
+  const name = document.createElement('code');
+  name.textContent = request.name;
+  title.append(name, '?');
+
+  const args = document.createElement('pre');
+  args.className = 'ai-jup-tool-approval-args';
+  args.textContent = formatToolArgs(request.input);
+
+  const editor = document.createElement('textarea');
+  editor.className = 'ai-jup-tool-approval-editor';
+  editor.value = args.textContent;
+  editor.rows = Math.min(12, args.textContent.split('\n').length + 1);
+  editor.hidden = true;
+
+  const message = document.createElement('div');
+  message.className = 'ai-jup-tool-approval-message';
+  message.hidden = true;
+
+  const actions = document.createElement('div');
+  actions.className = 'ai-jup-tool-approval-actions';
+  const button = (label: string, title: string, onClick: () => void) => {
+    const element = document.createElement('button');
+    element.className = 'jp-mod-styled ai-jup-tool-approval-button';
+    element.textContent = label;
+    element.title = title;
+    element.addEventListener('click', onClick);
+    actions.appendChild(element);
+    return element;
+  };
+
+  const send = (decision: ToolApprovalDecision) => {
+    for (const element of actions.querySelectorAll('button')) {
+      element.disabled = true;
+    }
+    respond(decision).then(
+      () => node.remove(),
+      (error: unknown) => {
+        for (const element of actions.querySelectorAll('button')) {
+          element.disabled = element === edit && editor.hidden === false;
+        }
+        message.textContent = `Failed to send the decision: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+        message.hidden = false;
+      }
+    );
+  };
+
+  const approve = button('Approve', 'Run the tool with these arguments', () => {
+    if (editor.hidden) {
+      send({ decision: 'approve' });
+      return;
+    }
+    try {
+      send({ decision: 'edit', args: parseToolArgs(editor.value) });
+    } catch (error) {
+      message.textContent = error instanceof Error ? error.message : String(error);
+      message.hidden = false;
+    }
+  });
+  approve.classList.add('ai-jup-tool-approve');
+  const edit = button('Edit args', 'Change the arguments before running the tool', () => {
+    editor.hidden = false;
+    args.hidden = true;
+    edit.disabled = true;
+    editor.focus();
+  });
+  button('Deny', 'Do not run the tool; the model is told it was denied', () =>
+    send({ decision: 'deny' })
+  );
+
+  node.append(title, args, editor, message, actions);
+  return node;
+}
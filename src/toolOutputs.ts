@@ -0,0 +1,83 @@
+/**
+ * Rich tool results shown under a response.
+ *
+ * The response markdown only holds a compact fallback of each tool result.
+ * The MIME bundle of the result is rendered here with the JupyterLab
+ * renderers, like a cell output, so DataFrames, Plotly and Vega-Lite charts,
+ * LaTeX and images look as they would in the notebook. The outputs are not
+ * saved with the notebook.
+ */
+
+import type * as nbformat from '@jupyterlab/nbformat';
+import { IRenderMimeRegistry, IRenderMime, MimeModel } from '@jupyterlab/rendermime';
+import { Widget } from '@lumino/widgets';
+
+/**
+ * Output area of the tool results of one response.
+ */
+export class ToolOutputArea {
+  private _rendermime: IRenderMimeRegistry;
+  private _host: HTMLElement;
+  private _node: HTMLElement | null = null;
+  private _renderers: IRenderMime.IRenderer[] = [];
+
+  constructor(rendermime: IRenderMimeRegistry, host: HTMLElement) {
+    this._rendermime = rendermime;
+    this._host = host;
+  }
+
+  /**
+   * Render the result of a tool call. Bundles without a renderer are skipped.
+   */
+  add(name: string, bundle: nbformat.IMimeBundle): void {
+    const mimeType = this._rendermime.preferredMimeType(bundle, 'any');
+    if (!mimeType) {
+      return;
+    }
+
+    const output = document.createElement('div');
+    output.className = 'ai-jup-tool-output';
+    const label = document.createElement('div');
+    label.className = 'ai-jup-tool-output-label';
+    const code = document.createElement('code');
+    code.textContent = name;
+    label.append('Result of ', code);
+    output.appendChild(label);
+    this._ensureNode().appendChild(output);
+
+    const renderer = this._rendermime.createRenderer(mimeType);
+    this._renderers.push(renderer);
+    // Renderers such as Plotly draw once attached
+    if (output.isConnected) {
+      Widget.attach(renderer, output);
+    } else {
+      output.appendChild(renderer.node);
+    }
+    renderer.renderModel(new MimeModel({ data: bundle, trusted: true })).catch(error => {
+      renderer.node.textContent = `Failed to render the result: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+    });
+  }
+
+  /**
+   * Remove all outputs.
+   */
+  clear(): void {
+    for (const renderer of this._renderers) {
+      renderer.dispose();
+    }
+    this._renderers = [];
+    this._node?.remove();
+    this._node = null;
+  }
+
+  private _ensureNode(): HTMLElement {
+    if (!this._node) {
+      this._node = document.createElement('div');
+      this._node.className = 'ai-jup-tool-outputs';
+      this._host.appendChild(this._node);
+    }
+    return this._node;
+  }
+}
@@ -2,7 +2,7 @@
  * Tests for toolResultRenderer.ts
  */
 
-import { renderToolResult } from './toolResultRenderer';
+import { renderToolResult, toolResultBundle } from './toolResultRenderer';
 
 describe('renderToolResult', () => {
   describe('text results', () => {
@@ -25,37 +25,50 @@ describe('renderToolResult', () => {
   });
 
   describe('HTML results', () => {
-    it('should render HTML result directly', () => {
+    it('should not inline the HTML', () => {
       const html = '<table><tr><td>data</td></tr></table>';
       const result = renderToolResult({ type: 'html', content: html });
       expect(result).toContain('**Tool Result (HTML):**');
-      expect(result).toContain(html);
+      expect(result).toContain('*HTML output*');
+      expect(result).not.toContain(html);
     });
 
-    it('should preserve complex HTML', () => {
-      const html = '<div class="foo"><span id="bar">test</span></div>';
-      const result = renderToolResult({ type: 'html', content: html });
-      expect(result).toContain(html);
+    it('should show the plain text of the value', () => {
+      const result = renderToolResult({
+        status: 'success',
+        result: { type: 'html', content: '<table></table>' },
+        data: { 'text/html': '<table></table>', 'text/plain': '   a\n0  1' }
+      });
+      expect(result).toContain('```\n   a\n0  1\n```');
+      expect(result).not.toContain('<table>');
+    });
+  });
+
+  describe('server envelopes', () => {
+    it('should render the wrapped result', () => {
+      const result = renderToolResult({ status: 'success', result: { type: 'text', content: '42' } });
+      expect(result).toContain('**Tool Result:**\n```\n42\n```');
     });
   });
 
   describe('image results', () => {
-    it('should render PNG image as data URL', () => {
+    it('should not inline PNG images', () => {
       const base64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJ';
       const result = renderToolResult({ type: 'image', format: 'png', content: base64 });
-      expect(result).toContain('![](data:image/png;base64,');
-      expect(result).toContain(base64);
+      expect(result).toContain('*PNG image*');
+      expect(result).not.toContain('data:image');
+      expect(result).not.toContain(base64);
     });
 
-    it('should render JPEG image', () => {
+    it('should name the JPEG format', () => {
       const base64 = '/9j/4AAQSkZJRgABAQAAAQ';
       const result = renderToolResult({ type: 'image', format: 'jpeg', content: base64 });
-      expect(result).toContain('data:image/jpeg;base64,');
+      expect(result).toContain('*JPEG image*');
     });
 
     it('should default to PNG format', () => {
       const result = renderToolResult({ type: 'image', content: 'abc123' });
-      expect(result).toContain('data:image/png;base64,');
+      expect(result).toContain('*PNG image*');
     });
   });
 
@@ -72,6 +85,12 @@ describe('renderToolResult', () => {
       expect(result).toContain('Division by zero');
     });
 
+    it('should render a denied call without the error', () => {
+      const result = renderToolResult({ status: 'denied', error: 'Tool call denied by the user' });
+      expect(result).toContain('*Tool call denied.*');
+      expect(result).not.toContain('**Tool Error:**');
+    });
+
     it('should handle error without message', () => {
       const result = renderToolResult({ status: 'error' });
       expect(result).toContain('Unknown error');
@@ -120,3 +139,52 @@ describe('renderToolResult', () => {
     });
   });
 });
+
+describe('toolResultBundle', () => {
+  it('should use the MIME bundle of the value', () => {
+    const data = {
+      'application/vnd.plotly.v1+json': { data: [], layout: {} },
+      'text/html': '<div></div>',
+      'text/plain': 'Figure()'
+    };
+    expect(
+      toolResultBundle({ status: 'success', result: { type: 'html', content: '<div></div>' }, data })
+    ).toEqual(data);
+  });
+
+  it('should build a bundle from HTML and image results', () => {
+    expect(toolResultBundle({ status: 'success', result: { type: 'html', content: '<b>x</b>' } })).toEqual({
+      'text/html': '<b>x</b>'
+    });
+    expect(toolResultBundle({ type: 'image', format: 'jpeg', content: 'AAAA' })).toEqual({
+      'image/jpeg': 'AAAA'
+    });
+  });
+
+  it('should skip plain text results', () => {
+    expect(toolResultBundle({ status: 'success', result: { type: 'text', content: '42' } })).toBeNull();
+    expect(
+      toolResultBundle({
+        status: 'success',
+        result: { type: 'text', content: '42' },
+        data: { 'text/plain': '42' }
+      })
+    ).toBeNull();
+  });
+
+  it('should skip errors and denied calls', () => {
+    expect(toolResultBundle({ status: 'error', error: 'boom' })).toBeNull();
+    expect(toolResultBundle({ status: 'denied', error: 'denied' })).toBeNull();
+    expect(toolResultBundle(null)).toBeNull();
+  });
+
+  it('should drop malformed bundle entries', () => {
+    expect(
+      toolResultBundle({
+        status: 'success',
+        result: { type: 'text', content: 'x' },
+        data: { 'text/latex': '$x$', 'image/png': null, 'text/plain': 'x' }
+      })
+    ).toEqual({ 'text/latex': '$x$', 'text/plain': 'x' });
+  });
+});
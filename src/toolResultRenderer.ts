@@ -1,17 +1,43 @@
 /**
- * Utility functions for rendering tool results as markdown.
+ * Utility functions for rendering tool results.
+ *
+ * A tool result is kept in the response markdown only as a compact
+ * fallback: text results as a code block, rich results as their plain text
+ * or a short note. The rich output itself (HTML, images, Plotly, Vega-Lite,
+ * LaTeX) is rendered from its MIME bundle with the JupyterLab renderers
+ * and is not stored in the notebook.
  */
 
+import type * as nbformat from '@jupyterlab/nbformat';
+
 export interface ToolResult {
   type?: string;
   content?: string;
   format?: string;
   status?: string;
   error?: string;
+  /** Result of a tool call, when this is the server's `{status, result}` envelope */
+  result?: ToolResult;
+  /** MIME bundle of the tool's return value */
+  data?: Record<string, unknown>;
 }
 
 /**
- * Render a structured tool result into markdown.
+ * Maximum characters of plain text kept in the markdown fallback of a
+ * rich result.
+ */
+const MAX_FALLBACK_LENGTH = 500;
+
+/**
+ * Get the result of a tool call from the server's `{status, result}`
+ * envelope, or the value itself when it is not wrapped.
+ */
+function unwrap(result: ToolResult): ToolResult {
+  return result.result && typeof result.result === 'object' ? result.result : result;
+}
+
+/**
+ * Render a structured tool result into compact markdown.
  */
 export function renderToolResult(result: unknown): string {
   if (!result || typeof result !== 'object') {
@@ -19,29 +45,80 @@ export function renderToolResult(result: unknown): string {
   }
 
   const resultObj = result as ToolResult;
-  
+
+  // The user denied the call in the approval prompt
+  if (resultObj.status === 'denied') {
+    return `\n*Tool call denied.*\n`;
+  }
+
   // Handle error status
   if (resultObj.status === 'error' || resultObj.error) {
     return `\n**Tool Error:** ${resultObj.error || 'Unknown error'}\n`;
   }
 
-  const type = resultObj.type;
-  const content = resultObj.content ?? '';
+  const inner = unwrap(resultObj);
+  const type = inner.type;
+  const content = inner.content ?? '';
 
   if (type === 'text') {
     return `\n**Tool Result:**\n\`\`\`\n${content}\n\`\`\`\n`;
   }
 
+  // Rich results: their plain text representation, or a note
+  const plain = resultObj.data?.['text/plain'];
+  const fallback =
+    typeof plain === 'string' && plain
+      ? `\`\`\`\n${plain.slice(0, MAX_FALLBACK_LENGTH)}\n\`\`\``
+      : null;
+
   if (type === 'html') {
-    // Raw HTML is allowed in Jupyter markdown
-    return `\n**Tool Result (HTML):**\n\n${content}\n`;
+    return `\n**Tool Result (HTML):**\n\n${fallback ?? '*HTML output*'}\n`;
   }
 
   if (type === 'image') {
-    const format = resultObj.format || 'png';
-    return `\n**Tool Result:**\n\n![](data:image/${format};base64,${content})\n`;
+    const format = inner.format || 'png';
+    return `\n**Tool Result:** *${format.toUpperCase()} image*\n`;
   }
 
   // Fallback
   return `\n**Tool Result:**\n\`\`\`json\n${JSON.stringify(result, null, 2)}\n\`\`\`\n`;
 }
+
+/**
+ * Get the MIME bundle to render for a tool result: the bundle of the
+ * tool's return value when there is one, or else a bundle built from the
+ * result. Returns null for errors, denied calls and results that are only
+ * plain text, which the markdown already shows.
+ */
+export function toolResultBundle(result: unknown): nbformat.IMimeBundle | null {
+  if (!result || typeof result !== 'object') {
+    return null;
+  }
+  const resultObj = result as ToolResult;
+  if (resultObj.status === 'denied' || resultObj.status === 'error' || resultObj.error) {
+    return null;
+  }
+
+  let bundle: nbformat.IMimeBundle = {};
+  if (resultObj.data && typeof resultObj.data === 'object') {
+    for (const [mimeType, value] of Object.entries(resultObj.data)) {
+      if (typeof value === 'string' || (value && typeof value === 'object')) {
+        bundle[mimeType] = value as nbformat.IMimeBundle[string];
+      }
+    }
+  }
+  if (Object.keys(bundle).length === 0) {
+    const inner = unwrap(resultObj);
+    if (inner.type === 'html' && inner.content) {
+      bundle = { 'text/html': inner.content };
+    } else if (inner.type === 'image' && inner.content) {
+      bundle = { [`image/${inner.format || 'png'}`]: inner.content };
+    }
+  }
+
+  const mimeTypes = Object.keys(bundle);
+  if (mimeTypes.length === 0 || mimeTypes.every(mimeType => mimeType === 'text/plain')) {
+    return null;
+  }
+  return bundle;
+}
@@ -0,0 +1,91 @@
+/**
+ * Tests for tool call transcripts.
+ */
+
+import {
+  IToolTranscript,
+  formatDuration,
+  renderToolTranscript,
+  stripToolTranscripts,
+  toolCallStatus
+} from './toolTranscript';
+
+function call(overrides: Partial<IToolTranscript> = {}): IToolTranscript {
+  return { id: 't1', name: 'load', input: '', status: 'running', ...overrides };
+}
+
+describe('toolCallStatus', () => {
+  it('should read the status of a result', () => {
+    expect(toolCallStatus({ status: 'success', result: { type: 'text', content: 'x' } })).toBe('success');
+    expect(toolCallStatus({ status: 'error', error: 'boom' })).toBe('error');
+    expect(toolCallStatus({ error: 'boom' })).toBe('error');
+    expect(toolCallStatus({ status: 'denied', error: 'denied' })).toBe('denied');
+    expect(toolCallStatus('42')).toBe('success');
+  });
+});
+
+describe('formatDuration', () => {
+  it('should use milliseconds below a second', () => {
+    expect(formatDuration(0.0123)).toBe('12 ms');
+    expect(formatDuration(2.46)).toBe('2.5 s');
+  });
+});
+
+describe('renderToolTranscript', () => {
+  it('should render a collapsed block', () => {
+    const markdown = renderToolTranscript(
+      call({
+        status: 'success',
+        args: { path: 'a.csv' },
+        duration: 1.2,
+        result: { status: 'success', result: { type: 'text', content: 'rows: 3' } }
+      })
+    );
+    expect(markdown).toContain(
+      '<details class="ai-jup-tool-call">\n<summary>🔧 <code>load</code> · done · 1.2 s</summary>'
+    );
+    expect(markdown).not.toContain('<details open');
+    expect(markdown).toContain('**Arguments:**\n```json\n{\n  "path": "a.csv"\n}\n```');
+    expect(markdown).toContain('```\nrows: 3\n```');
+    expect(markdown.trim().endsWith('</details>')).toBe(true);
+  });
+
+  it('should show streamed arguments of a running call', () => {
+    const markdown = renderToolTranscript(call({ input: '{"path": "a.c' }));
+    expect(markdown).toContain('<summary>🔧 <code>load</code> · running…</summary>');
+    expect(markdown).toContain('```json\n{"path": "a.c\n```');
+    expect(markdown).not.toContain('Tool Result');
+  });
+
+  it('should show errors and denied calls', () => {
+    expect(
+      renderToolTranscript(call({ status: 'error', result: { status: 'error', error: 'boom' } }))
+    ).toContain('**Tool Error:** boom');
+    expect(
+      renderToolTranscript(call({ status: 'denied', result: { status: 'denied', error: 'denied' } }))
+    ).toContain('· denied</summary>');
+  });
+
+  it('should escape the tool name', () => {
+    expect(renderToolTranscript(call({ name: '<b>' }))).toContain('<code>&lt;b&gt;</code>');
+  });
+});
+
+describe('stripToolTranscripts', () => {
+  it('should keep only the assistant text', () => {
+    const result = { status: 'success', result: { type: 'text', content: 'x' } };
+    const markdown =
+      'Loading the data.' +
+      renderToolTranscript(call({ status: 'success', result })) +
+      'Here is the code:\n\n```python\nprint(1)\n```' +
+      renderToolTranscript(call({ id: 't2', status: 'cancelled' }));
+
+    expect(stripToolTranscripts(markdown).trim()).toBe(
+      'Loading the data.\n\nHere is the code:\n\n```python\nprint(1)\n```'
+    );
+  });
+
+  it('should leave responses without transcripts alone', () => {
+    expect(stripToolTranscripts('Just text')).toBe('Just text');
+  });
+});
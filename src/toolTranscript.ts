@@ -0,0 +1,123 @@
+/**
+ * Collapsible transcripts of tool calls in a response.
+ *
+ * Each tool call is written to the response markdown as a `<details>` block,
+ * collapsed by default. Its summary shows the tool's name, status and
+ * duration; the arguments and result are inside. The assistant's own text
+ * stays outside these blocks, so the final answer is not buried under the
+ * output of a long tool loop.
+ */
+
+import { renderToolResult } from './toolResultRenderer';
+
+/**
+ * Status of a tool call. `cancelled` calls were announced by the model but
+ * never run, e.g. because the step limit was reached or the request stopped.
+ */
+export type ToolCallStatus = 'running' | 'success' | 'error' | 'denied' | 'cancelled';
+
+/**
+ * A tool call of a response.
+ */
+export interface IToolTranscript {
+  id: string;
+  name: string;
+  /** Arguments as streamed JSON text */
+  input: string;
+  /** Arguments the tool ran with, once known */
+  args?: Record<string, unknown>;
+  status: ToolCallStatus;
+  /** Execution time in seconds */
+  duration?: number;
+  /** Result reported by the server */
+  result?: unknown;
+}
+
+/**
+ * Class of the `<details>` element of a transcript.
+ */
+export const TOOL_TRANSCRIPT_CLASS = 'ai-jup-tool-call';
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+  running: 'running…',
+  success: 'done',
+  error: 'failed',
+  denied: 'denied',
+  cancelled: 'not run'
+};
+
+/**
+ * Matches a transcript block with the blank lines around it.
+ */
+const TRANSCRIPT_RE = new RegExp(
+  `\\n*<details class="${TOOL_TRANSCRIPT_CLASS}">[\\s\\S]*?\\n</details>\\n*`,
+  'g'
+);
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Get the status of a finished tool call from its result.
+ */
+export function toolCallStatus(result: unknown): ToolCallStatus {
+  if (!result || typeof result !== 'object') {
+    return 'success';
+  }
+  const { status, error } = result as { status?: string; error?: string };
+  if (status === 'denied') {
+    return 'denied';
+  }
+  return status === 'error' || error ? 'error' : 'success';
+}
+
+/**
+ * Format a duration in seconds, e.g. `120 ms` or `2.5 s`.
+ */
+export function formatDuration(seconds: number): string {
+  return seconds < 1 ? `${Math.round(seconds * 1000)} ms` : `${seconds.toFixed(1)} s`;
+}
+
+/**
+ * Pretty-print the arguments of a call, keeping streamed JSON that does not
+ * parse (yet) as it is.
+ */
+function formatArgs(call: IToolTranscript): string {
+  if (call.args) {
+    return JSON.stringify(call.args, null, 2);
+  }
+  if (!call.input.trim()) {
+    return '{}';
+  }
+  try {
+    return JSON.stringify(JSON.parse(call.input), null, 2);
+  } catch {
+    return call.input;
+  }
+}
+
+/**
+ * Render a tool call as a collapsed markdown block.
+ */
+export function renderToolTranscript(call: IToolTranscript): string {
+  const summary = [`🔧 <code>${escapeHtml(call.name)}</code>`, STATUS_LABELS[call.status]];
+  if (call.duration !== undefined) {
+    summary.push(formatDuration(call.duration));
+  }
+  let body = `**Arguments:**\n\`\`\`json\n${formatArgs(call)}\n\`\`\`\n`;
+  if (call.status !== 'running' && call.status !== 'cancelled') {
+    body += renderToolResult(call.result);
+  }
+  return (
+    `\n\n<details class="${TOOL_TRANSCRIPT_CLASS}">\n` +
+    `<summary>${summary.join(' · ')}</summary>\n\n${body}\n</details>\n\n`
+  );
+}
+
+/**
+ * Remove tool call transcripts from response markdown.
+ */
+export function stripToolTranscripts(markdown: string): string {
+  return markdown.replace(TRANSCRIPT_RE, '\n\n');
+}
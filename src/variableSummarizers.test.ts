@@ -0,0 +1,95 @@
+/**
+ * Tests for variable summarizers.
+ */
+
+import {
+  VariableSummarizerRegistry,
+  DEFAULT_SUMMARIZERS,
+  buildSummarizeFunction,
+  formatBytes,
+  formatVariableSummary
+} from './variableSummarizers';
+
+describe('VariableSummarizerRegistry', () => {
+  it('should start with the default summarizers', () => {
+    const registry = new VariableSummarizerRegistry();
+    expect(registry.summarizers).toEqual(DEFAULT_SUMMARIZERS);
+  });
+
+  it('should register and unregister summarizers', () => {
+    const registry = new VariableSummarizerRegistry([]);
+    const summarizer = { types: ['polars.DataFrame'], code: 'return None' };
+    const disposable = registry.register(summarizer);
+    expect(registry.summarizers).toEqual([summarizer]);
+    disposable.dispose();
+    expect(registry.summarizers).toEqual([]);
+  });
+});
+
+describe('buildSummarizeFunction', () => {
+  it('should define a dispatcher with no summarizers', () => {
+    const code = buildSummarizeFunction([]);
+    expect(code.startsWith('def _ai_jup_summarize(_value):')).toBe(true);
+    expect(code).toContain('for _cls in type(_value).__mro__:');
+  });
+
+  it('should indent summarizer bodies and map each type name', () => {
+    const code = buildSummarizeFunction([
+      { types: ['a.A', 'b.B'], code: '\nx = 1\nreturn {"x": x}\n' }
+    ]);
+    expect(code).toContain('    def _summarize_0(value):\n        x = 1\n        return {"x": x}');
+    expect(code).toContain('    _summarizers["a.A"] = _summarize_0');
+    expect(code).toContain('    _summarizers["b.B"] = _summarize_0');
+  });
+
+  it('should let later summarizers override earlier ones for a type', () => {
+    const code = buildSummarizeFunction([
+      { types: ['a.A'], code: 'return {"n": 1}' },
+      { types: ['a.A'], code: 'return {"n": 2}' }
+    ]);
+    expect(code.indexOf('_summarizers["a.A"] = _summarize_0')).toBeLessThan(
+      code.indexOf('_summarizers["a.A"] = _summarize_1')
+    );
+  });
+});
+
+describe('formatBytes', () => {
+  it('should format sizes with binary units', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(2048)).toBe('2.0 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
+
+describe('formatVariableSummary', () => {
+  it('should format a DataFrame summary', () => {
+    const text = formatVariableSummary('DataFrame', {
+      kind: 'dataframe',
+      shape: [100, 2],
+      dtypes: { a: 'int64', b: 'float64' },
+      null_counts: { b: 3 },
+      head: '   a    b\n0  1  0.5',
+      memory_usage: 2048
+    });
+    expect(text).toBe(
+      'DataFrame: shape (100, 2), memory 2.0 KB\n' +
+        'dtypes: a: int64, b: float64\n' +
+        'nulls: b: 3\n' +
+        'head:\n   a    b\n0  1  0.5'
+    );
+  });
+
+  it('should format array and tensor summaries on one line', () => {
+    expect(
+      formatVariableSummary('ndarray', { shape: [3], dtype: 'float64', min: 0.5, max: 2 })
+    ).toBe('ndarray: shape (3,), dtype float64, min 0.5, max 2');
+    expect(
+      formatVariableSummary('Tensor', { shape: [2, 2], dtype: 'torch.float32', device: 'cuda:0' })
+    ).toBe('Tensor: shape (2, 2), dtype torch.float32, device cuda:0');
+  });
+
+  it('should skip zero null counts', () => {
+    expect(formatVariableSummary('Series', { null_counts: 0 })).toBe('Series');
+    expect(formatVariableSummary('Series', { null_counts: 4 })).toBe('Series\nnulls: 4');
+  });
+});
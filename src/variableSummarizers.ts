@@ -0,0 +1,233 @@
+/**
+ * Type-specific summaries of kernel variables.
+ *
+ * A raw `repr` loses most of what the model needs to know about large
+ * values (a DataFrame's dtypes, an array's shape). Summarizers are Python
+ * snippets keyed by type name that run in the kernel and return a
+ * structured summary, which is sent instead of the repr.
+ */
+
+import { DisposableDelegate, IDisposable } from '@lumino/disposable';
+import {
+  IVariableSummarizer,
+  IVariableSummarizerRegistry,
+  IVariableSummary
+} from './tokens';
+
+/**
+ * Summarizer for pandas DataFrames.
+ */
+const DATAFRAME_SUMMARIZER: IVariableSummarizer = {
+  types: ['pandas.DataFrame'],
+  code: `
+_nulls = value.isna().sum()
+return {
+    "kind": "dataframe",
+    "shape": [int(_d) for _d in value.shape],
+    "dtypes": {str(_c): str(_t) for _c, _t in list(value.dtypes.items())[:50]},
+    "null_counts": {str(_c): int(_n) for _c, _n in _nulls.items() if _n},
+    "head": value.head(5).to_string(max_cols=20, max_colwidth=50),
+    "tail": value.tail(5).to_string(max_cols=20, max_colwidth=50) if len(value) > 10 else None,
+    "memory_usage": int(value.memory_usage(deep=True).sum()),
+}
+`
+};
+
+/**
+ * Summarizer for pandas Series.
+ */
+const SERIES_SUMMARIZER: IVariableSummarizer = {
+  types: ['pandas.Series'],
+  code: `
+return {
+    "kind": "series",
+    "shape": [int(_d) for _d in value.shape],
+    "dtype": str(value.dtype),
+    "null_counts": int(value.isna().sum()),
+    "head": value.head(5).to_string(max_rows=5),
+    "tail": value.tail(5).to_string(max_rows=5) if len(value) > 10 else None,
+    "memory_usage": int(value.memory_usage(deep=True)),
+}
+`
+};
+
+/**
+ * Summarizer for numpy arrays. Min/max ignore NaN and infinite values.
+ */
+const NDARRAY_SUMMARIZER: IVariableSummarizer = {
+  types: ['numpy.ndarray'],
+  code: `
+import numpy as _np
+_summary = {
+    "kind": "array",
+    "shape": [int(_d) for _d in value.shape],
+    "dtype": str(value.dtype),
+    "memory_usage": int(value.nbytes),
+}
+if value.dtype.kind in "biuf":
+    _finite = value[_np.isfinite(value)] if value.dtype.kind == "f" else value
+    if _finite.size:
+        _summary["min"] = _finite.min().item()
+        _summary["max"] = _finite.max().item()
+return _summary
+`
+};
+
+/**
+ * Summarizer for torch tensors (including parameters).
+ */
+const TENSOR_SUMMARIZER: IVariableSummarizer = {
+  types: ['torch.Tensor'],
+  code: `
+import torch as _torch
+_summary = {
+    "kind": "tensor",
+    "shape": [int(_d) for _d in value.shape],
+    "dtype": str(value.dtype),
+    "device": str(value.device),
+    "requires_grad": bool(value.requires_grad),
+}
+if not value.is_complex() and value.dtype != _torch.bool and not value.is_meta:
+    _t = value.detach()
+    if _t.is_floating_point():
+        _t = _t[_torch.isfinite(_t)]
+    if _t.numel():
+        _summary["min"] = _t.min().item()
+        _summary["max"] = _t.max().item()
+return _summary
+`
+};
+
+/**
+ * Summarizers registered by default.
+ */
+export const DEFAULT_SUMMARIZERS: ReadonlyArray<IVariableSummarizer> = [
+  DATAFRAME_SUMMARIZER,
+  SERIES_SUMMARIZER,
+  NDARRAY_SUMMARIZER,
+  TENSOR_SUMMARIZER
+];
+
+/**
+ * Registry of variable summarizers.
+ */
+export class VariableSummarizerRegistry implements IVariableSummarizerRegistry {
+  private _summarizers: IVariableSummarizer[];
+
+  constructor(summarizers: ReadonlyArray<IVariableSummarizer> = DEFAULT_SUMMARIZERS) {
+    this._summarizers = [...summarizers];
+  }
+
+  get summarizers(): ReadonlyArray<IVariableSummarizer> {
+    return this._summarizers;
+  }
+
+  register(summarizer: IVariableSummarizer): IDisposable {
+    this._summarizers.push(summarizer);
+    return new DisposableDelegate(() => {
+      const index = this._summarizers.indexOf(summarizer);
+      if (index !== -1) {
+        this._summarizers.splice(index, 1);
+      }
+    });
+  }
+}
+
+/**
+ * Indent every non-empty line of Python source.
+ */
+export function indent(code: string, prefix: string): string {
+  return code
+    .trim()
+    .split('\n')
+    .map(line => (line.trim() ? prefix + line : line))
+    .join('\n');
+}
+
+/**
+ * Build the Python source of `_ai_jup_summarize(value)`, which dispatches to
+ * the summarizer registered for the value's class (or a base class) and
+ * returns its summary, or None when no summarizer matches.
+ */
+export function buildSummarizeFunction(
+  summarizers: ReadonlyArray<IVariableSummarizer>
+): string {
+  const lines = ['def _ai_jup_summarize(_value):', '    _summarizers = {}'];
+  summarizers.forEach((summarizer, i) => {
+    lines.push(`    def _summarize_${i}(value):`);
+    lines.push(indent(summarizer.code, '        '));
+    for (const type of summarizer.types) {
+      lines.push(`    _summarizers[${JSON.stringify(type)}] = _summarize_${i}`);
+    }
+  });
+  lines.push(
+    '    for _cls in type(_value).__mro__:',
+    '        _mod = getattr(_cls, "__module__", "") or ""',
+    '        for _key in (_mod + "." + _cls.__qualname__, _mod.split(".")[0] + "." + _cls.__qualname__):',
+    '            if _key in _summarizers:',
+    '                _summary = _summarizers[_key](_value)',
+    '                if isinstance(_summary, dict):',
+    '                    return {_k: _v for _k, _v in _summary.items() if _v is not None}',
+    '                return None',
+    '    return None'
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Format a byte count for display, e.g. `12.5 KB`.
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Format a variable summary as plain text for the prompt.
+ * Mirrors `_format_variable_summary` in the server handlers.
+ */
+export function formatVariableSummary(type: string, summary: IVariableSummary): string {
+  const facts: string[] = [];
+  if (summary.shape) {
+    facts.push(`shape (${summary.shape.join(', ')}${summary.shape.length === 1 ? ',' : ''})`);
+  }
+  if (summary.dtype) {
+    facts.push(`dtype ${summary.dtype}`);
+  }
+  if (summary.device) {
+    facts.push(`device ${summary.device}`);
+  }
+  if (summary.min !== undefined && summary.max !== undefined) {
+    facts.push(`min ${summary.min}, max ${summary.max}`);
+  }
+  if (summary.memory_usage !== undefined) {
+    facts.push(`memory ${formatBytes(summary.memory_usage)}`);
+  }
+
+  const lines = [facts.length ? `${type}: ${facts.join(', ')}` : type];
+  if (summary.dtypes && Object.keys(summary.dtypes).length) {
+    const dtypes = Object.entries(summary.dtypes).map(([col, dtype]) => `${col}: ${dtype}`);
+    lines.push(`dtypes: ${dtypes.join(', ')}`);
+  }
+  if (typeof summary.null_counts === 'number') {
+    if (summary.null_counts) {
+      lines.push(`nulls: ${summary.null_counts}`);
+    }
+  } else if (summary.null_counts && Object.keys(summary.null_counts).length) {
+    const nulls = Object.entries(summary.null_counts).map(([col, n]) => `${col}: ${n}`);
+    lines.push(`nulls: ${nulls.join(', ')}`);
+  }
+  if (summary.head) {
+    lines.push(`head:\n${summary.head}`);
+  }
+  if (summary.tail) {
+    lines.push(`tail:\n${summary.tail}`);
+  }
+  return lines.join('\n');
+}
@@ -400,13 +400,15 @@ class TestToolInputEvent:
 class TestModelsHandler:
     """Tests for ModelsHandler endpoint."""
 
-    def test_models_handler_returns_models_list(self):
+    @pytest.mark.asyncio
+    async def test_models_handler_returns_models_list(self):
         """GET /ai-jup/models should return list of available models."""
         from ai_jup.handlers import ModelsHandler
 
         handler = MockHandler()
+        handler.get_query_argument = lambda name, default=None: default
         handler.get = ModelsHandler.get.__get__(handler, MockHandler)
-        handler.get()
+        await handler.get()
 
         assert handler._finished
         response = json.loads(handler._buffer[0])
@@ -0,0 +1,218 @@
+"""Tests for tool calls run by the frontend in the notebook's kernel session.
+
+In the client tool execution mode the server streams a tool_execute event
+and waits for the result to be posted to /ai-jup/tool-result.
+"""
+
+import asyncio
+import json
+import os
+import sys
+from unittest.mock import MagicMock, patch, AsyncMock
+
+import pytest
+
+sys.path.insert(0, os.path.join(os.path.dirname(__file__), ".."))
+
+from ai_jup.handlers import (
+    _pending_tool_results,
+    _register_tool_result,
+    _resolve_tool_result,
+    _wait_for_tool_result,
+)
+from test_tool_loop import MockHandler
+from test_tool_approval import FUNCTIONS, _text_stream, _tool_call_stream
+
+
+@pytest.fixture
+def handler():
+    """Create a mock handler with PromptHandler methods bound and no server kernel."""
+    from ai_jup.handlers import PromptHandler
+
+    h = MockHandler()
+    for name in ("_build_system_prompt", "_build_tools", "_build_messages",
+                 "_python_type_to_json_schema", "_write_sse", "_wait_for_frontend",
+                 "on_connection_close", "post"):
+        setattr(h, name, getattr(PromptHandler, name).__get__(h, MockHandler))
+    return h
+
+
+async def _run(handler, result, **body):
+    """Run a prompt whose model calls save(path="a.csv") once, answering with `result`."""
+    handler._json_body = {
+        "prompt": "save it",
+        "context": {"functions": FUNCTIONS},
+        "max_steps": 5,
+        "tool_execution": "client",
+        **body,
+    }
+    client = MagicMock()
+    client.messages.stream.side_effect = [_tool_call_stream({"path": "a.csv"}), _text_stream("Done")]
+    execute_tool = AsyncMock()
+    handler._execute_tool_in_kernel = execute_tool
+    wait_for_tool_result = AsyncMock(return_value=result)
+
+    with (
+        patch("ai_jup.handlers.HAS_ANTHROPIC", True),
+        patch.dict(os.environ, {"ANTHROPIC_API_KEY": "test-key"}),
+        patch("ai_jup.handlers.anthropic") as mock_anthropic,
+        patch("ai_jup.handlers._wait_for_tool_result", wait_for_tool_result),
+    ):
+        mock_anthropic.AsyncAnthropic.return_value = client
+        mock_anthropic.NOT_GIVEN = object()
+        await handler.post()
+
+    events = [
+        json.loads(chunk[6:]) for chunk in "".join(handler._buffer).split("\n\n")
+        if chunk.startswith("data: ")
+    ]
+    return events, execute_tool, wait_for_tool_result, client
+
+
+@pytest.mark.asyncio
+async def test_frontend_runs_the_tool_without_a_server_kernel(handler):
+    result = {"status": "success", "result": {"type": "text", "content": "saved"}}
+    events, execute_tool, wait_for_tool_result, client = await _run(handler, result)
+
+    request = next(e["tool_execute"] for e in events if "tool_execute" in e)
+    assert request["tool_id"] == "tool_1"
+    assert request["name"] == "save"
+    assert request["input"] == {"path": "a.csv"}
+    assert wait_for_tool_result.call_args.args[0] == request["id"]
+    execute_tool.assert_not_called()
+
+    tool_result = next(e["tool_result"] for e in events if "tool_result" in e)
+    duration = tool_result.pop("duration")
+    assert isinstance(duration, float) and duration >= 0
+    assert tool_result == {"id": "tool_1", "name": "save", "input": {"path": "a.csv"}, "result": result}
+    messages = client.messages.stream.call_args.kwargs["messages"]
+    assert messages[-1]["content"][0]["content"] == "saved"
+    assert {"text": "Done"} in events
+    assert events[-1] == {"done": True}
+
+
+@pytest.mark.asyncio
+async def test_tool_errors_are_reported_to_the_model(handler):
+    events, _, _, client = await _run(handler, {"status": "error", "error": "KeyboardInterrupt: "})
+
+    messages = client.messages.stream.call_args.kwargs["messages"]
+    assert messages[-1]["content"][0]["content"] == "Error: KeyboardInterrupt: "
+
+
+@pytest.mark.asyncio
+async def test_denied_call_is_not_sent_to_the_frontend(handler):
+    with patch("ai_jup.handlers._wait_for_approval", AsyncMock(return_value={"decision": "deny"})):
+        events, _, wait_for_tool_result, _ = await _run(handler, None, tool_approval="always")
+
+    assert not any("tool_execute" in e for e in events)
+    wait_for_tool_result.assert_not_called()
+    tool_result = next(e["tool_result"] for e in events if "tool_result" in e)
+    assert tool_result["result"]["status"] == "denied"
+    assert "duration" not in tool_result
+
+
+@pytest.mark.asyncio
+async def test_unknown_tool_execution_mode_rejected(handler):
+    handler._json_body = {"prompt": "hi", "context": {}, "tool_execution": "browser"}
+
+    await handler.post()
+
+    assert handler._status_code == 400
+    assert "Unknown tool execution mode" in json.loads(handler._buffer[0])["error"]
+
+
+@pytest.mark.asyncio
+async def test_server_tool_execution_rejected_for_other_languages(handler):
+    handler._json_body = {
+        "prompt": "hi",
+        "context": {"functions": FUNCTIONS, "language": "R"},
+        "max_steps": 5,
+    }
+
+    await handler.post()
+
+    assert handler._status_code == 400
+    assert "not supported in r kernels" in json.loads(handler._buffer[0])["error"]
+
+
+@pytest.mark.asyncio
+async def test_disconnect_stops_waiting_for_the_result(handler):
+    handler._json_body = {
+        "prompt": "save it",
+        "context": {"functions": FUNCTIONS},
+        "max_steps": 5,
+        "tool_execution": "client",
+    }
+    client = MagicMock()
+    client.messages.stream.side_effect = [_tool_call_stream({"path": "a.csv"}), _text_stream("Done")]
+    write_sse = handler._write_sse
+
+    async def write_and_disconnect(data):
+        await write_sse(data)
+        if "tool_execute" in data:
+            asyncio.get_running_loop().call_soon(handler.on_connection_close)
+
+    handler._write_sse = write_and_disconnect
+    with (
+        patch("ai_jup.handlers.HAS_ANTHROPIC", True),
+        patch.dict(os.environ, {"ANTHROPIC_API_KEY": "test-key"}),
+        patch("ai_jup.handlers.anthropic") as mock_anthropic,
+    ):
+        mock_anthropic.AsyncAnthropic.return_value = client
+        mock_anthropic.NOT_GIVEN = object()
+        await asyncio.wait_for(handler.post(), 5)
+
+    request = json.loads(handler._buffer[-1][6:])["tool_execute"]
+    assert request["id"] not in _pending_tool_results
+    assert client.messages.stream.call_count == 1
+    assert "tool_result" not in "".join(handler._buffer)
+
+
+@pytest.mark.asyncio
+async def test_missing_result_becomes_an_error():
+    future = _register_tool_result("r1")
+    result = await _wait_for_tool_result("r1", future, timeout=0.01)
+
+    assert result["status"] == "error"
+    assert "No tool result received" in result["error"]
+    assert "r1" not in _pending_tool_results
+
+
+class TestToolResultHandler:
+    """Tests for the /ai-jup/tool-result endpoint."""
+
+    def _handler(self, body):
+        from ai_jup.handlers import ToolResultHandler
+
+        h = MockHandler()
+        h.post = ToolResultHandler.post.__get__(h, MockHandler)
+        h._json_body = body
+        return h
+
+    @pytest.mark.asyncio
+    async def test_result_resolves_waiting_call(self):
+        future = _register_tool_result("r2")
+        result = {"status": "success", "result": {"type": "image", "format": "png", "content": "AAAA"}}
+        h = self._handler({"id": "r2", "result": result})
+
+        h.post()
+
+        assert h._status_code == 200
+        assert await future == result
+
+    @pytest.mark.asyncio
+    async def test_malformed_result_becomes_an_error(self):
+        future = _register_tool_result("r3")
+        h = self._handler({"id": "r3", "result": "42"})
+
+        h.post()
+
+        assert await future == {"status": "error", "error": "Invalid tool result"}
+
+    def test_unknown_request_id(self):
+        h = self._handler({"id": "missing", "result": {"status": "success"}})
+
+        h.post()
+
+        assert h._status_code == 404
+        assert not _resolve_tool_result("missing", {})
@@ -69,6 +69,114 @@ def test_build_system_prompt():
     assert "calculate" in prompt
     print("✓ System prompt with functions works")
 
+    # Test with a reference that failed to evaluate
+    variables = {
+        "df.foo": {"type": "error", "repr": "", "error": "AttributeError: no attribute 'foo'"}
+    }
+    blocks = handler._build_system_prompt("", variables, {})
+    prompt = _blocks_to_text(blocks)
+    assert "`df.foo`: could not be evaluated (AttributeError: no attribute 'foo')" in prompt
+    print("✓ System prompt with failed variable evaluation works")
+
+    # Test with a summarized variable: the summary replaces the repr
+    variables = {
+        "df": {
+            "type": "DataFrame",
+            "repr": "truncated repr",
+            "summary": {
+                "kind": "dataframe",
+                "shape": [100, 2],
+                "dtypes": {"a": "int64", "b": "float64"},
+                "null_counts": {"b": 3},
+                "head": "   a    b\n0  1  0.5",
+                "memory_usage": 2048
+            }
+        }
+    }
+    blocks = handler._build_system_prompt("", variables, {})
+    prompt = _blocks_to_text(blocks)
+    assert "`df`: DataFrame: shape (100, 2), memory 2.0 KB" in prompt
+    assert "dtypes: a: int64, b: float64" in prompt
+    assert "nulls: b: 3" in prompt
+    assert "truncated repr" not in prompt
+    print("✓ System prompt with summarized variable works")
+
+
+def test_build_system_prompt_uses_kernel_language():
+    """Test that code fences and instructions use the kernel language."""
+    from ai_jup.handlers import PromptHandler
+
+    class MockHandler:
+        pass
+
+    handler = MockHandler()
+    handler._build_system_prompt = PromptHandler._build_system_prompt.__get__(handler, MockHandler)
+
+    blocks = handler._build_system_prompt("x <- c(1, 2)", {}, {}, language="R")
+    prompt = _blocks_to_text(blocks)
+    assert "```r\nx <- c(1, 2)\n```" in prompt
+    assert "write R that can be executed" in prompt
+
+    blocks = handler._build_system_prompt("import os", {}, {})
+    assert "```python\nimport os" in _blocks_to_text(blocks)
+
+
+def test_build_system_prompt_with_cell_outputs():
+    """Test that text outputs and errors are labelled with their cell."""
+    from ai_jup.handlers import PromptHandler
+
+    class MockHandler:
+        pass
+
+    handler = MockHandler()
+    handler._build_system_prompt = PromptHandler._build_system_prompt.__get__(handler, MockHandler)
+
+    outputs = [
+        {"outputType": "stream", "name": "stdout", "text": "(100, 3)", "cellIndex": 1},
+        {"outputType": "execute_result", "text": "0.93", "cellIndex": 2},
+        {"outputType": "error", "text": "KeyError: 'x'", "cellIndex": 3},
+    ]
+    prompt = _blocks_to_text(handler._build_system_prompt("", {}, {}, outputs=outputs))
+    assert "## Cell Outputs" in prompt
+    assert "### Cell 1 (stdout)\n```\n(100, 3)\n```" in prompt
+    assert "### Cell 2 (result)\n```\n0.93\n```" in prompt
+    assert "### Cell 3 (error)\n```\nKeyError: 'x'\n```" in prompt
+
+    prompt = _blocks_to_text(handler._build_system_prompt("", {}, {}))
+    assert "Cell Outputs" not in prompt
+
+
+def test_build_system_prompt_with_editable_cells():
+    """Test that edit mode lists cells by id and asks for a JSON edit block."""
+    from ai_jup.handlers import PromptHandler
+
+    class MockHandler:
+        pass
+
+    handler = MockHandler()
+    handler._build_system_prompt = PromptHandler._build_system_prompt.__get__(handler, MockHandler)
+
+    cells = [{"id": "c1", "source": "df = load()"}, {"id": "c2", "source": "df.plot()"}]
+    prompt = _blocks_to_text(handler._build_system_prompt("", {}, {}, editable_cells=cells))
+    assert '{"edits": [...]}' in prompt
+    assert "### Cell `c1`\n```python\ndf = load()\n```" in prompt
+    assert "### Cell `c2`" in prompt
+
+    prompt = _blocks_to_text(handler._build_system_prompt("x = 1", {}, {}))
+    assert "edits" not in prompt
+    assert "Notebook Cells" not in prompt
+
+
+def test_format_variable_summary():
+    """Test formatting of array and tensor summaries."""
+    from ai_jup.handlers import _format_variable_summary
+
+    text = _format_variable_summary("ndarray", {"shape": [3], "dtype": "float64", "min": 0.5, "max": 2.0})
+    assert text == "ndarray: shape (3,), dtype float64, min 0.5, max 2.0"
+
+    text = _format_variable_summary("Tensor", {"shape": [2, 2], "dtype": "torch.float32", "device": "cuda:0"})
+    assert text == "Tensor: shape (2, 2), dtype torch.float32, device cuda:0"
+
 
 def test_build_tools():
     """Test the tool building logic."""
@@ -0,0 +1,309 @@
+"""Tests for the LLM provider abstraction.
+
+Covers provider selection, conversion of Anthropic-format messages and tools
+for OpenAI-compatible endpoints, and normalization of streamed events.
+"""
+
+import json
+import os
+import sys
+from types import SimpleNamespace
+from unittest.mock import MagicMock, patch, AsyncMock
+
+import pytest
+
+sys.path.insert(0, os.path.join(os.path.dirname(__file__), ".."))
+
+from ai_jup.handlers import (
+    DEFAULT_LOCAL_BASE_URL,
+    BaseUrlNotAllowedError,
+    ProviderError,
+    _get_provider,
+    _to_openai_messages,
+    _to_openai_tools,
+)
+
+
+def _chunk(content=None, tool_calls=None):
+    """Build a Chat Completions stream chunk."""
+    delta = SimpleNamespace(content=content, tool_calls=tool_calls)
+    return SimpleNamespace(choices=[SimpleNamespace(delta=delta)])
+
+
+def _tool_call_delta(index, call_id=None, name=None, arguments=None):
+    return SimpleNamespace(
+        index=index,
+        id=call_id,
+        function=SimpleNamespace(name=name, arguments=arguments),
+    )
+
+
+class MockChunkStream:
+    """Async iterator over Chat Completions chunks."""
+
+    def __init__(self, chunks):
+        self.chunks = list(chunks)
+
+    def __aiter__(self):
+        return self
+
+    async def __anext__(self):
+        if not self.chunks:
+            raise StopAsyncIteration
+        return self.chunks.pop(0)
+
+
+def _openai_client(chunks):
+    client = MagicMock()
+    client.chat.completions.create = AsyncMock(return_value=MockChunkStream(chunks))
+    return client
+
+
+def test_unknown_provider_rejected():
+    with pytest.raises(ProviderError, match="Unknown provider"):
+        _get_provider("nope")
+
+
+def test_openai_provider_requires_package():
+    with patch("ai_jup.handlers.HAS_OPENAI", False):
+        with pytest.raises(ProviderError, match="openai package not installed"):
+            _get_provider("local")
+
+
+def test_openai_provider_requires_key_without_base_url():
+    with (
+        patch("ai_jup.handlers.HAS_OPENAI", True),
+        patch("ai_jup.handlers.openai", create=True),
+        patch.dict(os.environ, {}, clear=True),
+    ):
+        with pytest.raises(ProviderError, match="OPENAI_API_KEY"):
+            _get_provider("openai")
+
+
+def test_local_provider_uses_default_base_url():
+    with (
+        patch("ai_jup.handlers.HAS_OPENAI", True),
+        patch("ai_jup.handlers.openai", create=True) as mock_openai,
+        patch.dict(os.environ, {"AI_JUP_ALLOWED_BASE_URLS": "http://gpu-box:8000/v1/"}, clear=True),
+    ):
+        _get_provider("local")
+        kwargs = mock_openai.AsyncOpenAI.call_args.kwargs
+        assert kwargs["base_url"] == DEFAULT_LOCAL_BASE_URL
+        assert kwargs["api_key"]
+
+        _get_provider("local", "http://gpu-box:8000/v1")
+        assert mock_openai.AsyncOpenAI.call_args.kwargs["base_url"] == "http://gpu-box:8000/v1"
+
+
+def test_base_url_must_be_allowed_by_the_server():
+    with (
+        patch("ai_jup.handlers.HAS_OPENAI", True),
+        patch("ai_jup.handlers.openai", create=True) as mock_openai,
+        patch.dict(os.environ, {"OPENAI_API_KEY": "server-key", "AI_JUP_ALLOWED_BASE_URLS": "http://gpu-box:8000/v1"}),
+    ):
+        with pytest.raises(BaseUrlNotAllowedError, match="AI_JUP_ALLOWED_BASE_URLS"):
+            _get_provider("openai", "https://attacker.example/v1")
+        mock_openai.AsyncOpenAI.assert_not_called()
+
+
+def test_to_openai_messages_converts_tool_turns():
+    system = [
+        {"type": "text", "text": "You are helpful.", "cache_control": {"type": "ephemeral"}},
+        {"type": "text", "text": "## Variables"},
+        {"type": "image", "source": {"type": "base64", "media_type": "image/png", "data": "AAAA"}},
+    ]
+    messages = [
+        {"role": "user", "content": "What is x?"},
+        {"role": "assistant", "content": [
+            {"type": "text", "text": "Let me check."},
+            {"type": "tool_use", "id": "t1", "name": "get_x", "input": {"n": 1}},
+        ]},
+        {"role": "user", "content": [
+            {"type": "tool_result", "tool_use_id": "t1", "content": "42"},
+        ]},
+    ]
+
+    result = _to_openai_messages(system, messages)
+
+    assert result[0] == {"role": "system", "content": "You are helpful.\n\n## Variables"}
+    assert result[1] == {
+        "role": "user",
+        "content": [{"type": "image_url", "image_url": {"url": "data:image/png;base64,AAAA"}}],
+    }
+    assert result[2] == {"role": "user", "content": "What is x?"}
+    assert result[3] == {
+        "role": "assistant",
+        "content": "Let me check.",
+        "tool_calls": [{
+            "id": "t1",
+            "type": "function",
+            "function": {"name": "get_x", "arguments": json.dumps({"n": 1})},
+        }],
+    }
+    assert result[4] == {"role": "tool", "tool_call_id": "t1", "content": "42"}
+
+
+def test_to_openai_tools():
+    tools = [{
+        "name": "add",
+        "description": "Add numbers",
+        "input_schema": {"type": "object", "properties": {"x": {"type": "integer"}}, "required": ["x"]},
+    }]
+    assert _to_openai_tools(tools) == [{
+        "type": "function",
+        "function": {
+            "name": "add",
+            "description": "Add numbers",
+            "parameters": {"type": "object", "properties": {"x": {"type": "integer"}}, "required": ["x"]},
+        },
+    }]
+
+
+@pytest.mark.asyncio
+async def test_openai_stream_is_normalized():
+    """Text and tool call deltas become the same events as the Anthropic provider's."""
+    chunks = [
+        _chunk(content="Checking "),
+        _chunk(tool_calls=[_tool_call_delta(0, "call_1", "add", '{"x": ')]),
+        _chunk(tool_calls=[_tool_call_delta(0, arguments="1}")]),
+        SimpleNamespace(choices=[]),
+    ]
+    client = _openai_client(chunks)
+
+    with (
+        patch("ai_jup.handlers.HAS_OPENAI", True),
+        patch("ai_jup.handlers.openai", create=True) as mock_openai,
+    ):
+        mock_openai.AsyncOpenAI.return_value = client
+        provider = _get_provider("local")
+        events = [event async for event in provider.stream("llama3", [], [], [{"name": "add"}])]
+
+    assert events == [
+        {"type": "text", "text": "Checking "},
+        {"type": "tool_call", "id": "call_1", "name": "add"},
+        {"type": "tool_input", "partial_json": '{"x": '},
+        {"type": "tool_input", "partial_json": "1}"},
+        {"type": "message", "content": [
+            {"type": "text", "text": "Checking "},
+            {"type": "tool_use", "id": "call_1", "name": "add", "input": {"x": 1}},
+        ]},
+    ]
+    request = client.chat.completions.create.call_args.kwargs
+    assert request["model"] == "llama3"
+    assert request["stream"] is True
+    assert request["tools"][0]["function"]["name"] == "add"
+
+
+@pytest.mark.asyncio
+async def test_prompt_handler_streams_from_local_provider():
+    """The prompt endpoint emits the same SSE events for OpenAI-compatible providers."""
+    from ai_jup.handlers import PromptHandler
+    from test_tool_loop import MockHandler
+
+    handler = MockHandler()
+    for name in ("_build_system_prompt", "_build_tools", "_build_messages",
+                 "_python_type_to_json_schema", "_write_sse", "post"):
+        setattr(handler, name, getattr(PromptHandler, name).__get__(handler, MockHandler))
+    handler._json_body = {
+        "prompt": "hi",
+        "context": {},
+        "model": "llama3",
+        "provider": "local",
+        "base_url": "http://localhost:8000/v1",
+    }
+    client = _openai_client([_chunk(content="Hello "), _chunk(content="there")])
+
+    with (
+        patch("ai_jup.handlers.HAS_OPENAI", True),
+        patch("ai_jup.handlers.openai", create=True) as mock_openai,
+        patch.dict(os.environ, {"AI_JUP_ALLOWED_BASE_URLS": "http://localhost:8000/v1"}),
+    ):
+        mock_openai.AsyncOpenAI.return_value = client
+        await handler.post()
+
+    response = "".join(handler._buffer)
+    assert 'data: {"text": "Hello "}' in response
+    assert 'data: {"text": "there"}' in response
+    assert 'data: {"done": true}' in response
+    assert mock_openai.AsyncOpenAI.call_args.kwargs["base_url"] == "http://localhost:8000/v1"
+
+
+@pytest.mark.asyncio
+async def test_prompt_handler_rejects_unknown_provider():
+    from ai_jup.handlers import PromptHandler
+    from test_tool_loop import MockHandler
+
+    handler = MockHandler()
+    handler._build_system_prompt = PromptHandler._build_system_prompt.__get__(handler, MockHandler)
+    handler.post = PromptHandler.post.__get__(handler, MockHandler)
+    handler._json_body = {"prompt": "hi", "context": {}, "provider": "nope"}
+
+    await handler.post()
+
+    assert handler._status_code == 400
+    assert "Unknown provider" in json.loads(handler._buffer[0])["error"]
+
+
+async def _get_models(**query):
+    from ai_jup.handlers import ModelsHandler
+    from test_tool_loop import MockHandler
+
+    handler = MockHandler()
+    handler.get_query_argument = lambda name, default=None: query.get(name, default)
+    handler.get = ModelsHandler.get.__get__(handler, MockHandler)
+    await handler.get()
+    return handler
+
+
+@pytest.mark.asyncio
+async def test_models_handler_lists_models_of_openai_compatible_providers():
+    client = MagicMock()
+    client.models.list.return_value = MockChunkStream([SimpleNamespace(id="llama3"), SimpleNamespace(id="qwen2")])
+
+    with (
+        patch("ai_jup.handlers.HAS_OPENAI", True),
+        patch("ai_jup.handlers.openai", create=True) as mock_openai,
+        patch.dict(os.environ, {"AI_JUP_ALLOWED_BASE_URLS": "http://gpu-box:8000/v1"}),
+    ):
+        mock_openai.AsyncOpenAI.return_value = client
+        handler = await _get_models(provider="local", base_url="http://gpu-box:8000/v1")
+
+    assert json.loads(handler._buffer[0])["models"] == [
+        {"id": "llama3", "name": "llama3"},
+        {"id": "qwen2", "name": "qwen2"},
+    ]
+    assert mock_openai.AsyncOpenAI.call_args.kwargs["base_url"] == "http://gpu-box:8000/v1"
+
+
+@pytest.mark.asyncio
+async def test_models_handler_reports_unreachable_providers():
+    client = MagicMock()
+    client.models.list.side_effect = ConnectionError("Connection refused")
+
+    with (
+        patch("ai_jup.handlers.HAS_OPENAI", True),
+        patch("ai_jup.handlers.openai", create=True) as mock_openai,
+    ):
+        mock_openai.AsyncOpenAI.return_value = client
+        handler = await _get_models(provider="local")
+
+    assert handler._status_code == 502
+    assert "Connection refused" in json.loads(handler._buffer[0])["error"]
+
+
+@pytest.mark.asyncio
+async def test_models_handler_rejects_base_urls_the_server_does_not_allow():
+    with patch.dict(os.environ, {"OPENAI_API_KEY": "server-key"}):
+        os.environ.pop("AI_JUP_ALLOWED_BASE_URLS", None)
+        handler = await _get_models(provider="openai", base_url="https://attacker.example/v1")
+
+    assert handler._status_code == 403
+    assert "not allowed" in json.loads(handler._buffer[0])["error"]
+
+
+@pytest.mark.asyncio
+async def test_models_handler_rejects_unknown_provider():
+    handler = await _get_models(provider="nope")
+
+    assert handler._status_code == 400
+    assert "Unknown provider" in json.loads(handler._buffer[0])["error"]
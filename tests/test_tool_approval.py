@@ -0,0 +1,274 @@
+"""Tests for approval of tool calls before they run in the kernel.
+
+Covers when approval is required, the wait for a decision, the approval
+endpoint, and approved, edited and denied calls in the tool loop.
+"""
+
+import asyncio
+import json
+import os
+import sys
+from unittest.mock import MagicMock, patch, AsyncMock
+
+import pytest
+
+sys.path.insert(0, os.path.join(os.path.dirname(__file__), ".."))
+
+from ai_jup.handlers import (
+    _needs_approval,
+    _pending_approvals,
+    _register_approval,
+    _resolve_approval,
+    _wait_for_approval,
+)
+from test_tool_loop import MockContentBlock, MockDelta, MockEvent, MockHandler, MockStreamContext
+
+
+FUNCTIONS = {
+    "save": {
+        "signature": "(path: str)",
+        "docstring": "Save the data",
+        "parameters": {"path": {"type": "str", "description": "path"}},
+    }
+}
+
+
+@pytest.fixture
+def handler():
+    """Create a mock handler with PromptHandler methods bound."""
+    from ai_jup.handlers import PromptHandler
+
+    h = MockHandler()
+    for name in ("_build_system_prompt", "_build_tools", "_build_messages",
+                 "_python_type_to_json_schema", "_write_sse", "_wait_for_frontend",
+                 "on_connection_close", "post"):
+        setattr(h, name, getattr(PromptHandler, name).__get__(h, MockHandler))
+    kernel_manager = MagicMock()
+    kernel_manager.get_kernel.return_value = MagicMock()
+    h.settings["kernel_manager"] = kernel_manager
+    return h
+
+
+def _tool_call_stream(tool_input):
+    block = MockContentBlock(block_type="tool_use", name="save", block_id="tool_1")
+    return MockStreamContext([
+        MockEvent("content_block_start", content_block=block),
+        MockEvent("content_block_delta", delta=MockDelta(partial_json=json.dumps(tool_input))),
+        MockEvent("content_block_stop"),
+        MockEvent("message_stop"),
+    ])
+
+
+def _text_stream(text):
+    block = MockContentBlock(block_type="text")
+    return MockStreamContext([
+        MockEvent("content_block_start", content_block=block),
+        MockEvent("content_block_delta", delta=MockDelta(text=text)),
+        MockEvent("content_block_stop"),
+        MockEvent("message_stop"),
+    ])
+
+
+async def _run(handler, approval_mode, answer, approved_tools=None):
+    """Run a prompt whose model calls save(path="a.csv") once, answering approval with `answer`."""
+    handler._json_body = {
+        "prompt": "save it",
+        "context": {"functions": FUNCTIONS},
+        "kernel_id": "k1",
+        "max_steps": 5,
+        "tool_approval": approval_mode,
+        "approved_tools": approved_tools or [],
+    }
+    client = MagicMock()
+    client.messages.stream.side_effect = [_tool_call_stream({"path": "a.csv"}), _text_stream("Done")]
+    execute_tool = AsyncMock(return_value={"status": "success", "result": {"type": "text", "content": "saved"}})
+    wait_for_approval = AsyncMock(return_value=answer)
+    handler._execute_tool_in_kernel = execute_tool
+
+    with (
+        patch("ai_jup.handlers.HAS_ANTHROPIC", True),
+        patch.dict(os.environ, {"ANTHROPIC_API_KEY": "test-key"}),
+        patch("ai_jup.handlers.anthropic") as mock_anthropic,
+        patch("ai_jup.handlers._wait_for_approval", wait_for_approval),
+    ):
+        mock_anthropic.AsyncAnthropic.return_value = client
+        mock_anthropic.NOT_GIVEN = object()
+        await handler.post()
+
+    return "".join(handler._buffer), execute_tool, wait_for_approval, client
+
+
+def _last_tool_result(client):
+    messages = client.messages.stream.call_args.kwargs["messages"]
+    return messages[-1]["content"][0]["content"]
+
+
+def test_needs_approval_modes():
+    assert _needs_approval("always", "save", ["save"]) is True
+    assert _needs_approval("unlisted", "save", ["load"]) is True
+    assert _needs_approval("unlisted", "save", ["save"]) is False
+    assert _needs_approval("auto", "save", []) is False
+
+
+@pytest.mark.asyncio
+async def test_resolved_approval_is_returned():
+    future = _register_approval("a1")
+    assert _resolve_approval("a1", {"decision": "approve"}) is True
+    assert await _wait_for_approval("a1", future) == {"decision": "approve"}
+    assert "a1" not in _pending_approvals
+    assert _resolve_approval("a1", {"decision": "deny"}) is False
+
+
+@pytest.mark.asyncio
+async def test_unanswered_approval_is_denied():
+    future = _register_approval("a2")
+    assert await _wait_for_approval("a2", future, timeout=0.01) == {"decision": "deny"}
+    assert "a2" not in _pending_approvals
+
+
+@pytest.mark.asyncio
+async def test_auto_mode_runs_without_asking(handler):
+    response, execute_tool, wait_for_approval, _ = await _run(handler, "auto", None)
+
+    assert "tool_approval" not in response
+    wait_for_approval.assert_not_called()
+    execute_tool.assert_called_once()
+
+
+@pytest.mark.asyncio
+async def test_approved_call_runs(handler):
+    response, execute_tool, wait_for_approval, client = await _run(
+        handler, "always", {"decision": "approve"}
+    )
+
+    events = [json.loads(line[6:]) for line in response.split("\n\n") if line.startswith("data: ")]
+    approval = next(e["tool_approval"] for e in events if "tool_approval" in e)
+    assert approval["tool_id"] == "tool_1"
+    assert approval["name"] == "save"
+    assert approval["input"] == {"path": "a.csv"}
+    assert approval["id"]
+    assert execute_tool.call_args.args[2] == {"path": "a.csv"}
+    assert _last_tool_result(client) == "saved"
+    assert 'data: {"done": true}' in response
+
+
+@pytest.mark.asyncio
+async def test_edited_call_runs_with_new_arguments(handler):
+    response, execute_tool, _, client = await _run(
+        handler, "always", {"decision": "edit", "args": {"path": "b.csv"}}
+    )
+
+    assert execute_tool.call_args.args[2] == {"path": "b.csv"}
+    assert '"input": {"path": "b.csv"}, "result"' in response
+    assert _last_tool_result(client).startswith('The user changed the arguments to {"path": "b.csv"}.')
+
+
+@pytest.mark.asyncio
+async def test_edited_arguments_are_validated(handler):
+    response, execute_tool, _, _ = await _run(
+        handler, "always", {"decision": "edit", "args": {"bad key": 1}}
+    )
+
+    assert "Invalid tool argument name: bad key" in response
+    execute_tool.assert_not_called()
+
+
+@pytest.mark.asyncio
+async def test_denied_call_is_reported_to_the_model(handler):
+    response, execute_tool, _, client = await _run(handler, "always", {"decision": "deny"})
+
+    execute_tool.assert_not_called()
+    assert '"status": "denied"' in response
+    assert "denied" in _last_tool_result(client)
+    assert 'data: {"text": "Done"}' in response
+
+
+@pytest.mark.asyncio
+async def test_listed_function_runs_without_asking(handler):
+    _, execute_tool, wait_for_approval, _ = await _run(handler, "unlisted", None, approved_tools=["save"])
+
+    wait_for_approval.assert_not_called()
+    execute_tool.assert_called_once()
+
+
+@pytest.mark.asyncio
+async def test_disconnect_denies_the_waiting_call(handler):
+    handler._json_body = {
+        "prompt": "save it",
+        "context": {"functions": FUNCTIONS},
+        "kernel_id": "k1",
+        "max_steps": 5,
+        "tool_approval": "always",
+    }
+    client = MagicMock()
+    client.messages.stream.side_effect = [_tool_call_stream({"path": "a.csv"}), _text_stream("Done")]
+    execute_tool = AsyncMock()
+    handler._execute_tool_in_kernel = execute_tool
+    write_sse = handler._write_sse
+
+    async def write_and_disconnect(data):
+        await write_sse(data)
+        if "tool_approval" in data:
+            handler.on_connection_close()
+
+    handler._write_sse = write_and_disconnect
+    with (
+        patch("ai_jup.handlers.HAS_ANTHROPIC", True),
+        patch.dict(os.environ, {"ANTHROPIC_API_KEY": "test-key"}),
+        patch("ai_jup.handlers.anthropic") as mock_anthropic,
+    ):
+        mock_anthropic.AsyncAnthropic.return_value = client
+        mock_anthropic.NOT_GIVEN = object()
+        await asyncio.wait_for(handler.post(), 5)
+
+    approval = json.loads(handler._buffer[-1][6:])["tool_approval"]
+    assert approval["id"] not in _pending_approvals
+    execute_tool.assert_not_called()
+    assert client.messages.stream.call_count == 1
+
+
+@pytest.mark.asyncio
+async def test_unknown_approval_mode_rejected(handler):
+    handler._json_body = {"prompt": "hi", "context": {}, "tool_approval": "sometimes"}
+
+    await handler.post()
+
+    assert handler._status_code == 400
+    assert "Unknown tool approval mode" in json.loads(handler._buffer[0])["error"]
+
+
+class TestToolApprovalHandler:
+    """Tests for the /ai-jup/tool-approval endpoint."""
+
+    def _handler(self, body):
+        from ai_jup.handlers import ToolApprovalHandler
+
+        h = MockHandler()
+        h.post = ToolApprovalHandler.post.__get__(h, MockHandler)
+        h._json_body = body
+        return h
+
+    @pytest.mark.asyncio
+    async def test_decision_resolves_waiting_call(self):
+        future = _register_approval("a3")
+        h = self._handler({"id": "a3", "decision": "edit", "args": {"path": "c.csv"}})
+
+        h.post()
+
+        assert h._status_code == 200
+        assert await future == {"decision": "edit", "args": {"path": "c.csv"}}
+
+    def test_unknown_approval_id(self):
+        h = self._handler({"id": "missing", "decision": "approve"})
+
+        h.post()
+
+        assert h._status_code == 404
+
+    def test_invalid_decision(self):
+        h = self._handler({"id": "a4", "decision": "maybe"})
+
+        h.post()
+
+        assert h._status_code == 400
+        assert "Invalid decision" in json.loads(h._buffer[0])["error"]
@@ -33,4 +33,24 @@ def test_build_tool_execution_code_handles_json_bool_and_null():
     assert result["type"] == "text"
     assert "True" in result["content"]
     assert "None" in result["content"]
+    assert "data" not in payload
 
+
+def test_build_tool_execution_code_includes_mime_bundle():
+    class Formatter:
+        def format(self, obj):
+            return {"text/plain": repr(obj), "text/latex": "$x^2$"}, {}
+
+    class Shell:
+        display_formatter = Formatter()
+
+    code = _build_tool_execution_code("tool", {}, timeout=5)
+
+    stdout = io.StringIO()
+    scope = {"tool": lambda: "x**2", "get_ipython": Shell}
+    with redirect_stdout(stdout):
+        exec(code, scope, scope)
+
+    payload = json.loads(stdout.getvalue().strip().splitlines()[-1])
+    assert payload["result"] == {"type": "text", "content": "'x**2'"}
+    assert payload["data"] == {"text/plain": "'x**2'", "text/latex": "$x^2$"}